@@ -6,8 +6,9 @@
  * algosdk.Algodv2 methods follow the request-builder pattern: getX(...).do().
  */
 
-import type { Algodv2, modelsv2 } from 'algosdk'
-import { Arc90Uri, assetIdToBoxName, completePartialAssetUrl } from './codec'
+import type { modelsv2 } from 'algosdk'
+import * as constants from './constants'
+import { Arc90Uri, assetIdToBoxName, b64Decode, boxNameToAssetId, completePartialAssetUrl } from './codec'
 import { toBigInt } from './internal/numbers'
 import { AsaNotFoundError, BoxNotFoundError, InvalidArc90UriError } from './errors'
 import { AssetMetadataBox, AssetMetadataRecord, RegistryParameters, getDefaultRegistryParams } from './models'
@@ -26,7 +27,29 @@ const looksNotFound = (e: unknown): boolean => {
   return msg.includes('404') || msg.includes('not found') || msg.includes('does not exist')
 }
 
-export type AlgodClientSubset = Pick<Algodv2, 'getApplicationBoxByName' | 'getAssetByID'>
+/** Request builder of `getApplicationBoxes` (as returned by `Algodv2`). */
+export interface AlgodBoxesRequest {
+  query: Record<string, unknown>
+  max(max: number): AlgodBoxesRequest
+  /** Raw JSON page of box names (see `BoxesPage`). */
+  doRaw(): Promise<Uint8Array>
+}
+
+/**
+ * The algod methods used by `AlgodBoxReader` (an `Algodv2` satisfies it). Each returns a
+ * request builder resolved with `.do()` (`.doRaw()` for box pages).
+ */
+export interface AlgodClientSubset {
+  getApplicationBoxByName(appId: bigint | number, boxName: Uint8Array): { do(): Promise<modelsv2.Box> }
+  getAssetByID(assetId: bigint | number): { do(): Promise<modelsv2.Asset> }
+  getApplicationBoxes?(appId: bigint | number): AlgodBoxesRequest
+}
+
+/** Raw JSON page of algod's `GET /v2/applications/{id}/boxes` (paged with `next`). */
+interface BoxesPage {
+  boxes?: { name: string }[]
+  'next-token'?: string
+}
 
 /**
  * Read ARC-89 metadata by directly reading the registry application box via Algod.
@@ -36,6 +59,7 @@ export type AlgodClientSubset = Pick<Algodv2, 'getApplicationBoxByName' | 'getAs
  * Required Algod methods:
  * - getApplicationBoxByName
  * - getAssetByID (for URI resolution)
+ * - getApplicationBoxes (optional, for registry-wide enumeration)
  */
 export class AlgodBoxReader {
   public readonly algod: AlgodClientSubset
@@ -111,13 +135,90 @@ export class AlgodBoxReader {
     assetId: bigint | number
     params?: RegistryParameters
   }): Promise<AssetMetadataRecord> {
-    const box = await this.getMetadataBox(args)
-    return new AssetMetadataRecord({
+    return (await this.getAssetMetadataRecordWithRound(args)).record
+  }
+
+  /**
+   * Like `getAssetMetadataRecord`, also returning the round algod read the box at (null if not reported).
+   * @throws {BoxNotFoundError} If the box does not exist.
+   */
+  async getAssetMetadataRecordWithRound(args: {
+    appId: bigint | number
+    assetId: bigint | number
+    params?: RegistryParameters
+  }): Promise<{ record: AssetMetadataRecord; round: bigint | null }> {
+    let box: modelsv2.Box
+    try {
+      box = await this.getBoxValue({ appId: args.appId, boxName: assetIdToBoxName(args.assetId) })
+    } catch (e) {
+      if (e instanceof BoxNotFoundError) throw new BoxNotFoundError('Metadata box not found', { cause: e })
+      throw e
+    }
+    const p = args.params ?? getDefaultRegistryParams()
+    const parsed = AssetMetadataBox.parse({
+      assetId: args.assetId,
+      value: box.value,
+      headerSize: p.headerSize,
+      maxMetadataSize: p.maxMetadataSize,
+    })
+    const record = new AssetMetadataRecord({
       appId: args.appId,
       assetId: args.assetId,
-      header: box.header,
-      body: box.body,
+      header: parsed.header,
+      body: parsed.body,
     })
+    return { record, round: box.round === undefined ? null : toBigInt(box.round) }
+  }
+
+  // ---------------------------------------------------------------------
+  // Registry-wide enumeration (optional)
+  // ---------------------------------------------------------------------
+
+  /**
+   * Iterate the asset ids of all metadata boxes of the registry app.
+   *
+   * Pages through algod's application boxes endpoint (`max` + `next`); algod versions that
+   * do not page return all box names in a single response. Box names that are not ARC-89
+   * metadata keys are skipped.
+   * @param args - { appId, pageSize }.
+   */
+  async *iterateAssetIds(args: { appId: bigint | number; pageSize?: number }): AsyncGenerator<bigint> {
+    if (!this.algod.getApplicationBoxes) {
+      throw new Error('Box enumeration requires an algod client with getApplicationBoxes')
+    }
+    const appId = toBigInt(args.appId)
+    const pageSize = args.pageSize ?? 1000
+
+    let next: string | undefined
+    do {
+      const request = this.algod.getApplicationBoxes(appId).max(pageSize)
+      if (next) request.query.next = next
+      const page = JSON.parse(new TextDecoder().decode(await request.doRaw())) as BoxesPage
+
+      for (const box of page.boxes ?? []) {
+        const name = b64Decode(box.name)
+        if (name.length !== constants.ASSET_METADATA_BOX_KEY_SIZE) continue
+        yield boxNameToAssetId(name)
+      }
+      next = page['next-token'] || undefined
+    } while (next)
+  }
+
+  /**
+   * Iterate and parse all metadata boxes of the registry app.
+   *
+   * Boxes deleted between listing and fetching are skipped.
+   * @param args - { appId, params, pageSize }.
+   */
+  async *iterateMetadataBoxes(args: {
+    appId: bigint | number
+    params?: RegistryParameters
+    pageSize?: number
+  }): AsyncGenerator<AssetMetadataBox> {
+    for await (const assetId of this.iterateAssetIds({ appId: args.appId, pageSize: args.pageSize })) {
+      const box = await this.tryGetMetadataBox({ appId: args.appId, assetId, params: args.params })
+      if (box) yield box
+    }
   }
 
   // ---------------------------------------------------------------------
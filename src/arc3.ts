@@ -0,0 +1,484 @@
+/**
+ * ARC-3 metadata authoring and import.
+ *
+ * `Arc3MetadataBuilder` builds an ARC-3 JSON body with typed, fluent setters and produces an
+ * `AssetMetadata` flagged ARC-3. ARC-20 (Smart ASA) and ARC-62 (circulating supply) properties
+ * set the matching reversible flags.
+ *
+ * `importArc3Metadata` fetches the off-chain ARC-3 JSON of an existing ASA and verifies it
+ * against the ASA metadata hash (`am`) before it is written to the registry. `exportArc3Metadata`
+ * goes the other way, producing the JSON file and ARC-3 `am` of registry metadata for mirrors
+ * read by clients that do not support ARC-89.
+ */
+
+import { AlgodBoxReader, type AlgodClientSubset } from './algod'
+import { b64Encode } from './codec'
+import { ARC3_PROPERTIES_KEY_ARC20, ARC3_PROPERTIES_KEY_ARC62 } from './constants'
+import {
+  Arc3HashMismatchError,
+  InvalidArc3PropertiesError,
+  MetadataArc3Error,
+  MetadataHashMismatchError,
+} from './errors'
+import { computeArc3MetadataHash, computeMetadataHash, sha256 } from './hashing'
+import { bytesEqual } from './internal/bytes'
+import {
+  AssetMetadata,
+  AssetMetadataRecord,
+  IrreversibleFlags,
+  MetadataBody,
+  MetadataFlags,
+  RegistryParameters,
+  ReversibleFlags,
+  getDefaultRegistryParams,
+} from './models'
+import {
+  type Arc3ValidationIssue,
+  decodeMetadataJson,
+  encodeMetadataJson,
+  validateArc3Metadata,
+  validateArc3Properties,
+} from './validation'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** ARC-3 `localization` object. */
+export interface Arc3Localization {
+  /** URI of the localized metadata, with a `{locale}` placeholder. */
+  uri: string
+  default: string
+  locales: string[]
+  /** SRI digests of the localized files, by locale. */
+  integrity?: Record<string, string>
+}
+
+/** ARC-3 JSON metadata (unknown fields are kept as is). */
+export interface Arc3Metadata {
+  name?: string
+  decimals?: number
+  description?: string
+  image?: string
+  image_integrity?: string
+  image_mimetype?: string
+  background_color?: string
+  external_url?: string
+  external_url_integrity?: string
+  external_url_mimetype?: string
+  animation_url?: string
+  animation_url_integrity?: string
+  animation_url_mimetype?: string
+  properties?: Record<string, unknown>
+  extra_metadata?: string
+  localization?: Arc3Localization
+  [key: string]: unknown
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Subresource Integrity digest of `data`, as used by ARC-3 `*_integrity` fields (`sha256-<base64>`). */
+export const sriSha256 = (data: Uint8Array): string => `sha256-${b64Encode(sha256(data))}`
+
+const applicationId = (arcKey: string, appId: bigint | number): number => {
+  const id = Number(appId)
+  if (!Number.isSafeInteger(id) || id <= 0 || BigInt(appId) !== BigInt(id)) {
+    throw new InvalidArc3PropertiesError(`properties['${arcKey}']['application-id'] must be a positive uint64`)
+  }
+  return id
+}
+
+/** Reversible flags implied by the ARC-20 / ARC-62 properties of ARC-3 JSON. */
+const arc3ReversibleFlags = (json: Record<string, unknown>): ReversibleFlags => {
+  const properties = json['properties']
+  const has = (key: string) => typeof properties === 'object' && properties !== null && key in properties
+  return new ReversibleFlags({ arc20: has(ARC3_PROPERTIES_KEY_ARC20), arc62: has(ARC3_PROPERTIES_KEY_ARC62) })
+}
+
+/** Validate the ARC-20 / ARC-62 properties present in ARC-3 JSON. */
+const validatePresentArc3Properties = (json: Record<string, unknown>): void => {
+  const flags = arc3ReversibleFlags(json)
+  if (flags.arc20) validateArc3Properties(json, ARC3_PROPERTIES_KEY_ARC20)
+  if (flags.arc62) validateArc3Properties(json, ARC3_PROPERTIES_KEY_ARC62)
+}
+
+// ---------------------------------------------------------------------------
+// Builder
+// ---------------------------------------------------------------------------
+
+/**
+ * Fluent builder of ARC-3 metadata.
+ *
+ * Setters overwrite the field; passing `null` removes it. `build()` validates the JSON with
+ * `validateArc3Metadata` and returns an `AssetMetadata` with the irreversible ARC-3 flag set,
+ * and the ARC-20 / ARC-62 reversible flags set if their properties are present.
+ *
+ * @example
+ * const metadata = new Arc3MetadataBuilder()
+ *   .name('My NFT')
+ *   .image('ipfs://...', { bytes: imageBytes, mimetype: 'image/png' })
+ *   .arc62(appId)
+ *   .build({ assetId })
+ */
+export class Arc3MetadataBuilder {
+  private readonly fields: Arc3Metadata
+
+  constructor(initial: Arc3Metadata = {}) {
+    this.fields = structuredClone(initial)
+  }
+
+  private set(key: string, value: unknown): this {
+    if (value === null || value === undefined) delete this.fields[key]
+    else this.fields[key] = value
+    return this
+  }
+
+  name(value: string | null): this {
+    return this.set('name', value)
+  }
+
+  decimals(value: number | null): this {
+    return this.set('decimals', value)
+  }
+
+  description(value: string | null): this {
+    return this.set('description', value)
+  }
+
+  /**
+   * Set `image`, and optionally `image_mimetype` and `image_integrity`.
+   * With `bytes`, `image_integrity` is computed from the image content.
+   */
+  image(uri: string | null, args?: { bytes?: Uint8Array; integrity?: string; mimetype?: string }): this {
+    this.set('image', uri)
+    if (args?.bytes) this.imageIntegrity(sriSha256(args.bytes))
+    else if (args?.integrity !== undefined) this.imageIntegrity(args.integrity)
+    if (args?.mimetype !== undefined) this.imageMimetype(args.mimetype)
+    return this
+  }
+
+  imageIntegrity(value: string | null): this {
+    return this.set('image_integrity', value)
+  }
+
+  /** Set `image_integrity` to the SRI digest of the image content. */
+  imageIntegrityFromBytes(bytes: Uint8Array): this {
+    return this.imageIntegrity(sriSha256(bytes))
+  }
+
+  imageMimetype(value: string | null): this {
+    return this.set('image_mimetype', value)
+  }
+
+  /** Set `background_color` (6-digit hex, a leading `#` is stripped). */
+  backgroundColor(value: string | null): this {
+    return this.set('background_color', value?.replace(/^#/, ''))
+  }
+
+  externalUrl(value: string | null): this {
+    return this.set('external_url', value)
+  }
+
+  externalUrlIntegrity(value: string | null): this {
+    return this.set('external_url_integrity', value)
+  }
+
+  externalUrlMimetype(value: string | null): this {
+    return this.set('external_url_mimetype', value)
+  }
+
+  animationUrl(value: string | null): this {
+    return this.set('animation_url', value)
+  }
+
+  animationUrlIntegrity(value: string | null): this {
+    return this.set('animation_url_integrity', value)
+  }
+
+  animationUrlMimetype(value: string | null): this {
+    return this.set('animation_url_mimetype', value)
+  }
+
+  /** Set `extra_metadata` (base64-encoded when given as bytes). */
+  extraMetadata(value: Uint8Array | string | null): this {
+    return this.set('extra_metadata', value instanceof Uint8Array ? b64Encode(value) : value)
+  }
+
+  localization(value: Arc3Localization | null): this {
+    return this.set('localization', value === null ? null : structuredClone(value))
+  }
+
+  /** Set a single `properties` entry (`null` removes it). */
+  property(key: string, value: unknown): this {
+    const properties = { ...this.fields.properties }
+    if (value === null || value === undefined) delete properties[key]
+    else properties[key] = value
+    return this.set('properties', Object.keys(properties).length > 0 ? properties : null)
+  }
+
+  /** Merge entries into `properties`. */
+  properties(values: Record<string, unknown>): this {
+    for (const [key, value] of Object.entries(values)) this.property(key, value)
+    return this
+  }
+
+  /** Set `properties['arc-20']` for a Smart ASA controlled by `appId` (ARC-20 reversible flag). */
+  arc20(appId: bigint | number | null): this {
+    const key = ARC3_PROPERTIES_KEY_ARC20
+    return this.property(key, appId === null ? null : { 'application-id': applicationId(key, appId) })
+  }
+
+  /** Set `properties['arc-62']` for a circulating supply app `appId` (ARC-62 reversible flag). */
+  arc62(appId: bigint | number | null): this {
+    const key = ARC3_PROPERTIES_KEY_ARC62
+    return this.property(key, appId === null ? null : { 'application-id': applicationId(key, appId) })
+  }
+
+  /** A copy of the ARC-3 JSON object built so far. */
+  toJson(): Arc3Metadata {
+    return structuredClone(this.fields)
+  }
+
+  /** Reversible flags implied by the ARC-20 / ARC-62 properties. */
+  get reversibleFlags(): ReversibleFlags {
+    return arc3ReversibleFlags(this.fields)
+  }
+
+  /**
+   * Build the ARC-3 asset metadata.
+   * @throws {MetadataArc3Error} If the JSON is not valid ARC-3 (every issue is listed).
+   * @throws {InvalidArc3PropertiesError} If ARC-20 / ARC-62 properties are malformed.
+   */
+  build(args: {
+    assetId: bigint | number
+    irreversible?: Omit<ConstructorParameters<typeof IrreversibleFlags>[0], 'arc3'>
+    deprecatedBy?: bigint | number
+  }): AssetMetadata {
+    const json = this.toJson()
+    const issues = validateArc3Metadata(json)
+    if (issues.length > 0) {
+      throw new MetadataArc3Error(`Invalid ARC-3 metadata: ${issues.map((i) => `${i.path} ${i.message}`).join('; ')}`)
+    }
+    validatePresentArc3Properties(json)
+
+    return new AssetMetadata({
+      assetId: args.assetId,
+      body: MetadataBody.fromJson(json, { arc3Compliant: true }),
+      flags: new MetadataFlags({
+        reversible: this.reversibleFlags,
+        irreversible: new IrreversibleFlags({ ...args.irreversible, arc3: true }),
+      }),
+      deprecatedBy: args.deprecatedBy ?? 0n,
+    })
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Source of off-chain ARC-3 JSON files (IPFS gateway, HTTP, or a local stand-in in tests). */
+export interface Arc3JsonFetcher {
+  /** Fetch the raw bytes of the JSON file at `uri`. */
+  fetch(uri: string): Promise<Uint8Array>
+}
+
+/** Fetcher using the global `fetch`; `ipfs://` URIs are resolved through `ipfsGateway`. */
+export const httpArc3Fetcher = (args?: { ipfsGateway?: string }): Arc3JsonFetcher => {
+  const gateway = (args?.ipfsGateway ?? 'https://ipfs.io').replace(/\/+$/, '')
+  return {
+    fetch: async (uri) => {
+      const url = uri.startsWith('ipfs://') ? `${gateway}/ipfs/${uri.slice('ipfs://'.length)}` : uri
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`GET ${url} failed with HTTP ${response.status}`)
+      return new Uint8Array(await response.arrayBuffer())
+    },
+  }
+}
+
+/** URI of the ARC-3 JSON of an ASA: `{id}` is replaced by the asset ID and the `#arc3` fragment removed. */
+export const resolveArc3Uri = (assetUrl: string, assetId: bigint | number): string =>
+  assetUrl
+    .split('{id}')
+    .join(String(assetId))
+    .replace(/#arc3$/, '')
+
+/** Verification of ARC-3 JSON against the ASA metadata hash. */
+export interface Arc3HashCheck {
+  /** `extra_metadata` if the JSON has that field (SHA-512/256 scheme), `sha256` of the file otherwise. */
+  scheme: 'sha256' | 'extra_metadata'
+  /** ASA metadata hash (am). */
+  expected: Uint8Array
+  computed: Uint8Array
+}
+
+export interface Arc3Import {
+  /** Metadata flagged ARC-3 (and ARC-20 / ARC-62 if their properties are present), body as fetched. */
+  metadata: AssetMetadata
+  uri: string
+  json: Arc3Metadata
+  /** Null if the ASA has no `am` and `requireHash` is false. */
+  hashCheck: Arc3HashCheck | null
+  /** ARC-3 format issues of the JSON (they do not prevent the import). */
+  issues: Arc3ValidationIssue[]
+}
+
+/**
+ * Import the off-chain ARC-3 JSON of an existing ASA.
+ *
+ * The JSON is fetched from the ASA URL (or `uri`), verified against the ASA `am` with
+ * `computeArc3MetadataHash`, and returned as `AssetMetadata` ready for `createMetadata`. The
+ * fetched bytes are kept as the metadata body, so the ARC-3 hash of the registry copy still
+ * matches `am`.
+ *
+ * @throws {AsaNotFoundError} If the ASA does not exist.
+ * @throws {MetadataArc3Error} If the ASA has no URL or the JSON is not ARC-3.
+ * @throws {MetadataEncodingError} If the file is not a UTF-8 JSON object.
+ * @throws {Arc3HashMismatchError} If the JSON does not hash to the ASA `am`.
+ * @throws {MetadataHashMismatchError} If the ASA has no `am` and `requireHash` is true (default).
+ * @throws {InvalidArc3PropertiesError} If ARC-20 / ARC-62 properties are malformed.
+ */
+export const importArc3Metadata = async (args: {
+  algod: AlgodClientSubset
+  assetId: bigint | number
+  fetcher: Arc3JsonFetcher
+  /** Overrides the ASA URL. */
+  uri?: string | null
+  requireHash?: boolean
+  irreversible?: Omit<ConstructorParameters<typeof IrreversibleFlags>[0], 'arc3'>
+  deprecatedBy?: bigint | number
+}): Promise<Arc3Import> => {
+  const assetId = BigInt(args.assetId)
+  const asset = await new AlgodBoxReader(args.algod).getAssetInfo(assetId)
+  const assetUrl = args.uri ?? asset.params.url ?? ''
+  if (!assetUrl) throw new MetadataArc3Error(`ASA ${assetId} has no url to fetch ARC-3 JSON from`)
+  const uri = resolveArc3Uri(assetUrl, assetId)
+
+  const raw = await args.fetcher.fetch(uri)
+  const json = decodeMetadataJson(raw)
+
+  let hashCheck: Arc3HashCheck | null = null
+  const am = asset.params.metadataHash ?? new Uint8Array()
+  if (am.some((b) => b !== 0)) {
+    hashCheck = {
+      scheme: 'extra_metadata' in json ? 'extra_metadata' : 'sha256',
+      expected: am,
+      computed: computeArc3MetadataHash(raw),
+    }
+    if (!bytesEqual(hashCheck.computed, am)) throw new Arc3HashMismatchError({ assetId, uri, ...hashCheck })
+  } else if (args.requireHash ?? true) {
+    throw new MetadataHashMismatchError(`ASA ${assetId} has no metadata hash (am) to verify ${uri} against`)
+  }
+
+  validatePresentArc3Properties(json)
+  const metadata = AssetMetadata.fromBytes({
+    assetId,
+    metadataBytes: raw,
+    arc3Compliant: true,
+    flags: new MetadataFlags({
+      reversible: arc3ReversibleFlags(json),
+      irreversible: new IrreversibleFlags({ ...args.irreversible, arc3: true }),
+    }),
+    deprecatedBy: args.deprecatedBy,
+  })
+  return { metadata, uri, json, hashCheck, issues: validateArc3Metadata(json) }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** ARC-3 and ARC-89 hashes of exported metadata. */
+export interface Arc3HashConsistency {
+  /** ARC-3 hash of the exported JSON file (`am` of an ARC-3 ASA). */
+  arc3Hash: Uint8Array
+  /** ARC-89 hash of the registry metadata (`computeMetadataHash` over header and pages). */
+  arc89Hash: Uint8Array
+  /** Metadata hash stored in the registry header. */
+  headerHash: Uint8Array
+  /** The header hash is the ARC-89 hash (no `am` override). */
+  headerIsArc89Hash: boolean
+  /** The header hash is the ARC-3 hash (ARC-3 `am` override at creation). */
+  headerIsArc3Hash: boolean
+  /** Whether `asaAm` equals the ARC-3 hash, or null if no `asaAm` was given. */
+  asaAmIsArc3Hash: boolean | null
+  /** The header hash matches either scheme and, if given, `asaAm` is the ARC-3 hash. */
+  consistent: boolean
+}
+
+export interface Arc3Export {
+  assetId: bigint
+  /** JSON file to publish (e.g. to IPFS). */
+  file: Uint8Array
+  json: Arc3Metadata
+  /** ARC-3 metadata hash of `file`. */
+  am: Uint8Array
+  scheme: 'sha256' | 'extra_metadata'
+  report: Arc3HashConsistency
+}
+
+/**
+ * Export registry metadata flagged ARC-3 as an ARC-3 JSON file and its `am`.
+ *
+ * By default the file is the registry body as is, so its ARC-3 hash is the one an imported ASA
+ * was verified with. `extraMetadata` sets (bytes) or removes (`null`) `extra_metadata`, which
+ * switches the `am` between the SHA-512/256 and the `sha256` scheme; the JSON is then
+ * re-encoded. Pass the ASA `asaAm` to check it against the exported file.
+ *
+ * @throws {MetadataArc3Error} If the metadata is not flagged ARC-3.
+ * @throws {MetadataEncodingError} If the body is not a JSON object.
+ */
+export const exportArc3Metadata = (
+  record: AssetMetadataRecord,
+  args?: {
+    extraMetadata?: Uint8Array | null
+    asaAm?: Uint8Array | null
+    params?: RegistryParameters
+  },
+): Arc3Export => {
+  if (!record.header.isArc3Compliant) {
+    throw new MetadataArc3Error(`Metadata of ASA ${record.assetId} is not flagged ARC-3`)
+  }
+  const json: Arc3Metadata = record.json
+  let file = record.body.rawBytes
+  if (args?.extraMetadata !== undefined) {
+    if (args.extraMetadata === null) delete json.extra_metadata
+    else json.extra_metadata = b64Encode(args.extraMetadata)
+    file = encodeMetadataJson(json)
+  }
+
+  const p = args?.params ?? getDefaultRegistryParams()
+  const arc3Hash = computeArc3MetadataHash(file)
+  const arc89Hash = computeMetadataHash({
+    assetId: record.assetId,
+    metadataIdentifiers: record.header.expectedIdentifiers({ body: record.body, params: p }),
+    reversibleFlags: record.header.flags.reversibleByte,
+    irreversibleFlags: record.header.flags.irreversibleByte,
+    metadata: record.body.rawBytes,
+    pageSize: p.pageSize,
+  })
+  const headerHash = record.header.metadataHash
+  const headerIsArc89Hash = bytesEqual(headerHash, arc89Hash)
+  const headerIsArc3Hash = bytesEqual(headerHash, arc3Hash)
+  const asaAm = args?.asaAm ?? null
+  const asaAmIsArc3Hash = asaAm ? bytesEqual(asaAm, arc3Hash) : null
+
+  return {
+    assetId: record.assetId,
+    file,
+    json,
+    am: arc3Hash,
+    scheme: 'extra_metadata' in json ? 'extra_metadata' : 'sha256',
+    report: {
+      arc3Hash,
+      arc89Hash,
+      headerHash,
+      headerIsArc89Hash,
+      headerIsArc3Hash,
+      asaAmIsArc3Hash,
+      consistent: (headerIsArc89Hash || headerIsArc3Hash) && asaAmIsArc3Hash !== false,
+    },
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * ARC-69 note metadata conversion.
+ *
+ * ARC-69 assets carry their metadata as a JSON object in the note of their latest asset
+ * configuration transaction. `arc69ToAssetMetadata` maps a note into an ARC-89 metadata body and
+ * `assetMetadataToArc69` maps a body back into a note, both driven by `Arc69MappingRules`.
+ */
+
+import { ARC69_STANDARD, MAX_NOTE_SIZE } from './constants'
+import { Arc69NoteError } from './errors'
+import { AssetMetadata, AssetMetadataRecord, MetadataFlags } from './models'
+import { decodeMetadataJson, encodeMetadataJson } from './validation'
+import { isPlainObject } from './internal/json'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** ARC-69 JSON note (unknown fields are kept as is). */
+export interface Arc69Note {
+  standard: typeof ARC69_STANDARD
+  description?: string
+  external_url?: string
+  media_url?: string
+  properties?: Record<string, unknown>
+  mime_type?: string
+  attributes?: unknown[]
+  [key: string]: unknown
+}
+
+/** How ARC-69 note fields map to ARC-89 body fields. */
+export interface Arc69MappingRules {
+  /** Body key of each ARC-69 field (`null` drops the field). */
+  fields: Record<string, string | null>
+  /** Copy fields without a rule under the same key. */
+  keepUnmapped: boolean
+}
+
+/** Maps the media fields to their ARC-3 names and drops `standard`. */
+export const ARC69_DEFAULT_MAPPING: Readonly<Arc69MappingRules> = {
+  fields: {
+    standard: null,
+    description: 'description',
+    external_url: 'external_url',
+    media_url: 'image',
+    mime_type: 'image_mimetype',
+    properties: 'properties',
+    attributes: 'attributes',
+  },
+  keepUnmapped: true,
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Default rules overridden by `rules` (field rules are merged one by one). */
+const mappingRules = (rules?: Partial<Arc69MappingRules>): Arc69MappingRules => ({
+  keepUnmapped: rules?.keepUnmapped ?? ARC69_DEFAULT_MAPPING.keepUnmapped,
+  fields: { ...ARC69_DEFAULT_MAPPING.fields, ...rules?.fields },
+})
+
+/** Whether `rules` has its own rule for `key` (inherited `Object.prototype` keys are not rules). */
+const hasRule = (rules: Arc69MappingRules, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(rules.fields, key)
+
+/**
+ * Parse an ARC-69 note (UTF-8 JSON bytes or text).
+ * @throws {Arc69NoteError} If the note is not a JSON object with `"standard": "arc69"` and well-typed fields.
+ */
+export const parseArc69Note = (note: Uint8Array | string): Arc69Note => {
+  let obj: Record<string, unknown>
+  try {
+    obj = decodeMetadataJson(typeof note === 'string' ? new TextEncoder().encode(note) : note)
+  } catch (e) {
+    throw new Arc69NoteError('ARC-69 note is not a JSON object', { cause: e })
+  }
+
+  if (obj['standard'] !== ARC69_STANDARD) {
+    throw new Arc69NoteError(`ARC-69 note must have "standard": "${ARC69_STANDARD}"`)
+  }
+  for (const key of ['description', 'external_url', 'media_url', 'mime_type']) {
+    if (key in obj && typeof obj[key] !== 'string') throw new Arc69NoteError(`ARC-69 field '${key}' must be a string`)
+  }
+  if ('properties' in obj && !isPlainObject(obj['properties'])) {
+    throw new Arc69NoteError("ARC-69 field 'properties' must be an object")
+  }
+  if ('attributes' in obj && !Array.isArray(obj['attributes'])) {
+    throw new Arc69NoteError("ARC-69 field 'attributes' must be an array")
+  }
+  return obj as Arc69Note
+}
+
+/**
+ * Encode an ARC-69 note as UTF-8 JSON.
+ * @throws {Arc69NoteError} If the note exceeds the transaction note size limit.
+ */
+export const encodeArc69Note = (note: Arc69Note): Uint8Array => {
+  const bytes = encodeMetadataJson(note)
+  if (bytes.length > MAX_NOTE_SIZE) {
+    throw new Arc69NoteError(`ARC-69 note is ${bytes.length} bytes, exceeding the note limit of ${MAX_NOTE_SIZE}`)
+  }
+  return bytes
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Map the JSON of an ARC-69 note into an ARC-89 metadata body.
+ * @throws {Arc69NoteError} If the note cannot be parsed.
+ */
+export const arc69ToJson = (
+  note: Arc69Note | Uint8Array | string,
+  rules?: Partial<Arc69MappingRules>,
+): Record<string, unknown> => {
+  const parsed = typeof note === 'string' || note instanceof Uint8Array ? parseArc69Note(note) : note
+  const r = mappingRules(rules)
+  const json: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(parsed)) {
+    const target = hasRule(r, key) ? r.fields[key] : r.keepUnmapped ? key : null
+    if (target !== null && target !== undefined) json[target] = value
+  }
+  return json
+}
+
+/**
+ * Convert an ARC-69 note into ARC-89 asset metadata (empty flags unless `flags` is given).
+ * @throws {Arc69NoteError} If the note cannot be parsed.
+ */
+export const arc69ToAssetMetadata = (args: {
+  assetId: bigint | number
+  note: Arc69Note | Uint8Array | string
+  rules?: Partial<Arc69MappingRules>
+  flags?: MetadataFlags | null
+  deprecatedBy?: bigint | number
+}): AssetMetadata =>
+  AssetMetadata.fromJson({
+    assetId: args.assetId,
+    jsonObj: arc69ToJson(args.note, args.rules),
+    flags: args.flags,
+    deprecatedBy: args.deprecatedBy,
+  })
+
+/**
+ * Convert ARC-89 metadata back into an ARC-69 note, inverting `rules`.
+ *
+ * Body fields that are the target of a rule get their ARC-69 name; other fields are copied only
+ * if `keepUnmapped`. Use `encodeArc69Note` to get the note bytes.
+ * @throws {MetadataEncodingError} If the body is not a JSON object.
+ */
+export const assetMetadataToArc69 = (
+  metadata: AssetMetadata | AssetMetadataRecord | Record<string, unknown>,
+  rules?: Partial<Arc69MappingRules>,
+): Arc69Note => {
+  const json =
+    metadata instanceof AssetMetadata || metadata instanceof AssetMetadataRecord ? metadata.body.json : metadata
+  const r = mappingRules(rules)
+  const sourceByTarget = new Map<string, string>()
+  for (const [source, target] of Object.entries(r.fields)) {
+    if (target !== null) sourceByTarget.set(target, source)
+  }
+
+  const note: Arc69Note = { standard: ARC69_STANDARD }
+  for (const [key, value] of Object.entries(json)) {
+    const source = sourceByTarget.get(key) ?? (r.keepUnmapped && !hasRule(r, key) ? key : null)
+    if (source !== null && source !== 'standard') note[source] = value
+  }
+  return note
+}
@@ -37,6 +37,9 @@ export const BYTE_MBR = 400 as const // microALGO
 export const ACCOUNT_MBR = 100_000 as const // microALGO
 
 export const APP_CALL_OP_BUDGET = 700 as const
+export const MAX_APP_TXN_REFERENCES = 8 as const // accounts, apps, assets and boxes of one app call
+export const MAX_GROUP_SIZE = 16 as const
+export const MAX_NOTE_SIZE = 1024 as const
 
 // ---------------------------------------------------------------------------
 // ARC-4 constants
@@ -56,6 +59,7 @@ export const BYTES32_SIZE = 32 as const
 export const ARC4_METHOD_SELECTOR_ARG = 0 as const
 export const ARC4_METHOD_SELECTOR_SIZE = 4 as const
 export const ARC4_RETURN_PREFIX_SIZE = 4 as const
+export const ARC4_RETURN_PREFIX = new Uint8Array([0x15, 0x1f, 0x7c, 0x75])
 export const ARC4_DYNAMIC_LENGTH_SIZE = 2 as const
 
 // ---------------------------------------------------------------------------
@@ -70,6 +74,11 @@ export const ARC3_PROPERTIES_KEY_ARC20 = 'arc-20' as const
 export const ARC3_PROPERTIES_KEY_ARC62 = 'arc-62' as const
 export const ARC3_PROPERTIES_KEYS = [ARC3_PROPERTIES_KEY_ARC20, ARC3_PROPERTIES_KEY_ARC62] as const // SDK only
 
+// ---------------------------------------------------------------------------
+// ARC-69 constants
+// ---------------------------------------------------------------------------
+export const ARC69_STANDARD = 'arc69' as const
+
 // ---------------------------------------------------------------------------
 // ARC-90 constants
 // ---------------------------------------------------------------------------
@@ -0,0 +1,244 @@
+/**
+ * Structured diff between two ARC-89 metadata versions.
+ *
+ * Compares JSON content (by key path), reversible / irreversible flags (by name), body size
+ * and the resulting box MBR delta, and ARC-89 pages (by `paginate` and page hash).
+ */
+
+import { MetadataEncodingError } from './errors'
+import { computePageHash, paginate } from './hashing'
+import { bytesEqual } from './internal/bytes'
+import { isPlainObject } from './internal/json'
+import {
+  AssetMetadata,
+  AssetMetadataRecord,
+  IrreversibleFlags,
+  MbrDelta,
+  MetadataFlags,
+  RegistryParameters,
+  ReversibleFlags,
+  getDefaultRegistryParams,
+} from './models'
+import { decodeMetadataJson } from './validation'
+
+// ------------------------------------------------------------------
+// Types
+// ------------------------------------------------------------------
+
+export type ChangeKind = 'added' | 'removed' | 'changed'
+
+/** A JSON value added, removed or changed at a key path. */
+export interface JsonChange {
+  kind: ChangeKind
+  /** Path segments from the root object (object keys and array indexes). */
+  segments: (string | number)[]
+  /** Display path, e.g. `properties.traits[0].value` (keys that are not identifiers are quoted). */
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export type ReversibleFlagName = Exclude<keyof ReversibleFlags, 'byteValue'>
+export type IrreversibleFlagName = Exclude<keyof IrreversibleFlags, 'byteValue'>
+
+/** A named flag whose value differs. */
+export type FlagChange =
+  | { kind: 'reversible'; name: ReversibleFlagName; before: boolean; after: boolean }
+  | { kind: 'irreversible'; name: IrreversibleFlagName; before: boolean; after: boolean }
+
+/** An ARC-89 page added, removed or changed (page hashes are null for missing pages). */
+export interface PageChange {
+  kind: ChangeKind
+  index: number
+  beforeHash: Uint8Array | null
+  afterHash: Uint8Array | null
+}
+
+export interface Change<T> {
+  before: T
+  after: T
+}
+
+export interface MetadataDiff {
+  /** True if body, flags and deprecation are all unchanged. */
+  identical: boolean
+  /** JSON changes, or null if either body is not a valid ARC-89 JSON object. */
+  json: JsonChange[] | null
+  flags: FlagChange[]
+  reversibleFlags: Change<number>
+  irreversibleFlags: Change<number>
+  size: Change<number> & { delta: number }
+  /** Box MBR delta of replacing `a`'s body with `b`'s. */
+  mbrDelta: MbrDelta
+  pages: PageChange[]
+  deprecatedBy: Change<bigint> | null
+}
+
+const REVERSIBLE_FLAG_NAMES: readonly ReversibleFlagName[] = [
+  'arc20',
+  'arc62',
+  'ntt',
+  'reserved3',
+  'reserved4',
+  'reserved5',
+  'reserved6',
+  'reserved7',
+]
+
+const IRREVERSIBLE_FLAG_NAMES: readonly IrreversibleFlagName[] = [
+  'arc3',
+  'arc89Native',
+  'burnable',
+  'reserved3',
+  'reserved4',
+  'reserved5',
+  'reserved6',
+  'immutable',
+]
+
+// ------------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------------
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+/** Format path segments as `a.b[0]["c d"]`. */
+export const formatJsonPath = (segments: readonly (string | number)[]): string =>
+  segments
+    .map((s, i) => {
+      if (typeof s === 'number') return `[${s}]`
+      if (IDENTIFIER.test(s)) return i === 0 ? s : `.${s}`
+      return `[${JSON.stringify(s)}]`
+    })
+    .join('')
+
+const jsonEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b)
+
+const pushChange = (
+  out: JsonChange[],
+  kind: ChangeKind,
+  segments: (string | number)[],
+  before?: unknown,
+  after?: unknown,
+): void => {
+  const change: JsonChange = { kind, segments, path: formatJsonPath(segments) }
+  if (kind !== 'added') change.before = before
+  if (kind !== 'removed') change.after = after
+  out.push(change)
+}
+
+const diffJsonValues = (a: unknown, b: unknown, segments: (string | number)[], out: JsonChange[]): void => {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    for (const key of Object.keys(a)) {
+      if (Object.prototype.hasOwnProperty.call(b, key)) diffJsonValues(a[key], b[key], [...segments, key], out)
+      else pushChange(out, 'removed', [...segments, key], a[key])
+    }
+    for (const key of Object.keys(b)) {
+      if (!Object.prototype.hasOwnProperty.call(a, key)) pushChange(out, 'added', [...segments, key], undefined, b[key])
+    }
+    return
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length)
+    for (let i = 0; i < common; i++) diffJsonValues(a[i], b[i], [...segments, i], out)
+    for (let i = common; i < a.length; i++) pushChange(out, 'removed', [...segments, i], a[i])
+    for (let i = common; i < b.length; i++) pushChange(out, 'added', [...segments, i], undefined, b[i])
+    return
+  }
+
+  if (!jsonEqual(a, b)) pushChange(out, 'changed', segments, a, b)
+}
+
+const tryDecodeJson = (raw: Uint8Array): Record<string, unknown> | null => {
+  try {
+    return decodeMetadataJson(raw)
+  } catch (e) {
+    if (e instanceof MetadataEncodingError) return null
+    throw e
+  }
+}
+
+const diffFlags = (a: MetadataFlags, b: MetadataFlags): FlagChange[] => {
+  const out: FlagChange[] = []
+  for (const name of REVERSIBLE_FLAG_NAMES) {
+    if (a.reversible[name] !== b.reversible[name]) {
+      out.push({ kind: 'reversible', name, before: a.reversible[name], after: b.reversible[name] })
+    }
+  }
+  for (const name of IRREVERSIBLE_FLAG_NAMES) {
+    if (a.irreversible[name] !== b.irreversible[name]) {
+      out.push({ kind: 'irreversible', name, before: a.irreversible[name], after: b.irreversible[name] })
+    }
+  }
+  return out
+}
+
+const diffPages = (a: AssetMetadata, b: AssetMetadata, pageSize: number): PageChange[] => {
+  const hashes = (m: AssetMetadata) =>
+    paginate(m.body.rawBytes, pageSize).map((pageContent, pageIndex) =>
+      computePageHash({ assetId: m.assetId, pageIndex, pageContent }),
+    )
+  const before = hashes(a)
+  const after = hashes(b)
+
+  const out: PageChange[] = []
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const beforeHash = before[index] ?? null
+    const afterHash = after[index] ?? null
+    if (beforeHash && afterHash && bytesEqual(beforeHash, afterHash)) continue
+    const kind: ChangeKind = !beforeHash ? 'added' : !afterHash ? 'removed' : 'changed'
+    out.push({ kind, index, beforeHash, afterHash })
+  }
+  return out
+}
+
+const asMetadata = (m: AssetMetadata | AssetMetadataRecord): AssetMetadata =>
+  m instanceof AssetMetadataRecord ? m.asAssetMetadata() : m
+
+// ------------------------------------------------------------------
+// Public API
+// ------------------------------------------------------------------
+
+/**
+ * Compare two metadata versions (`a` before, `b` after).
+ *
+ * Page hashes are computed with each side's own asset id, so comparing metadata of different
+ * assets reports every page as changed.
+ * @param args - { params } registry parameters for page size and MBR (defaults to the ARC-89 defaults).
+ */
+export const diffMetadata = (
+  a: AssetMetadata | AssetMetadataRecord,
+  b: AssetMetadata | AssetMetadataRecord,
+  args?: { params?: RegistryParameters },
+): MetadataDiff => {
+  const p = args?.params ?? getDefaultRegistryParams()
+  const before = asMetadata(a)
+  const after = asMetadata(b)
+
+  const beforeJson = tryDecodeJson(before.body.rawBytes)
+  const afterJson = tryDecodeJson(after.body.rawBytes)
+  let json: JsonChange[] | null = null
+  if (beforeJson && afterJson) {
+    json = []
+    diffJsonValues(beforeJson, afterJson, [], json)
+  }
+
+  const flags = diffFlags(before.flags, after.flags)
+  const pages = diffPages(before, after, p.pageSize)
+  const deprecatedBy =
+    before.deprecatedBy === after.deprecatedBy ? null : { before: before.deprecatedBy, after: after.deprecatedBy }
+  const bodyEqual = bytesEqual(before.body.rawBytes, after.body.rawBytes)
+
+  return {
+    identical: bodyEqual && flags.length === 0 && deprecatedBy === null,
+    json,
+    flags,
+    reversibleFlags: { before: before.flags.reversibleByte, after: after.flags.reversibleByte },
+    irreversibleFlags: { before: before.flags.irreversibleByte, after: after.flags.irreversibleByte },
+    size: { before: before.size, after: after.size, delta: after.size - before.size },
+    mbrDelta: p.mbrDelta({ oldMetadataSize: before.size, newMetadataSize: after.size }),
+    pages,
+    deprecatedBy,
+  }
+}
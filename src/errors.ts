@@ -77,3 +77,115 @@ export class MetadataHashMismatchError extends AsaMetadataRegistryError {}
  * as an object with an "application-id" key set to a valid app ID (positive uint64).
  */
 export class InvalidArc3PropertiesError extends AsaMetadataRegistryError {}
+
+/** Raised when a log carries a registry ARC-28 event selector but its body cannot be decoded. */
+export class EventDecodeError extends AsaMetadataRegistryError {}
+
+/** Raised by `InMemoryRegistry` when a call fails a registry contract assertion (same message as on-chain). */
+export class RegistryAssertionError extends AsaMetadataRegistryError {}
+
+/** Raised when a registry snapshot cannot be parsed or has an unsupported format or version. */
+export class SnapshotFormatError extends AsaMetadataRegistryError {}
+
+/** Raised when auto-tuning write options does not produce a passing simulation within the attempt limit. */
+export class AutoTuneError extends AsaMetadataRegistryError {}
+
+/** Raised when multisig signatures are missing, invalid or below the multisig threshold. */
+export class MultisigSignatureError extends AsaMetadataRegistryError {}
+
+/** Raised when the SDK is asked to sign for an `externalSigner` account. */
+export class ExternalSignerError extends AsaMetadataRegistryError {}
+
+/** Raised when the return value of a confirmed registry call cannot be decoded. */
+export class ReturnValueDecodeError extends AsaMetadataRegistryError {}
+
+/** Transactions of a write group, by role. */
+export interface GroupSizeBreakdown {
+  /** Registry method the group performs, e.g. `arc89CreateMetadata`. */
+  operation: string
+  /** Registry method calls (one, or one per slice for slice writes). */
+  calls: number
+  extraPayload: number
+  mbrPayment: number
+  extraResources: number
+  total: number
+}
+
+/** Raised when a write group would exceed the protocol limit of transactions per group. */
+export class GroupTooLargeError extends AsaMetadataRegistryError {
+  public readonly breakdown: GroupSizeBreakdown
+  public readonly limit: number
+
+  constructor(breakdown: GroupSizeBreakdown, limit: number, options?: { cause?: unknown }) {
+    const parts =
+      `${breakdown.calls} calls, ${breakdown.extraPayload} extra payload, ` +
+      `${breakdown.mbrPayment} MBR payment, ${breakdown.extraResources} extra resources`
+    super(
+      `${breakdown.operation} group needs ${breakdown.total} transactions (${parts}), exceeding the limit of ${limit}`,
+      options,
+    )
+    this.breakdown = breakdown
+    this.limit = limit
+  }
+}
+
+/** Raised when the sender of a write is not the ASA manager (or the ASA has no manager). */
+export class NotAssetManagerError extends AsaMetadataRegistryError {}
+
+/** Raised when creating metadata for an ASA that already has metadata in the registry. */
+export class MetadataAlreadyExistsError extends AsaMetadataRegistryError {}
+
+/** Raised when modifying metadata flagged as immutable. */
+export class MetadataImmutableError extends AsaMetadataRegistryError {}
+
+/** Raised when setting an irreversible flag that can only be set at creation (ARC-3, ARC-89 native). */
+export class CreationOnlyFlagError extends InvalidFlagIndexError {}
+
+/** Raised when ARC-3 JSON does not hash to the ASA metadata hash (am). */
+export class Arc3HashMismatchError extends MetadataHashMismatchError {
+  public readonly assetId: bigint
+  public readonly uri: string
+  /** Hash scheme used: `sha256` of the file, or the `extra_metadata` SHA-512/256 scheme. */
+  public readonly scheme: 'sha256' | 'extra_metadata'
+  public readonly expected: Uint8Array
+  public readonly computed: Uint8Array
+
+  constructor(args: {
+    assetId: bigint
+    uri: string
+    scheme: 'sha256' | 'extra_metadata'
+    expected: Uint8Array
+    computed: Uint8Array
+  }) {
+    const hex = (b: Uint8Array) => Buffer.from(b).toString('hex')
+    super(
+      `ARC-3 JSON at ${args.uri} does not match the metadata hash of ASA ${args.assetId} ` +
+        `(${args.scheme} scheme): am=${hex(args.expected)}, computed=${hex(args.computed)}`,
+    )
+    this.assetId = args.assetId
+    this.uri = args.uri
+    this.scheme = args.scheme
+    this.expected = args.expected
+    this.computed = args.computed
+  }
+}
+
+/** Raised when an ARC-69 note cannot be parsed, or a body cannot be encoded as an ARC-69 note. */
+export class Arc69NoteError extends AsaMetadataRegistryError {}
+
+/** Raised when signed transactions do not form the exported write group (count, order or group id). */
+export class SignedGroupMismatchError extends AsaMetadataRegistryError {}
+
+/** Raised when an ASA `am` override is requested for metadata not flagged immutable. */
+export class AmOverrideNotImmutableError extends AsaMetadataRegistryError {}
+
+/** Raised when an ASA was created but creating its registry metadata failed (the ASA is left without metadata). */
+export class AsaMetadataCreationError extends AsaMetadataRegistryError {
+  /** Id of the created ASA, to retry the metadata creation. */
+  public readonly assetId: bigint
+
+  constructor(assetId: bigint, options?: { cause?: unknown }) {
+    super(`ASA ${assetId} was created but its metadata creation failed`, options)
+    this.assetId = assetId
+  }
+}
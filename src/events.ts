@@ -0,0 +1,233 @@
+/**
+ * ARC-28 event decoding for the ASA Metadata Registry.
+ *
+ * The registry emits one ARC-28 event per state change:
+ * - `Arc89MetadataUpdated` (create, replace, slice, flags, immutable)
+ * - `Arc89MetadataDeleted` (delete)
+ * - `Arc89MetadataMigrated` (migrate)
+ *
+ * An ARC-28 event log is `selector(4) || arc4_encode(args)`, where the selector is the first
+ * 4 bytes of `SHA-512/256(signature)`. All registry event args are static ARC-4 types, so the
+ * encoded bodies have a fixed length.
+ */
+
+import { EventDecodeError } from './errors'
+import { sha512_256 } from './hashing'
+import { MetadataFlags } from './models'
+import { APP_SPEC } from './generated'
+import { bytesEqual } from './internal/bytes'
+import { readUint64BE } from './internal/models'
+
+// ---------------------------------------------------------------------------
+// Signatures and selectors
+// ---------------------------------------------------------------------------
+
+export const ARC89_METADATA_UPDATED = 'Arc89MetadataUpdated'
+export const ARC89_METADATA_DELETED = 'Arc89MetadataDeleted'
+export const ARC89_METADATA_MIGRATED = 'Arc89MetadataMigrated'
+
+export type Arc89EventName =
+  | typeof ARC89_METADATA_UPDATED
+  | typeof ARC89_METADATA_DELETED
+  | typeof ARC89_METADATA_MIGRATED
+
+/** Build the ARC-28 event signature (e.g. `Name(uint64,byte)`) from the ARC-56 app spec. */
+const eventSignature = (name: Arc89EventName): string => {
+  const event = APP_SPEC.events?.find((e) => e.name === name)
+  if (!event) throw new Error(`Event ${name} not found in the ASA Metadata Registry app spec`)
+  return `${name}(${event.args.map((a) => a.type).join(',')})`
+}
+
+export const ARC89_METADATA_UPDATED_SIGNATURE = eventSignature(ARC89_METADATA_UPDATED)
+export const ARC89_METADATA_DELETED_SIGNATURE = eventSignature(ARC89_METADATA_DELETED)
+export const ARC89_METADATA_MIGRATED_SIGNATURE = eventSignature(ARC89_METADATA_MIGRATED)
+
+/** Compute the 4-byte ARC-28 selector of an event signature. */
+export const eventSelector = (signature: string): Uint8Array =>
+  sha512_256(new TextEncoder().encode(signature)).slice(0, 4)
+
+export const ARC89_METADATA_UPDATED_SELECTOR = eventSelector(ARC89_METADATA_UPDATED_SIGNATURE)
+export const ARC89_METADATA_DELETED_SELECTOR = eventSelector(ARC89_METADATA_DELETED_SIGNATURE)
+export const ARC89_METADATA_MIGRATED_SELECTOR = eventSelector(ARC89_METADATA_MIGRATED_SIGNATURE)
+
+const SELECTOR_SIZE = 4
+// uint64 asset_id, uint64 round, uint64 timestamp, byte rev, byte irr, bool is_short, byte[32] hash
+const UPDATED_BODY_SIZE = 8 + 8 + 8 + 1 + 1 + 1 + 32
+// uint64 asset_id, uint64 round, uint64 timestamp
+const DELETED_BODY_SIZE = 8 + 8 + 8
+// uint64 asset_id, uint64 new_registry_id, uint64 round, uint64 timestamp
+const MIGRATED_BODY_SIZE = 8 + 8 + 8 + 8
+
+// ---------------------------------------------------------------------------
+// Event models
+// ---------------------------------------------------------------------------
+
+/** Emitted when Asset Metadata is created or updated (body, flags or immutability). */
+export class Arc89MetadataUpdatedEvent {
+  public readonly name = ARC89_METADATA_UPDATED
+  public readonly assetId: bigint
+  public readonly round: bigint
+  /** Unix timestamp (seconds) of the latest block. */
+  public readonly timestamp: bigint
+  public readonly flags: MetadataFlags
+  public readonly isShort: boolean
+  /** 32 bytes */
+  public readonly hash: Uint8Array
+
+  constructor(args: {
+    assetId: bigint
+    round: bigint
+    timestamp: bigint
+    flags: MetadataFlags
+    isShort: boolean
+    hash: Uint8Array
+  }) {
+    if (args.hash.length !== 32) throw new RangeError('hash must be 32 bytes')
+    this.assetId = args.assetId
+    this.round = args.round
+    this.timestamp = args.timestamp
+    this.flags = args.flags
+    this.isShort = args.isShort
+    this.hash = args.hash
+  }
+
+  static fromBody(body: Uint8Array): Arc89MetadataUpdatedEvent {
+    checkBodySize(ARC89_METADATA_UPDATED, body, UPDATED_BODY_SIZE)
+    return new Arc89MetadataUpdatedEvent({
+      assetId: readUint64BE(body, 0),
+      round: readUint64BE(body, 8),
+      timestamp: readUint64BE(body, 16),
+      flags: MetadataFlags.fromBytes(body[24]!, body[25]!),
+      // ARC-4 bool: MSB of the byte.
+      isShort: (body[26]! & 0x80) !== 0,
+      hash: body.slice(27, 59),
+    })
+  }
+}
+
+/** Emitted when Asset Metadata is deleted. */
+export class Arc89MetadataDeletedEvent {
+  public readonly name = ARC89_METADATA_DELETED
+  public readonly assetId: bigint
+  public readonly round: bigint
+  /** Unix timestamp (seconds) of the latest block. */
+  public readonly timestamp: bigint
+
+  constructor(args: { assetId: bigint; round: bigint; timestamp: bigint }) {
+    this.assetId = args.assetId
+    this.round = args.round
+    this.timestamp = args.timestamp
+  }
+
+  static fromBody(body: Uint8Array): Arc89MetadataDeletedEvent {
+    checkBodySize(ARC89_METADATA_DELETED, body, DELETED_BODY_SIZE)
+    return new Arc89MetadataDeletedEvent({
+      assetId: readUint64BE(body, 0),
+      round: readUint64BE(body, 8),
+      timestamp: readUint64BE(body, 16),
+    })
+  }
+}
+
+/** Emitted when Asset Metadata is flagged as migrated to a new registry. */
+export class Arc89MetadataMigratedEvent {
+  public readonly name = ARC89_METADATA_MIGRATED
+  public readonly assetId: bigint
+  public readonly newRegistryId: bigint
+  public readonly round: bigint
+  /** Unix timestamp (seconds) of the latest block. */
+  public readonly timestamp: bigint
+
+  constructor(args: { assetId: bigint; newRegistryId: bigint; round: bigint; timestamp: bigint }) {
+    this.assetId = args.assetId
+    this.newRegistryId = args.newRegistryId
+    this.round = args.round
+    this.timestamp = args.timestamp
+  }
+
+  static fromBody(body: Uint8Array): Arc89MetadataMigratedEvent {
+    checkBodySize(ARC89_METADATA_MIGRATED, body, MIGRATED_BODY_SIZE)
+    return new Arc89MetadataMigratedEvent({
+      assetId: readUint64BE(body, 0),
+      newRegistryId: readUint64BE(body, 8),
+      round: readUint64BE(body, 16),
+      timestamp: readUint64BE(body, 24),
+    })
+  }
+}
+
+export type Arc89Event = Arc89MetadataUpdatedEvent | Arc89MetadataDeletedEvent | Arc89MetadataMigratedEvent
+
+const checkBodySize = (name: Arc89EventName, body: Uint8Array, expected: number): void => {
+  if (body.length !== expected) {
+    throw new EventDecodeError(`${name} event body must be ${expected} bytes, got ${body.length}`)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Decoders
+// ---------------------------------------------------------------------------
+
+/** A log entry as returned by algod/indexer: raw bytes, or base64 when coming from raw JSON. */
+export type EventLog = Uint8Array | string
+
+/**
+ * Minimal structural shape of a confirmed transaction carrying logs.
+ *
+ * Matches algod `PendingTransactionResponse` and indexer `Transaction` (inner transactions
+ * are visited recursively, in execution order).
+ */
+export interface TransactionWithLogs {
+  logs?: readonly EventLog[]
+  innerTxns?: readonly TransactionWithLogs[]
+}
+
+/** Minimal structural shape of an algod `SimulateResponse`. */
+export interface SimulateResponseWithLogs {
+  txnGroups: readonly { txnResults: readonly { txnResult: TransactionWithLogs }[] }[]
+}
+
+const toLogBytes = (log: EventLog): Uint8Array =>
+  typeof log === 'string' ? new Uint8Array(Buffer.from(log, 'base64')) : log
+
+/**
+ * Decode a single log entry into a registry event.
+ *
+ * Returns `null` when the log is not a registry event (e.g. an ARC-4 return value).
+ * @throws {EventDecodeError} when the selector matches but the body is malformed.
+ */
+export const decodeEvent = (log: EventLog): Arc89Event | null => {
+  const bytes = toLogBytes(log)
+  if (bytes.length < SELECTOR_SIZE) return null
+  const selector = bytes.subarray(0, SELECTOR_SIZE)
+  const body = bytes.subarray(SELECTOR_SIZE)
+  if (bytesEqual(selector, ARC89_METADATA_UPDATED_SELECTOR)) return Arc89MetadataUpdatedEvent.fromBody(body)
+  if (bytesEqual(selector, ARC89_METADATA_DELETED_SELECTOR)) return Arc89MetadataDeletedEvent.fromBody(body)
+  if (bytesEqual(selector, ARC89_METADATA_MIGRATED_SELECTOR)) return Arc89MetadataMigratedEvent.fromBody(body)
+  return null
+}
+
+/** Decode all registry events from a list of raw logs, skipping non-event logs. */
+export const decodeEventsFromLogs = (logs: readonly EventLog[]): Arc89Event[] => {
+  const out: Arc89Event[] = []
+  for (const log of logs) {
+    const event = decodeEvent(log)
+    if (event !== null) out.push(event)
+  }
+  return out
+}
+
+/** Decode all registry events from a confirmed transaction, including its inner transactions. */
+export const decodeEventsFromTransaction = (txn: TransactionWithLogs): Arc89Event[] => {
+  const out = decodeEventsFromLogs(txn.logs ?? [])
+  for (const inner of txn.innerTxns ?? []) out.push(...decodeEventsFromTransaction(inner))
+  return out
+}
+
+/** Decode all registry events from a list of confirmed transactions (e.g. a group's confirmations). */
+export const decodeEventsFromTransactions = (txns: readonly TransactionWithLogs[]): Arc89Event[] =>
+  txns.flatMap((txn) => decodeEventsFromTransaction(txn))
+
+/** Decode all registry events from a simulate response, across all groups and transactions. */
+export const decodeEventsFromSimulate = (response: SimulateResponseWithLogs): Arc89Event[] =>
+  response.txnGroups.flatMap((group) => decodeEventsFromTransactions(group.txnResults.map((r) => r.txnResult)))
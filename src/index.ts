@@ -1,7 +1,8 @@
 /**
  * ASA Metadata Registry TypeScript SDK
  *
- * The generated AppClient is re-exported from `./generated`.
+ * The generated AppClient is re-exported from `./generated`. The offline registry emulator is
+ * published separately under the `testing` subpath (`./testing`).
  */
 
 // Public leaf modules
@@ -20,6 +21,16 @@ export * from './hashing'
 export * from './validation'
 export * from './models'
 
+// ARC-3 authoring and ARC-69 conversion
+export * from './arc3'
+export * from './arc69'
+
+// Metadata version diff
+export * from './diff'
+
+// ARC-28 events
+export * from './events'
+
 // Box-based reads (Algod)
 export * from './algod'
 export * from './read/box'
@@ -27,11 +38,23 @@ export * from './read/box'
 // AVM-parity reads (simulate)
 export * from './read/avm'
 
+// Indexer-based metadata history
+export * from './read/history'
+
+// Read cache
+export * from './read/cache'
+
+// Offline registry snapshots
+export * from './snapshot'
+
 // Unified Algod-AVM read dispatcher
 export * from './read/reader'
 
 // Writes (AVM) + send helpers
 export * from './write/writer'
+export * from './write/receipt'
+export * from './write/unsigned'
+export * from './write/accounts'
 
 // Facade
 export * from './registry'
@@ -47,14 +70,24 @@ export * as hashing from './hashing'
 
 export * as validation from './validation'
 export * as models from './models'
+export * as arc3 from './arc3'
+export * as arc69 from './arc69'
+export * as diff from './diff'
+export * as events from './events'
 
 export * as algod from './algod'
 export * as boxRead from './read/box'
 
 export * as avmRead from './read/avm'
+export * as historyRead from './read/history'
+export * as cache from './read/cache'
+export * as snapshot from './snapshot'
 export * as reader from './read/reader'
 
 export * as writer from './write/writer'
+export * as receipt from './write/receipt'
+export * as unsigned from './write/unsigned'
+export * as accounts from './write/accounts'
 
 export * as registry from './registry'
 
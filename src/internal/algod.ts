@@ -0,0 +1,29 @@
+import type { AlgodBoxesRequest } from '../algod'
+import { assetIdToBoxName, b64Encode } from '../codec'
+
+/**
+ * Offline `getApplicationBoxes` request over the metadata boxes of `assetIds`.
+ *
+ * Pages like algod: `max(n)` sets the page size (0 = everything) and `query.next` resumes
+ * from the `next-token` of the previous page.
+ */
+export const boxesRequest = (assetIds: readonly bigint[]): AlgodBoxesRequest => {
+  let max = 0
+  const request: AlgodBoxesRequest = {
+    query: {},
+    max: (n) => {
+      max = n
+      return request
+    },
+    doRaw: async () => {
+      const start = request.query.next ? Number(request.query.next) : 0
+      const end = max > 0 ? start + max : assetIds.length
+      const page = {
+        boxes: assetIds.slice(start, end).map((id) => ({ name: b64Encode(assetIdToBoxName(id)) })),
+        'next-token': end < assetIds.length ? String(end) : undefined,
+      }
+      return new TextEncoder().encode(JSON.stringify(page))
+    },
+  }
+  return request
+}
@@ -0,0 +1,41 @@
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight.
+ *
+ * Results are returned in input order. The first rejection is propagated (remaining
+ * in-flight calls are still awaited by their workers, but no new calls are started).
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError('concurrency must be a positive integer')
+  }
+
+  const results = new Array<R>(items.length)
+  let next = 0
+  let failed = false
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const i = next++
+      try {
+        results[i] = await fn(items[i] as T, i)
+      } catch (e) {
+        failed = true
+        throw e
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()))
+  return results
+}
+
+/** Split `items` into consecutive chunks of at most `size` elements. */
+export const chunk = <T>(items: readonly T[], size: number): T[][] => {
+  const out: T[][] = []
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size))
+  return out
+}
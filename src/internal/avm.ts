@@ -1,6 +1,6 @@
 import { toBytes } from './bytes'
 import { asNumber, asUint64BigInt, asUint8 } from './numbers'
-import { AbiValue, MbrDelta, PaginatedMetadata } from '../models'
+import { AbiValue, MbrDelta, MetadataFlags, MetadataHeader, PaginatedMetadata, Pagination } from '../models'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const withArgs = (params: unknown | undefined, args: unknown[]): any => {
@@ -42,3 +42,30 @@ export const parseMbrDelta = (v: unknown): MbrDelta => {
   const o = v as Record<string, unknown>
   return new MbrDelta({ sign: asUint8(o.sign, 'sign'), amount: asNumber(o.amount, 'amount') })
 }
+
+export const parseMetadataHeader = (v: unknown): MetadataHeader => {
+  if (Array.isArray(v)) return MetadataHeader.fromTuple(v as readonly AbiValue[])
+  if (!v || typeof v !== 'object') throw new TypeError('MetadataHeader must be a tuple or struct')
+  const o = v as Record<string, unknown>
+  return new MetadataHeader({
+    identifiers: asUint8(o.identifiers, 'identifiers'),
+    flags: MetadataFlags.fromBytes(
+      asUint8(o.reversibleFlags, 'reversibleFlags'),
+      asUint8(o.irreversibleFlags, 'irreversibleFlags'),
+    ),
+    metadataHash: toBytes(o.hash, 'hash'),
+    lastModifiedRound: asUint64BigInt(o.lastModifiedRound, 'lastModifiedRound'),
+    deprecatedBy: asUint64BigInt(o.deprecatedBy, 'deprecatedBy'),
+  })
+}
+
+export const parsePagination = (v: unknown): Pagination => {
+  if (Array.isArray(v)) return Pagination.fromTuple(v as readonly (number | bigint)[])
+  if (!v || typeof v !== 'object') throw new TypeError('Pagination must be a tuple or struct')
+  const o = v as Record<string, unknown>
+  return new Pagination({
+    metadataSize: asNumber(o.metadataSize, 'metadataSize'),
+    pageSize: asNumber(o.pageSize, 'pageSize'),
+    totalPages: asUint8(o.totalPages, 'totalPages'),
+  })
+}
@@ -0,0 +1,5 @@
+/**
+ * Check that a value is a JSON object (not null or an array).
+ */
+export const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
@@ -1,8 +1,16 @@
 import { microAlgo } from '@algorandfoundation/algokit-utils'
-import type { Address, TransactionSigner } from 'algosdk'
+import type { Address, TransactionSigner, modelsv2 } from 'algosdk'
 
 import { uint64ToBytesBE } from './bytes'
 import { asUint64BigInt } from './numbers'
+import {
+  APP_CALL_OP_BUDGET,
+  HEADER_HASH_OP_BUDGET,
+  MAX_APP_TXN_REFERENCES,
+  MAX_GROUP_SIZE,
+  PAGE_HASH_OP_BUDGET,
+} from '../constants'
+import { GroupTooLargeError, type GroupSizeBreakdown } from '../errors'
 import type { AsaMetadataRegistryClient, AsaMetadataRegistryComposer } from '../generated'
 import { AssetMetadataBox } from '../models'
 
@@ -22,6 +30,128 @@ export const chunksForSlice = (payload: Uint8Array, maxSize: number): Uint8Array
   return out
 }
 
+/** Byte ranges `[start, end)` where `before` and `after` (same length) differ. */
+export const changedRanges = (before: Uint8Array, after: Uint8Array): [number, number][] => {
+  if (before.length !== after.length) throw new RangeError('changedRanges requires equal-length inputs')
+  const out: [number, number][] = []
+  let i = 0
+  while (i < after.length) {
+    if (before[i] === after[i]) {
+      i++
+      continue
+    }
+    const start = i
+    while (i < after.length && before[i] !== after[i]) i++
+    out.push([start, i])
+  }
+  return out
+}
+
+/**
+ * Cover the bytes that differ between `before` and `after` (same length) with slice writes of
+ * at most `maxSize` bytes. Nearby ranges are merged when that does not add calls.
+ */
+export const planSliceWrites = (
+  before: Uint8Array,
+  after: Uint8Array,
+  maxSize: number,
+): { offset: number; payload: Uint8Array }[] => {
+  if (!Number.isInteger(maxSize) || maxSize <= 0) throw new RangeError('maxSize must be > 0')
+  const calls = (len: number) => Math.ceil(len / maxSize)
+
+  const merged: [number, number][] = []
+  for (const [start, end] of changedRanges(before, after)) {
+    const last = merged[merged.length - 1]
+    if (last && calls(end - last[0]) <= calls(last[1] - last[0]) + calls(end - start)) last[1] = end
+    else merged.push([start, end])
+  }
+
+  return merged.flatMap(([start, end]) =>
+    chunksForSlice(after.slice(start, end), maxSize).map((payload, i) => ({ offset: start + i * maxSize, payload })),
+  )
+}
+
+/** Opcode budget of one ARC-89 metadata hash computation (header hash + one hash per page). */
+export const metadataHashOpBudget = (metadataSize: number, pageSize: number): number =>
+  HEADER_HASH_OP_BUDGET + PAGE_HASH_OP_BUDGET * Math.ceil(metadataSize / pageSize)
+
+/**
+ * Estimate the op-up inner transactions the registry issues to compute `hashes` metadata hashes
+ * with the budget pooled from `appCalls` app calls (other opcodes are not accounted for).
+ */
+export const estimateHashOpUps = (args: {
+  appCalls: number
+  hashes: number
+  metadataSize: number
+  pageSize: number
+}): number => {
+  const required = args.hashes * metadataHashOpBudget(args.metadataSize, args.pageSize)
+  const available = args.appCalls * APP_CALL_OP_BUDGET
+  return Math.max(0, Math.ceil((required - available) / APP_CALL_OP_BUDGET))
+}
+
+/**
+ * Op-up inner transactions needed by a group whose `appCalls` app calls consumed `consumed`
+ * opcode budget (as measured by a simulation with extra opcode budget).
+ */
+export const opUpsForBudget = (consumed: number, appCalls: number): number =>
+  Math.max(0, Math.ceil((consumed - appCalls * APP_CALL_OP_BUDGET) / APP_CALL_OP_BUDGET))
+
+const unnamedCount = (u: modelsv2.SimulateUnnamedResourcesAccessed | undefined): number =>
+  u
+    ? (u.accounts?.length ?? 0) +
+      (u.apps?.length ?? 0) +
+      (u.assets?.length ?? 0) +
+      (u.boxes?.length ?? 0) +
+      (u.extraBoxRefs ?? 0)
+    : 0
+
+/**
+ * Extra resources calls needed to reference the unnamed resources reported by a simulation, on
+ * top of the reference slots left free by the group's app calls. App locals and asset holdings
+ * are assumed covered by their account and app / asset references.
+ */
+export const extraResourcesForUnnamed = (group: modelsv2.SimulateTransactionGroupResult): number => {
+  let needed = unnamedCount(group.unnamedResourcesAccessed)
+  let free = 0
+  for (const result of group.txnResults) {
+    needed += unnamedCount(result.unnamedResourcesAccessed)
+    const call = result.txnResult.txn.txn.applicationCall
+    if (call) {
+      const declared = call.accounts.length + call.foreignApps.length + call.foreignAssets.length + call.boxes.length
+      free += Math.max(0, MAX_APP_TXN_REFERENCES - declared)
+    }
+  }
+  return Math.max(0, Math.ceil((needed - free) / MAX_APP_TXN_REFERENCES))
+}
+
+/** Throw `GroupTooLargeError` if a write group with these transactions exceeds `MAX_GROUP_SIZE`. */
+export const checkGroupSize = (args: Omit<GroupSizeBreakdown, 'total'>): void => {
+  const total = args.calls + args.extraPayload + args.mbrPayment + args.extraResources
+  if (total > MAX_GROUP_SIZE) throw new GroupTooLargeError({ ...args, total }, MAX_GROUP_SIZE)
+}
+
+/**
+ * Why a simulated write group failed, as far as write options can fix it:
+ * - `resources`: missing account / app / asset / box reference or box I/O budget (more extra resources)
+ * - `fee`: fee pool too small for the group and its inner transactions (more fee padding)
+ * - `budget`: opcode budget exceeded (more fee padding, to fund op-up inner calls)
+ */
+export type SimulateFailureKind = 'resources' | 'fee' | 'budget'
+
+const RESOURCE_FAILURE =
+  /unavailable (account|app|asset|local state|holding)|invalid box reference|box (read|write) budget|too many (accounts|applications|assets|boxes|foreign)/i
+const FEE_FAILURE = /fee too small|insufficient fee/i
+const BUDGET_FAILURE = /dynamic cost budget exceeded|cost budget exceeded/i
+
+/** Classify a simulate failure message, or return null if it is not fixable by write options. */
+export const classifySimulateFailure = (message: string): SimulateFailureKind | null => {
+  if (RESOURCE_FAILURE.test(message)) return 'resources'
+  if (FEE_FAILURE.test(message)) return 'fee'
+  if (BUDGET_FAILURE.test(message)) return 'budget'
+  return null
+}
+
 /** Append extra payload transactions after the head chunk. */
 export const appendExtraPayload = (
   composer: AsaMetadataRegistryComposer<unknown[]>,
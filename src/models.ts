@@ -418,9 +418,9 @@ export class MetadataHeader {
 
   get serialized(): Uint8Array {
     const out = new Uint8Array(consts.HEADER_SIZE)
-    out[0] = this.identifiers & 0xff
-    out[1] = this.flags.reversibleByte & 0xff
-    out[2] = this.flags.irreversibleByte & 0xff
+    out[consts.IDX_METADATA_IDENTIFIERS] = this.identifiers & 0xff
+    out[consts.IDX_REVERSIBLE_FLAGS] = this.flags.reversibleByte & 0xff
+    out[consts.IDX_IRREVERSIBLE_FLAGS] = this.flags.irreversibleByte & 0xff
     out.set(this.metadataHash, consts.IDX_METADATA_HASH)
     out.set(uint64ToBytesBE(this.lastModifiedRound), consts.IDX_LAST_MODIFIED_ROUND)
     out.set(uint64ToBytesBE(this.deprecatedBy), consts.IDX_DEPRECATED_BY)
@@ -635,6 +635,22 @@ export class AssetMetadataBox {
     return new AssetMetadataBox({ assetId: args.assetId, header, body })
   }
 
+  /**
+   * Serialize into an ARC-89 box value (header || body); the inverse of `parse`.
+   * @throws {BoxParseError} If the body exceeds maxMetadataSize.
+   */
+  serialize(args?: { maxMetadataSize?: number; params?: RegistryParameters }): Uint8Array {
+    const p = args?.params ?? getDefaultRegistryParams()
+    const maxMetadataSize = args?.maxMetadataSize ?? p.maxMetadataSize
+
+    if (this.body.size > maxMetadataSize) throw new BoxParseError('Metadata exceeds maxMetadataSize')
+
+    const out = new Uint8Array(consts.IDX_METADATA + this.body.size)
+    out.set(this.header.serialized, consts.IDX_METADATA_IDENTIFIERS)
+    out.set(this.body.rawBytes, consts.IDX_METADATA)
+    return out
+  }
+
   /**
    * Compute the *effective* metadata hash for this record.
    */
@@ -7,20 +7,25 @@
 import { AsaMetadataRegistryClient, AsaMetadataRegistryComposer } from '../generated'
 import type { SimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
 import { MissingAppClientError } from '../errors'
-import { asNumber, asUint8, asUint64BigInt } from '../internal/numbers'
+import { asNumber, asUint64BigInt } from '../internal/numbers'
 import { toBytes } from '../internal/bytes'
 import {
-  AbiValue,
   MbrDelta,
   MetadataExistence,
-  MetadataFlags,
   MetadataHeader,
   PaginatedMetadata,
   Pagination,
   RegistryParameters,
 } from '../models'
 import * as enums from '../enums'
-import { parseMbrDelta, parsePaginatedMetadata, returnValues, withArgs } from '../internal/avm'
+import {
+  parseMbrDelta,
+  parseMetadataHeader,
+  parsePaginatedMetadata,
+  parsePagination,
+  returnValues,
+  withArgs,
+} from '../internal/avm'
 
 // ------------------------------------------------------------------
 // Decode helpers (simulate return values)
@@ -51,45 +56,61 @@ const parseMetadataExistence = (v: unknown): MetadataExistence => {
   return new MetadataExistence({ asaExists: Boolean(o.asaExists), metadataExists: Boolean(o.metadataExists) })
 }
 
-const parseMetadataHeader = (v: unknown): MetadataHeader => {
-  if (Array.isArray(v)) return MetadataHeader.fromTuple(v as readonly AbiValue[])
-  if (!v || typeof v !== 'object') throw new TypeError('MetadataHeader must be a tuple or struct')
-  const o = v as Record<string, unknown>
-  return new MetadataHeader({
-    identifiers: asUint8(o.identifiers, 'identifiers'),
-    flags: MetadataFlags.fromBytes(
-      asUint8(o.reversibleFlags, 'reversibleFlags'),
-      asUint8(o.irreversibleFlags, 'irreversibleFlags'),
-    ),
-    metadataHash: toBytes(o.hash, 'hash'),
-    lastModifiedRound: asUint64BigInt(o.lastModifiedRound, 'lastModifiedRound'),
-    deprecatedBy: asUint64BigInt(o.deprecatedBy, 'deprecatedBy'),
-  })
+// ------------------------------------------------------------------
+// Read groups
+// ------------------------------------------------------------------
+
+/** ARC-89 getters `AsaMetadataRegistryAvmRead` adds to read groups. */
+export type AvmReadGetter =
+  | 'arc89GetMetadataRegistryParameters'
+  | 'arc89GetMetadataPartialUri'
+  | 'arc89GetMetadataMbrDelta'
+  | 'arc89CheckMetadataExists'
+  | 'arc89IsMetadataImmutable'
+  | 'arc89IsMetadataShort'
+  | 'arc89GetMetadataHeader'
+  | 'arc89GetMetadataPagination'
+  | 'arc89GetMetadata'
+  | 'arc89GetMetadataSlice'
+  | 'arc89GetMetadataHeaderHash'
+  | 'arc89GetMetadataPageHash'
+  | 'arc89GetMetadataHash'
+  | 'arc89GetMetadataStringByKey'
+  | 'arc89GetMetadataUint64ByKey'
+  | 'arc89GetMetadataObjectByKey'
+  | 'arc89GetMetadataB64BytesByKey'
+
+/**
+ * The getters of the generated composer used to build read groups (same call params); each
+ * call adds one method call to the group.
+ */
+export type AvmReadComposer = {
+  [M in AvmReadGetter]: (...params: Parameters<AsaMetadataRegistryComposer<unknown[]>[M]>) => unknown
 }
 
-const parsePagination = (v: unknown): Pagination => {
-  if (Array.isArray(v)) return Pagination.fromTuple(v as readonly (number | bigint)[])
-  if (!v || typeof v !== 'object') throw new TypeError('Pagination must be a tuple or struct')
-  const o = v as Record<string, unknown>
-  return new Pagination({
-    metadataSize: asNumber(o.metadataSize, 'metadataSize'),
-    pageSize: asNumber(o.pageSize, 'pageSize'),
-    totalPages: asUint8(o.totalPages, 'totalPages'),
-  })
+/** A read group: getter calls plus simulate, resolving to results with `.returns` in call order. */
+export interface AvmReadGroup extends AvmReadComposer {
+  simulate(options: SimulateOptions): Promise<unknown>
 }
 
 /**
  * AVM-parity ARC-89 getters via the AlgoKit-generated AppClient.
  *
  * These methods use `simulate()` (not `send()`) to mirror the smart-contract
- * behavior without broadcasting transactions.
+ * behavior without broadcasting transactions. Read groups come from `client.newGroup()`, or
+ * from `newGroup` when given (e.g. an emulator evaluating the calls itself).
  */
 export class AsaMetadataRegistryAvmRead {
-  public readonly client: AsaMetadataRegistryClient
+  public readonly client: AsaMetadataRegistryClient | null
+
+  private readonly newGroup: () => AvmReadGroup
 
-  constructor(args: { client: AsaMetadataRegistryClient }) {
-    if (!args.client) throw new MissingAppClientError('AVM reader requires a generated AsaMetadataRegistryClient')
-    this.client = args.client
+  constructor(args: { client?: AsaMetadataRegistryClient | null; newGroup?: () => AvmReadGroup }) {
+    const client = args.client ?? null
+    if (args.newGroup) this.newGroup = args.newGroup
+    else if (client) this.newGroup = () => client.newGroup()
+    else throw new MissingAppClientError('AVM reader requires a generated AsaMetadataRegistryClient')
+    this.client = client
   }
 
   // ------------------------------------------------------------------
@@ -97,10 +118,10 @@ export class AsaMetadataRegistryAvmRead {
   // ------------------------------------------------------------------
 
   async simulateMany(
-    buildGroup: (composer: AsaMetadataRegistryComposer<unknown[]>) => void,
+    buildGroup: (composer: AvmReadComposer) => void,
     args?: { simulate?: SimulateOptions },
   ): Promise<unknown[]> {
-    const composer = this.client.newGroup()
+    const composer = this.newGroup()
     buildGroup(composer)
     const defaultSimulate: SimulateOptions = { allowUnnamedResources: true, skipSignatures: true }
     const results = await composer.simulate(args?.simulate ?? defaultSimulate)
@@ -108,7 +129,7 @@ export class AsaMetadataRegistryAvmRead {
   }
 
   async simulateOne(
-    buildGroup: (composer: AsaMetadataRegistryComposer<unknown[]>) => void,
+    buildGroup: (composer: AvmReadComposer) => void,
     args?: { simulate?: SimulateOptions },
   ): Promise<unknown> {
     const values = await this.simulateMany(buildGroup, args)
@@ -17,13 +17,11 @@ import {
   RegistryParameters,
 } from '../models'
 import { asBigInt, toBigInt } from '../internal/numbers'
+import { isPlainObject } from '../internal/json'
 import { AsaNotFoundError, BoxNotFoundError } from '../errors'
 
 type JsonObject = Record<string, unknown>
 
-const isPlainObject = (v: unknown): v is Record<string, unknown> =>
-  typeof v === 'object' && v !== null && !Array.isArray(v)
-
 /**
  * Reconstruct ARC-89 getter outputs from box contents (Algod).
  *
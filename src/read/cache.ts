@@ -0,0 +1,290 @@
+/**
+ * Client-side cache for ARC-89 metadata records.
+ *
+ * Records are cached per (registry app id, asset id) and validated by the header's
+ * `lastModifiedRound`: every on-chain change of body, flags or hash bumps that round, so a
+ * cached body is still valid as long as a fresh header read reports the same round.
+ */
+
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { Arc89Event } from '../events'
+import { AssetMetadataBox, AssetMetadataRecord } from '../models'
+import { concatBytes } from '../internal/bytes'
+import { asBigInt } from '../internal/numbers'
+
+// ------------------------------------------------------------------
+// Storage adapters
+// ------------------------------------------------------------------
+
+/** A cached record, in the serialized form stored by adapters. */
+export interface MetadataCacheEntry {
+  appId: bigint
+  assetId: bigint
+  /** Serialized ARC-89 header (box value prefix). */
+  header: Uint8Array
+  /** Raw metadata body bytes. */
+  body: Uint8Array
+  /** Epoch milliseconds of the last store or successful revalidation. */
+  storedAt: number
+  /** Round the record is known to be current at (e.g. the box read round), if known. */
+  round?: bigint
+}
+
+/** Key/value storage backing a `MetadataCache`. */
+export interface MetadataCacheStorage {
+  get(key: string): Promise<MetadataCacheEntry | null>
+  set(key: string, entry: MetadataCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+/**
+ * In-memory storage evicting the least recently used entry beyond `maxEntries`.
+ */
+export class InMemoryLruCacheStorage implements MetadataCacheStorage {
+  public readonly maxEntries: number
+
+  private readonly entries = new Map<string, MetadataCacheEntry>()
+
+  constructor(args?: { maxEntries?: number }) {
+    const maxEntries = args?.maxEntries ?? 1000
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) throw new RangeError('maxEntries must be a positive integer')
+    this.maxEntries = maxEntries
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  async get(key: string): Promise<MetadataCacheEntry | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    // Map iteration order is insertion order: re-insert to mark as most recently used.
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, entry: MetadataCacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+const isNotFound = (e: unknown): boolean => (e as { code?: unknown } | null)?.code === 'ENOENT'
+
+interface FileCacheEntry {
+  appId: string
+  assetId: string
+  header: string
+  body: string
+  storedAt: number
+  round?: string
+}
+
+/**
+ * Filesystem storage: one JSON file per record in `directory` (created on first write).
+ */
+export class FileSystemCacheStorage implements MetadataCacheStorage {
+  public readonly directory: string
+
+  constructor(args: { directory: string }) {
+    this.directory = args.directory
+  }
+
+  private path(key: string): string {
+    return join(this.directory, `${key.replace(/[^0-9A-Za-z_-]/g, '_')}.json`)
+  }
+
+  async get(key: string): Promise<MetadataCacheEntry | null> {
+    let raw: string
+    try {
+      raw = await readFile(this.path(key), 'utf8')
+    } catch (e) {
+      if (isNotFound(e)) return null
+      throw e
+    }
+    const o = JSON.parse(raw) as FileCacheEntry
+    return {
+      appId: BigInt(o.appId),
+      assetId: BigInt(o.assetId),
+      header: new Uint8Array(Buffer.from(o.header, 'base64')),
+      body: new Uint8Array(Buffer.from(o.body, 'base64')),
+      storedAt: o.storedAt,
+      round: o.round === undefined ? undefined : BigInt(o.round),
+    }
+  }
+
+  async set(key: string, entry: MetadataCacheEntry): Promise<void> {
+    const o: FileCacheEntry = {
+      appId: entry.appId.toString(),
+      assetId: entry.assetId.toString(),
+      header: Buffer.from(entry.header).toString('base64'),
+      body: Buffer.from(entry.body).toString('base64'),
+      storedAt: entry.storedAt,
+      round: entry.round?.toString(),
+    }
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.path(key), JSON.stringify(o), 'utf8')
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true })
+  }
+
+  async clear(): Promise<void> {
+    let names: string[]
+    try {
+      names = await readdir(this.directory)
+    } catch (e) {
+      if (isNotFound(e)) return
+      throw e
+    }
+    await Promise.all(names.filter((n) => n.endsWith('.json')).map((n) => rm(join(this.directory, n), { force: true })))
+  }
+}
+
+// ------------------------------------------------------------------
+// Cache
+// ------------------------------------------------------------------
+
+/** Result of a cache lookup: the record and whether it is still within its TTL. */
+export interface MetadataCacheHit {
+  record: AssetMetadataRecord
+  fresh: boolean
+  /** Round the record is known to be current at, or null if unknown. */
+  round: bigint | null
+}
+
+/**
+ * Read cache for ARC-89 metadata records.
+ *
+ * Entries younger than `ttlMs` are served as-is. Older entries are returned as stale and
+ * should be revalidated against a header read (see `AsaMetadataRegistryRead`). `ttlMs: 0`
+ * always revalidates; `ttlMs: Infinity` never does (rely on event invalidation instead).
+ *
+ * Records stored with their read round can also be revalidated from events: once
+ * `invalidateFromEvents` has applied every registry event of the app through a later round
+ * (`throughRound`), a record that was not invalidated is still current and
+ * `revalidateFromEvents` refreshes it without any network read.
+ */
+export class MetadataCache {
+  public readonly storage: MetadataCacheStorage
+  public readonly ttlMs: number
+
+  private readonly now: () => number
+  /** Per registry app, the round through which events have been applied without gaps. */
+  private readonly eventRounds = new Map<bigint, bigint>()
+
+  constructor(args?: { storage?: MetadataCacheStorage; ttlMs?: number; now?: () => number }) {
+    const ttlMs = args?.ttlMs ?? 60_000
+    if (!(ttlMs >= 0)) throw new RangeError('ttlMs must be non-negative')
+    this.storage = args?.storage ?? new InMemoryLruCacheStorage()
+    this.ttlMs = ttlMs
+    this.now = args?.now ?? Date.now
+  }
+
+  static key(appId: bigint | number, assetId: bigint | number): string {
+    return `${asBigInt(appId, 'appId')}-${asBigInt(assetId, 'assetId')}`
+  }
+
+  async lookup(args: { appId: bigint | number; assetId: bigint | number }): Promise<MetadataCacheHit | null> {
+    const entry = await this.storage.get(MetadataCache.key(args.appId, args.assetId))
+    if (!entry) return null
+    const box = AssetMetadataBox.parse({
+      assetId: entry.assetId,
+      value: concatBytes([entry.header, entry.body]),
+      headerSize: entry.header.length,
+      maxMetadataSize: entry.body.length,
+    })
+    const record = new AssetMetadataRecord({
+      appId: entry.appId,
+      assetId: entry.assetId,
+      header: box.header,
+      body: box.body,
+    })
+    return { record, fresh: this.now() - entry.storedAt < this.ttlMs, round: entry.round ?? null }
+  }
+
+  /**
+   * Store (or refresh) a record; resets its TTL.
+   *
+   * `round` is the round the record was read at. It is dropped if events were already applied
+   * past it, since events between the two rounds may have been missed for this record.
+   */
+  async store(record: AssetMetadataRecord, args?: { round?: bigint | number | null }): Promise<void> {
+    let round = args?.round == null ? undefined : asBigInt(args.round, 'round')
+    const synced = this.eventRounds.get(record.appId)
+    if (round !== undefined && synced !== undefined && round < synced) round = undefined
+    await this.storage.set(MetadataCache.key(record.appId, record.assetId), {
+      appId: record.appId,
+      assetId: record.assetId,
+      header: record.header.serialized,
+      body: record.body.rawBytes,
+      storedAt: this.now(),
+      round,
+    })
+  }
+
+  /** Round through which the events of registry `appId` have been applied, or null if none. */
+  eventsRound(appId: bigint | number): bigint | null {
+    return this.eventRounds.get(asBigInt(appId, 'appId')) ?? null
+  }
+
+  /**
+   * Refresh a stale hit if events were applied through (at least) the round it was read at.
+   * Returns false, leaving the entry as is, when the hit has no round or events lag behind it.
+   */
+  async revalidateFromEvents(hit: MetadataCacheHit): Promise<boolean> {
+    const synced = this.eventRounds.get(hit.record.appId)
+    if (hit.round === null || synced === undefined || synced < hit.round) return false
+    await this.store(hit.record, { round: synced })
+    return true
+  }
+
+  async invalidate(args: { appId: bigint | number; assetId: bigint | number }): Promise<void> {
+    await this.storage.delete(MetadataCache.key(args.appId, args.assetId))
+  }
+
+  /**
+   * Drop the records touched by decoded registry events (Updated / Deleted / Migrated)
+   * emitted by registry `appId`. Returns the number of distinct assets invalidated.
+   *
+   * Pass `throughRound` when `events` are all the registry events up to that round, since the
+   * previous `throughRound` (on the first call: since before any cached record was read), so
+   * cached records read at or before it can be revalidated from events.
+   */
+  async invalidateFromEvents(args: {
+    appId: bigint | number
+    events: readonly Arc89Event[]
+    throughRound?: bigint | number
+  }): Promise<number> {
+    const assetIds = new Set(args.events.map((e) => e.assetId))
+    for (const assetId of assetIds) await this.invalidate({ appId: args.appId, assetId })
+    if (args.throughRound !== undefined) {
+      const appId = asBigInt(args.appId, 'appId')
+      const round = asBigInt(args.throughRound, 'throughRound')
+      const synced = this.eventRounds.get(appId)
+      if (synced === undefined || round > synced) this.eventRounds.set(appId, round)
+    }
+    return assetIds.size
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear()
+    this.eventRounds.clear()
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * ARC-89 metadata history reader (Indexer).
+ *
+ * Rebuilds every historical version of an asset's metadata by replaying the
+ * registry application calls found on the Indexer, in confirmation order.
+ *
+ * Notes:
+ * - Only confirmed (i.e. successful) calls are on the Indexer, so calls are replayed
+ *   without re-checking contract preconditions.
+ * - Header flags, hash and round are taken from the `Arc89MetadataUpdated` event logged
+ *   by the call when available (the hash may be the ASA `am` override), otherwise they
+ *   are recomputed from the replayed state.
+ * - Calls that do not change state (e.g. setting a flag to its current value) emit no
+ *   event and do not produce a new version.
+ */
+
+import { ABIMethod, type Indexer, type indexerModels } from 'algosdk'
+import * as bitmasks from '../bitmasks'
+import { Arc89MetadataUpdatedEvent, decodeEventsFromLogs } from '../events'
+import { APP_SPEC } from '../generated'
+import { computeMetadataHash } from '../hashing'
+import {
+  AssetMetadataRecord,
+  MetadataBody,
+  MetadataFlags,
+  MetadataHeader,
+  RegistryParameters,
+  getDefaultRegistryParams,
+} from '../models'
+import { bytesEqual, concatBytes } from '../internal/bytes'
+import { readUint64BE, setBit } from '../internal/models'
+import { asBigInt } from '../internal/numbers'
+
+/**
+ * Minimal Indexer subset required by the history reader.
+ * algosdk.Indexer methods follow the request-builder pattern: searchForTransactions()...do().
+ */
+export type IndexerClientSubset = Pick<Indexer, 'searchForTransactions'>
+
+// ---------------------------------------------------------------------------
+// ABI call decoding (module-private)
+// ---------------------------------------------------------------------------
+
+const METHOD_BY_SELECTOR: ReadonlyMap<string, string> = new Map(
+  APP_SPEC.methods.map((m) => {
+    const method = new ABIMethod({
+      name: m.name,
+      args: m.args.map((a) => ({ type: a.type, name: a.name })),
+      returns: { type: m.returns.type },
+    })
+    return [Buffer.from(method.getSelector()).toString('hex'), m.name]
+  }),
+)
+
+const argUint64 = (args: Uint8Array[], i: number): bigint => readUint64BE(args[i] ?? new Uint8Array(), 0)
+
+const argUint = (args: Uint8Array[], i: number): number => {
+  let n = 0
+  for (const b of args[i] ?? []) n = n * 256 + b
+  return n
+}
+
+const argBool = (args: Uint8Array[], i: number): boolean => ((args[i]?.[0] ?? 0) & 0x80) !== 0
+
+/** ARC-4 `byte[]`: uint16 length prefix followed by the bytes. */
+const argBytes = (args: Uint8Array[], i: number): Uint8Array => (args[i] ?? new Uint8Array()).slice(2)
+
+interface RegistryCall {
+  method: string
+  args: Uint8Array[]
+  assetId: bigint
+  txId: string
+  groupKey: string
+  round: bigint
+  roundTime: number | null
+  logs: Uint8Array[]
+}
+
+/** Flatten a (root) Indexer transaction into registry app calls, in execution order. */
+const collectRegistryCalls = (
+  txn: indexerModels.Transaction,
+  appId: bigint,
+  groupKey: string,
+  root: indexerModels.Transaction,
+  out: RegistryCall[],
+): void => {
+  const appl = txn.applicationTransaction
+  if (appl && appl.applicationId === appId) {
+    const args = appl.applicationArgs ?? []
+    const method = args[0] ? METHOD_BY_SELECTOR.get(Buffer.from(args[0]).toString('hex')) : undefined
+    if (method !== undefined && args.length >= 2) {
+      out.push({
+        method,
+        args,
+        assetId: argUint64(args, 1),
+        txId: txn.id ?? root.id ?? '',
+        groupKey,
+        round: root.confirmedRound ?? 0n,
+        roundTime: root.roundTime ?? null,
+        logs: txn.logs ?? [],
+      })
+    }
+  }
+  const inner = txn.innerTxns ?? []
+  // Inner transactions carry no group id: each parent's inner list is one inner group.
+  for (const i of inner) collectRegistryCalls(i, appId, `${root.id ?? ''}/inner/${txn.id ?? ''}`, root, out)
+}
+
+// ---------------------------------------------------------------------------
+// History models
+// ---------------------------------------------------------------------------
+
+/** One historical version of an asset's metadata, as left by a registry call. */
+export class MetadataHistoryEntry {
+  public readonly round: bigint
+  /** Id of the registry call that produced this version (the head call for multi-txn payloads). */
+  public readonly txId: string
+  /** ARC-4 method name, e.g. `arc89_create_metadata`. */
+  public readonly method: string
+  /** Unix timestamp (seconds) of the block, when known. */
+  public readonly timestamp: number | null
+  /** The metadata record after the call, or `null` if the call deleted the metadata. */
+  public readonly record: AssetMetadataRecord | null
+
+  constructor(args: {
+    round: bigint
+    txId: string
+    method: string
+    timestamp: number | null
+    record: AssetMetadataRecord | null
+  }) {
+    this.round = args.round
+    this.txId = args.txId
+    this.method = args.method
+    this.timestamp = args.timestamp
+    this.record = args.record
+  }
+
+  get isDeleted(): boolean {
+    return this.record === null
+  }
+}
+
+/** Registry calls fetched so far, by asset, complete up to `round`. */
+interface CallCache {
+  round: bigint | null
+  byAsset: Map<bigint, RegistryCall[]>
+}
+
+interface ReplayState {
+  body: Uint8Array
+  reversibleFlags: number
+  irreversibleFlags: number
+  /** Header hash from the last Updated event, if any. */
+  eventHash: Uint8Array | null
+  lastModifiedRound: bigint
+  deprecatedBy: bigint
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+/**
+ * Reconstruct historical ARC-89 metadata versions from the Indexer.
+ *
+ * The Indexer can only filter registry calls by application, so every read scans the calls of
+ * all assets. With `cacheCalls` (the default), calls are kept by asset across reads and later
+ * reads only fetch the rounds after the cached ones; reads with `minRound` bypass the cache.
+ *
+ * Required Indexer methods:
+ * - searchForTransactions (filtered by application id, paged with next token)
+ */
+export class AsaMetadataRegistryHistoryRead {
+  public readonly indexer: IndexerClientSubset
+  public readonly appId: bigint
+  public readonly params: RegistryParameters
+  /** Indexer page size. */
+  public readonly pageLimit: number
+  /** Whether registry calls are cached across history reads. */
+  public readonly cacheCalls: boolean
+  private callCache: CallCache | null = null
+  /** Tail of the call cache syncs, which run one at a time. */
+  private syncing: Promise<unknown> = Promise.resolve()
+
+  constructor(args: {
+    indexer: IndexerClientSubset
+    appId: bigint | number
+    params?: RegistryParameters | null
+    pageLimit?: number
+    cacheCalls?: boolean
+  }) {
+    this.indexer = args.indexer
+    this.appId = asBigInt(args.appId, 'appId')
+    this.params = args.params ?? getDefaultRegistryParams()
+    this.pageLimit = args.pageLimit ?? 1000
+    this.cacheCalls = args.cacheCalls ?? true
+  }
+
+  /** Fetch registry app calls (flattened, in confirmation order) within an optional round range. */
+  private async searchRegistryCalls(args: {
+    minRound?: bigint | number
+    maxRound?: bigint | number
+  }): Promise<{ calls: RegistryCall[]; currentRound: bigint | null }> {
+    const roots: indexerModels.Transaction[] = []
+    let currentRound: bigint | null = null
+    let nextToken: string | undefined
+    do {
+      let query = this.indexer.searchForTransactions().applicationID(this.appId).limit(this.pageLimit)
+      if (args.minRound !== undefined) query = query.minRound(args.minRound)
+      if (args.maxRound !== undefined) query = query.maxRound(args.maxRound)
+      if (nextToken) query = query.nextToken(nextToken)
+      const page = await query.do()
+      currentRound ??= page.currentRound ?? null
+      roots.push(...page.transactions)
+      nextToken = page.transactions.length > 0 ? page.nextToken : undefined
+    } while (nextToken)
+
+    roots.sort((a, b) => {
+      const ra = a.confirmedRound ?? 0n
+      const rb = b.confirmedRound ?? 0n
+      if (ra !== rb) return ra < rb ? -1 : 1
+      return (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0)
+    })
+
+    const calls: RegistryCall[] = []
+    for (const root of roots) {
+      const groupKey = root.group ? Buffer.from(root.group).toString('base64') : (root.id ?? '')
+      collectRegistryCalls(root, this.appId, groupKey, root, calls)
+    }
+    return { calls, currentRound }
+  }
+
+  /**
+   * Bring the call cache up to `maxRound` (or the Indexer's current round), fetching only the
+   * rounds after those already cached. Syncs are queued, so concurrent reads never fetch (and
+   * store) the same calls twice.
+   */
+  private syncCallCache(maxRound?: bigint): Promise<CallCache> {
+    const sync = this.syncing.then(() => this.fetchCallCache(maxRound))
+    this.syncing = sync.catch(() => undefined)
+    return sync
+  }
+
+  private async fetchCallCache(maxRound?: bigint): Promise<CallCache> {
+    const cache = this.callCache ?? { round: null, byAsset: new Map<bigint, RegistryCall[]>() }
+    if (maxRound !== undefined && cache.round !== null && cache.round >= maxRound) return cache
+
+    const minRound = cache.round === null ? undefined : cache.round + 1n
+    const { calls, currentRound } = await this.searchRegistryCalls({ minRound, maxRound })
+    let round = cache.round
+    for (const call of calls) {
+      const list = cache.byAsset.get(call.assetId)
+      if (list) list.push(call)
+      else cache.byAsset.set(call.assetId, [call])
+      if (round === null || call.round > round) round = call.round
+    }
+    // Rounds past the Indexer's current round may still get calls; without a reported current
+    // round, only rounds with calls are known to be complete.
+    const covered = currentRound !== null && maxRound !== undefined && maxRound < currentRound ? maxRound : currentRound
+    if (covered !== null && (round === null || covered > round)) round = covered
+    cache.round = round
+    this.callCache = cache
+    return cache
+  }
+
+  /** Registry calls of one asset within an optional round range, in confirmation order. */
+  private async assetRegistryCalls(args: {
+    assetId: bigint
+    minRound?: bigint | number
+    maxRound?: bigint | number
+  }): Promise<RegistryCall[]> {
+    if (!this.cacheCalls || args.minRound !== undefined) {
+      return (await this.searchRegistryCalls(args)).calls.filter((c) => c.assetId === args.assetId)
+    }
+    const maxRound = args.maxRound === undefined ? undefined : asBigInt(args.maxRound, 'maxRound')
+    const cache = await this.syncCallCache(maxRound)
+    const calls = cache.byAsset.get(args.assetId) ?? []
+    return maxRound === undefined ? calls : calls.filter((c) => c.round <= maxRound)
+  }
+
+  /** Drop the cached registry calls, e.g. after an Indexer re-sync. */
+  clearCache(): void {
+    this.callCache = null
+  }
+
+  private snapshot(assetId: bigint, state: ReplayState): AssetMetadataRecord {
+    const isShort = state.body.length <= this.params.shortMetadataSize
+    const identifiers = setBit({ bits: 0, mask: bitmasks.MASK_ID_SHORT, value: isShort })
+    const metadataHash =
+      state.eventHash ??
+      computeMetadataHash({
+        assetId,
+        metadataIdentifiers: identifiers,
+        reversibleFlags: state.reversibleFlags,
+        irreversibleFlags: state.irreversibleFlags,
+        metadata: state.body,
+        pageSize: this.params.pageSize,
+      })
+    return new AssetMetadataRecord({
+      appId: this.appId,
+      assetId,
+      header: new MetadataHeader({
+        identifiers,
+        flags: MetadataFlags.fromBytes(state.reversibleFlags, state.irreversibleFlags),
+        metadataHash,
+        lastModifiedRound: state.lastModifiedRound,
+        deprecatedBy: state.deprecatedBy,
+      }),
+      body: new MetadataBody(state.body),
+    })
+  }
+
+  /**
+   * Rebuild every version of an asset's metadata, oldest first.
+   *
+   * A version is produced by each state-changing registry call (create, replace, slice,
+   * flags, immutable, migrate, delete). Extra payload calls are folded into their head call.
+   */
+  async getAssetMetadataHistory(args: {
+    assetId: bigint | number
+    minRound?: bigint | number
+    maxRound?: bigint | number
+  }): Promise<MetadataHistoryEntry[]> {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const calls = await this.assetRegistryCalls({ ...args, assetId })
+
+    const entries: MetadataHistoryEntry[] = []
+    let state: ReplayState | null = null
+    // Head call of the current group, to which extra payload calls append.
+    let head: { groupKey: string; entryIndex: number } | null = null
+
+    const push = (call: RegistryCall, record: AssetMetadataRecord | null) => {
+      entries.push(
+        new MetadataHistoryEntry({
+          round: call.round,
+          txId: call.txId,
+          method: call.method,
+          timestamp: call.roundTime,
+          record,
+        }),
+      )
+    }
+
+    for (const call of calls) {
+      const event = decodeEventsFromLogs(call.logs).find(
+        (e): e is Arc89MetadataUpdatedEvent => e instanceof Arc89MetadataUpdatedEvent && e.assetId === assetId,
+      )
+      const { args: a } = call
+
+      if (call.method === 'arc89_extra_payload') {
+        if (state === null || head === null || head.groupKey !== call.groupKey) continue
+        state.body = concatBytes([state.body, argBytes(a, 2)])
+        entries[head.entryIndex] = new MetadataHistoryEntry({
+          ...entries[head.entryIndex]!,
+          record: this.snapshot(assetId, state),
+        })
+        continue
+      }
+      head = null
+
+      if (call.method === 'arc89_create_metadata') {
+        state = {
+          body: argBytes(a, 5),
+          reversibleFlags: argUint(a, 2),
+          irreversibleFlags: argUint(a, 3),
+          eventHash: null,
+          lastModifiedRound: call.round,
+          deprecatedBy: 0n,
+        }
+      } else if (call.method === 'arc89_delete_metadata') {
+        if (state === null) continue
+        state = null
+        push(call, null)
+        continue
+      } else if (state === null) {
+        // Calls before the first create in range cannot be replayed.
+        continue
+      } else if (call.method === 'arc89_replace_metadata' || call.method === 'arc89_replace_metadata_larger') {
+        state.body = argBytes(a, 3)
+      } else if (call.method === 'arc89_replace_metadata_slice') {
+        const offset = argUint(a, 2)
+        const payload = argBytes(a, 3)
+        if (bytesEqual(state.body.slice(offset, offset + payload.length), payload)) continue
+        const body = state.body.slice()
+        body.set(payload, offset)
+        state.body = body
+      } else if (call.method === 'arc89_set_reversible_flag') {
+        const mask = 1 << argUint(a, 2)
+        const flags = setBit({ bits: state.reversibleFlags, mask, value: argBool(a, 3) })
+        if (flags === state.reversibleFlags) continue
+        state.reversibleFlags = flags
+      } else if (call.method === 'arc89_set_irreversible_flag' || call.method === 'arc89_set_immutable') {
+        const index = call.method === 'arc89_set_immutable' ? 7 : argUint(a, 2)
+        const flags = setBit({ bits: state.irreversibleFlags, mask: 1 << index, value: true })
+        if (flags === state.irreversibleFlags) continue
+        state.irreversibleFlags = flags
+      } else if (call.method === 'arc89_migrate_metadata') {
+        state.deprecatedBy = argUint64(a, 2)
+        push(call, this.snapshot(assetId, state))
+        continue
+      } else {
+        continue
+      }
+
+      // Header update (create / replace / slice / flags): the contract recomputes the hash
+      // and sets the last modified round; the emitted event is authoritative when present.
+      state.lastModifiedRound = event?.round ?? call.round
+      state.eventHash = event?.hash ?? null
+      if (event) {
+        state.reversibleFlags = event.flags.reversibleByte
+        state.irreversibleFlags = event.flags.irreversibleByte
+      }
+      push(call, this.snapshot(assetId, state))
+      head = { groupKey: call.groupKey, entryIndex: entries.length - 1 }
+    }
+    return entries
+  }
+
+  /**
+   * Rebuild an asset's metadata as it was at the end of `round`.
+   *
+   * @returns The record, or `null` if no metadata existed for the asset at that round.
+   */
+  async getAssetMetadataAtRound(args: {
+    assetId: bigint | number
+    round: bigint | number
+  }): Promise<AssetMetadataRecord | null> {
+    const entries = await this.getAssetMetadataHistory({ assetId: args.assetId, maxRound: args.round })
+    return entries[entries.length - 1]?.record ?? null
+  }
+}
@@ -7,7 +7,13 @@
 import type { SimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
 import { AlgodBoxReader } from '../algod'
 import { Arc90Uri } from '../codec'
-import { InvalidArc90UriError, MetadataDriftError, MissingAppClientError, RegistryResolutionError } from '../errors'
+import {
+  InvalidArc90UriError,
+  MetadataDriftError,
+  MetadataNotFoundError,
+  MissingAppClientError,
+  RegistryResolutionError,
+} from '../errors'
 import {
   AssetMetadataRecord,
   MbrDelta,
@@ -22,9 +28,12 @@ import {
 import * as enums from '../enums'
 import { asBigInt } from '../internal/numbers'
 import { concatBytes } from '../internal/bytes'
+import { chunk, mapWithConcurrency } from '../internal/async'
 import { AsaMetadataRegistryAvmRead } from './avm'
 import { AsaMetadataRegistryBoxRead } from './box'
-import { parsePaginatedMetadata, withArgs } from '../internal/avm'
+import { MetadataCache } from './cache'
+import { AsaMetadataRegistryHistoryRead } from './history'
+import { parseMetadataHeader, parsePaginatedMetadata, parsePagination, withArgs } from '../internal/avm'
 
 /**
  * Where reads should come from.
@@ -39,29 +48,79 @@ export enum MetadataSource {
   AVM = 'avm',
 }
 
+/** Per-asset outcome of `getAssetMetadataMany`: the record, or the error that prevented reading it. */
+export type AssetMetadataResult =
+  | { readonly assetId: bigint; readonly ok: true; readonly record: AssetMetadataRecord }
+  | { readonly assetId: bigint; readonly ok: false; readonly error: Error }
+
+/** Max getter calls packed into a single simulate group. */
+const AVM_GETTERS_PER_GROUP = 10
+
+const settle = async (assetId: bigint, read: () => Promise<AssetMetadataRecord>): Promise<AssetMetadataResult> => {
+  try {
+    return { assetId, ok: true, record: await read() }
+  } catch (e) {
+    return { assetId, ok: false, error: e instanceof Error ? e : new Error(String(e)) }
+  }
+}
+
+const assembleAvmRecord = (args: {
+  appId: bigint
+  assetId: bigint
+  header: MetadataHeader
+  pagination: Pagination
+  pages: PaginatedMetadata[]
+}): AssetMetadataRecord => {
+  // Header and pages may come from different simulate groups: all must agree on the round.
+  for (const page of args.pages) {
+    if (page.lastModifiedRound !== args.header.lastModifiedRound) {
+      throw new MetadataDriftError('Metadata changed between simulated page reads')
+    }
+  }
+  const bodyRaw = concatBytes(args.pages.map((p) => p.pageContent))
+  const body = new MetadataBody(bodyRaw.slice(0, args.pagination.metadataSize))
+  return new AssetMetadataRecord({ appId: args.appId, assetId: args.assetId, header: args.header, body })
+}
+
 /**
  * Unified read API for ARC-89.
  *
  * Exposes:
  * - `.box` for fast Algod box reconstruction
  * - `.avm` for AVM-parity getters via simulate (if configured)
+ * - `.history` for Indexer-based historical reads (if configured)
  * - dispatcher methods that accept `source=...`
+ *
+ * When a `cache` is configured, latest-state record reads are served from it. Stale entries are
+ * revalidated from events when the cache has applied registry events through the round the box
+ * was read at (see `MetadataCache.invalidateFromEvents`), else with an AVM header read (if
+ * available), before the body is downloaded again.
  */
 export class AsaMetadataRegistryRead {
   public readonly appId: bigint | null
   public readonly algod: AlgodBoxReader | null
   public readonly avmFactory: ((appId: bigint) => AsaMetadataRegistryAvmRead) | null
+  public readonly historyFactory: ((appId: bigint, params: RegistryParameters) => AsaMetadataRegistryHistoryRead) | null
+  public readonly cache: MetadataCache | null
 
   private paramsCache: RegistryParameters | null = null
+  private readonly historyReaders = new Map<bigint, AsaMetadataRegistryHistoryRead>()
 
   constructor(args: {
     appId?: bigint | number | null
     algod?: AlgodBoxReader | null
     avmFactory?: ((appId: bigint) => AsaMetadataRegistryAvmRead) | null
+    historyFactory?: ((appId: bigint, params: RegistryParameters) => AsaMetadataRegistryHistoryRead) | null
+    cache?: MetadataCache | null
+    /** Known registry parameters (e.g. from a snapshot); otherwise read on-chain or defaulted. */
+    params?: RegistryParameters | null
   }) {
     this.appId = args.appId === undefined || args.appId === null ? null : asBigInt(args.appId, 'appId')
     this.algod = args.algod ?? null
     this.avmFactory = args.avmFactory ?? null
+    this.historyFactory = args.historyFactory ?? null
+    this.cache = args.cache ?? null
+    this.paramsCache = args.params ?? null
   }
 
   private requireAppId(appId?: bigint | number | null): bigint {
@@ -111,6 +170,22 @@ export class AsaMetadataRegistryRead {
     return this.avmFactory(resolved)
   }
 
+  /**
+   * History (Indexer) reader bound to the requested registry app id (defaults to configured app id).
+   * One reader is kept per app id, so its call cache is shared by later history reads.
+   */
+  history(args?: { appId?: bigint | number | null }): AsaMetadataRegistryHistoryRead {
+    const resolved = this.requireAppId(args?.appId ?? null)
+    if (!this.historyFactory) throw new Error('History reader requires an indexer client (historyFactory)')
+    let reader = this.historyReaders.get(resolved)
+    // Rebuilt once if the registry params were loaded after the reader was created.
+    if (reader === undefined || (this.paramsCache !== null && reader.params !== this.paramsCache)) {
+      reader = this.historyFactory(resolved, this.paramsCache ?? getDefaultRegistryParams())
+      this.historyReaders.set(resolved, reader)
+    }
+    return reader
+  }
+
   // ------------------------------------------------------------------
   // Locator / discovery
   // ------------------------------------------------------------------
@@ -169,6 +244,10 @@ export class AsaMetadataRegistryRead {
    * Fetch a full ARC-89 metadata record (header + metadata bytes).
    *
    * When `source=AUTO`, the SDK prefers BOX reads (fast) if algod is available; otherwise AVM.
+   *
+   * When `atRound` is provided, the record is rebuilt as it was at the end of that round from
+   * the Indexer history (requires `historyFactory`; `source` is ignored). Deprecation is followed
+   * as it stood at that round.
    */
   async getAssetMetadata(args: {
     assetId?: bigint | number | null
@@ -178,6 +257,7 @@ export class AsaMetadataRegistryRead {
     followDeprecation?: boolean
     maxDeprecationHops?: number
     simulate?: SimulateOptions
+    atRound?: bigint | number | null
   }): Promise<AssetMetadataRecord> {
     const source = args.source ?? MetadataSource.AUTO
     const followDep = args.followDeprecation ?? true
@@ -197,12 +277,15 @@ export class AsaMetadataRegistryRead {
     let record: AssetMetadataRecord | null = null
 
     for (let hop = 0; hop <= maxHops; hop++) {
-      record = await this.getAssetMetadataOnce({
-        appId: currentAppId,
-        assetId: currentAssetId,
-        source,
-        simulate: args.simulate,
-      })
+      record =
+        args.atRound === undefined || args.atRound === null
+          ? await this.getAssetMetadataOnce({
+              appId: currentAppId,
+              assetId: currentAssetId,
+              source,
+              simulate: args.simulate,
+            })
+          : await this.getAssetMetadataAtRound({ appId: currentAppId, assetId: currentAssetId, round: args.atRound })
 
       if (followDep) {
         const deprecatedBy = record.header.deprecatedBy
@@ -220,12 +303,232 @@ export class AsaMetadataRegistryRead {
     return record
   }
 
+  /**
+   * Fetch full ARC-89 metadata records for many assets.
+   *
+   * Asset ids are de-duplicated (first occurrence wins) and one result is returned per asset, in
+   * that order: either the record or the error that prevented reading it, so a single missing
+   * box does not fail the whole batch. At most `concurrency` reads are in flight at once.
+   *
+   * With the AVM source, the header, pagination and page getters of several assets are packed
+   * into shared simulate groups against `appId` (or the configured app id; ASA urls are not
+   * resolved). A group that fails is retried per asset to attribute the error.
+   */
+  async getAssetMetadataMany(args: {
+    assetIds: readonly (bigint | number)[]
+    appId?: bigint | number | null
+    source?: MetadataSource
+    concurrency?: number
+    followDeprecation?: boolean
+    maxDeprecationHops?: number
+    simulate?: SimulateOptions
+  }): Promise<AssetMetadataResult[]> {
+    const source = args.source ?? MetadataSource.AUTO
+    const concurrency = args.concurrency ?? 4
+    const followDep = args.followDeprecation ?? true
+    const maxHops = args.maxDeprecationHops ?? 5
+
+    const assetIds: bigint[] = []
+    const seen = new Set<bigint>()
+    for (const id of args.assetIds) {
+      const assetId = asBigInt(id, 'assetId')
+      if (seen.has(assetId)) continue
+      seen.add(assetId)
+      assetIds.push(assetId)
+    }
+
+    const useAvm =
+      source === MetadataSource.AVM || (source === MetadataSource.AUTO && !this.algod && this.avmFactory !== null)
+
+    if (!useAvm) {
+      return await mapWithConcurrency(assetIds, concurrency, (assetId) =>
+        settle(assetId, () =>
+          this.getAssetMetadata({
+            assetId,
+            appId: args.appId ?? null,
+            source,
+            followDeprecation: followDep,
+            maxDeprecationHops: maxHops,
+            simulate: args.simulate,
+          }),
+        ),
+      )
+    }
+
+    const appId = this.requireAppId(args.appId)
+    const results = await this.getAssetMetadataManyAvm({ appId, assetIds, concurrency, simulate: args.simulate })
+    if (!followDep) return results
+
+    return await mapWithConcurrency(results, concurrency, async (result) => {
+      if (!result.ok || result.record.header.deprecatedBy === 0n || result.record.header.deprecatedBy === appId) {
+        return result
+      }
+      return await settle(result.assetId, async () => {
+        let record = result.record
+        for (let hop = 0; hop < maxHops; hop++) {
+          const deprecatedBy = record.header.deprecatedBy
+          if (deprecatedBy === 0n || deprecatedBy === record.appId) break
+          record = await this.getAssetMetadataOnce({
+            appId: deprecatedBy,
+            assetId: result.assetId,
+            source: MetadataSource.AVM,
+            simulate: args.simulate,
+          })
+        }
+        return record
+      })
+    })
+  }
+
+  private async getAssetMetadataManyAvm(args: {
+    appId: bigint
+    assetIds: bigint[]
+    concurrency: number
+    simulate?: SimulateOptions
+  }): Promise<AssetMetadataResult[]> {
+    const avm = this.avm({ appId: args.appId })
+    const simulate = args.simulate
+    const retry = new Set<bigint>()
+
+    // Cached records: fresh ones are served as-is, stale ones skip page reads if still current.
+    const fresh = new Map<bigint, AssetMetadataRecord>()
+    const stale = new Map<bigint, AssetMetadataRecord>()
+    if (this.cache) {
+      for (const assetId of args.assetIds) {
+        const hit = await this.cache.lookup({ appId: args.appId, assetId })
+        if (hit) (hit.fresh ? fresh : stale).set(assetId, hit.record)
+      }
+    }
+
+    // Header + pagination: two getters per asset.
+    const headers = new Map<bigint, [MetadataHeader, Pagination]>()
+    const pending = args.assetIds.filter((assetId) => !fresh.has(assetId))
+    const headerGroups = chunk(pending, Math.floor(AVM_GETTERS_PER_GROUP / 2))
+    await mapWithConcurrency(headerGroups, args.concurrency, async (ids) => {
+      try {
+        const values = await avm.simulateMany(
+          (c) => {
+            for (const id of ids) {
+              c.arc89GetMetadataHeader(withArgs(undefined, [id]))
+              c.arc89GetMetadataPagination(withArgs(undefined, [id]))
+            }
+          },
+          { simulate },
+        )
+        ids.forEach((id, i) =>
+          headers.set(id, [parseMetadataHeader(values[2 * i]), parsePagination(values[2 * i + 1])]),
+        )
+      } catch {
+        for (const id of ids) retry.add(id)
+      }
+    })
+
+    // Pages of all assets, packed across asset boundaries.
+    const reads: { assetId: bigint; page: number }[] = []
+    for (const [assetId, [header, pagination]] of headers) {
+      if (stale.get(assetId)?.header.lastModifiedRound === header.lastModifiedRound) continue
+      for (let page = 0; page < pagination.totalPages; page++) reads.push({ assetId, page })
+    }
+    const pages = new Map<bigint, PaginatedMetadata[]>()
+    await mapWithConcurrency(chunk(reads, AVM_GETTERS_PER_GROUP), args.concurrency, async (group) => {
+      try {
+        const values = await avm.simulateMany(
+          (c) => {
+            for (const r of group) c.arc89GetMetadata(withArgs(undefined, [r.assetId, r.page]))
+          },
+          { simulate },
+        )
+        group.forEach((r, i) => {
+          const assetPages = pages.get(r.assetId) ?? []
+          assetPages[r.page] = parsePaginatedMetadata(values[i])
+          pages.set(r.assetId, assetPages)
+        })
+      } catch {
+        for (const r of group) retry.add(r.assetId)
+      }
+    })
+
+    return await mapWithConcurrency(args.assetIds, args.concurrency, (assetId) => {
+      const cached = fresh.get(assetId)
+      if (cached) return settle(assetId, async () => cached)
+
+      const read = headers.get(assetId)
+      if (retry.has(assetId) || !read) {
+        return settle(assetId, () =>
+          this.getAssetMetadataOnce({ appId: args.appId, assetId, source: MetadataSource.AVM, simulate }),
+        )
+      }
+      const [header, pagination] = read
+      return settle(assetId, async () => {
+        const previous = stale.get(assetId)
+        const record =
+          previous?.header.lastModifiedRound === header.lastModifiedRound
+            ? new AssetMetadataRecord({ appId: args.appId, assetId, header, body: previous.body })
+            : assembleAvmRecord({ appId: args.appId, assetId, header, pagination, pages: pages.get(assetId) ?? [] })
+        await this.cache?.store(record)
+        return record
+      })
+    })
+  }
+
+  private async getAssetMetadataAtRound(args: {
+    appId: bigint
+    assetId: bigint
+    round: bigint | number
+  }): Promise<AssetMetadataRecord> {
+    await this.getParams()
+    const record = await this.history({ appId: args.appId }).getAssetMetadataAtRound({
+      assetId: args.assetId,
+      round: args.round,
+    })
+    if (record === null) {
+      throw new MetadataNotFoundError(`No metadata for asset ${args.assetId} at round ${args.round}`)
+    }
+    return record
+  }
+
   private async getAssetMetadataOnce(args: {
     appId: bigint
     assetId: bigint
     source: MetadataSource
     simulate?: SimulateOptions
   }): Promise<AssetMetadataRecord> {
+    if (!this.cache) return (await this.fetchAssetMetadata(args)).record
+
+    const cached = await this.cache.lookup({ appId: args.appId, assetId: args.assetId })
+    if (cached?.fresh) return cached.record
+    // No event touched the record since it was read: still current, no network read needed.
+    if (cached && (await this.cache.revalidateFromEvents(cached))) return cached.record
+
+    if (cached && this.avmFactory) {
+      const header = await this.avm({ appId: args.appId }).arc89GetMetadataHeader({
+        assetId: args.assetId,
+        simulate: args.simulate,
+      })
+      // Body, flags and hash changes all bump lastModifiedRound; deprecatedBy comes from the fresh header.
+      if (header.lastModifiedRound === cached.record.header.lastModifiedRound) {
+        const record = new AssetMetadataRecord({
+          appId: args.appId,
+          assetId: args.assetId,
+          header,
+          body: cached.record.body,
+        })
+        await this.cache.store(record)
+        return record
+      }
+    }
+
+    const { record, round } = await this.fetchAssetMetadata(args)
+    await this.cache.store(record, { round })
+    return record
+  }
+
+  private async fetchAssetMetadata(args: {
+    appId: bigint
+    assetId: bigint
+    source: MetadataSource
+    simulate?: SimulateOptions
+  }): Promise<{ record: AssetMetadataRecord; round: bigint | null }> {
     let source = args.source
 
     if (source === MetadataSource.AUTO) {
@@ -237,7 +540,7 @@ export class AsaMetadataRegistryRead {
     if (source === MetadataSource.BOX) {
       if (!this.algod) throw new Error('BOX source selected but algod is not configured')
       const params = await this.getParams()
-      return await this.algod.getAssetMetadataRecord({ appId: args.appId, assetId: args.assetId, params })
+      return await this.algod.getAssetMetadataRecordWithRound({ appId: args.appId, assetId: args.assetId, params })
     }
 
     if (source === MetadataSource.AVM) {
@@ -246,7 +549,7 @@ export class AsaMetadataRegistryRead {
       const pagination = await avm.arc89GetMetadataPagination({ assetId: args.assetId, simulate: args.simulate })
 
       const totalPages = pagination.totalPages
-      const batchSize = 10
+      const batchSize = AVM_GETTERS_PER_GROUP
 
       let lastRound: bigint | null = null
       const chunks: Uint8Array[] = []
@@ -276,7 +579,9 @@ export class AsaMetadataRegistryRead {
       const bodyRaw = concatBytes(chunks)
       const body = new MetadataBody(bodyRaw.slice(0, pagination.metadataSize))
 
-      return new AssetMetadataRecord({ appId: args.appId, assetId: args.assetId, header, body })
+      // Simulated reads do not report their round.
+      const record = new AssetMetadataRecord({ appId: args.appId, assetId: args.assetId, header, body })
+      return { record, round: null }
     }
 
     throw new Error(`Unknown MetadataSource: ${String(source)}`)
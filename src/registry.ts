@@ -8,7 +8,10 @@ import { AlgodBoxReader, AlgodClientSubset } from './algod'
 import { Arc90Uri } from './codec'
 import { MissingAppClientError, RegistryResolutionError } from './errors'
 import { AsaMetadataRegistryAvmRead } from './read/avm'
+import { MetadataCache } from './read/cache'
+import { AsaMetadataRegistryHistoryRead, IndexerClientSubset } from './read/history'
 import { AsaMetadataRegistryRead } from './read/reader'
+import { RegistryParameters } from './models'
 import { AsaMetadataRegistryWrite } from './write/writer'
 import { AsaMetadataRegistryClient } from './generated'
 import { asUint64BigInt } from './internal/numbers'
@@ -50,6 +53,9 @@ export class AsaMetadataRegistry {
   private readonly baseGeneratedClient: AsaMetadataRegistryClient | null
   private readonly generatedClientFactory: ((appId: bigint) => AsaMetadataRegistryClient) | null
   private readonly avmReaderFactory: ((appId: bigint) => AsaMetadataRegistryAvmRead) | null
+  private readonly historyReaderFactory:
+    | ((appId: bigint, params: RegistryParameters) => AsaMetadataRegistryHistoryRead)
+    | null
   private readonly _write: AsaMetadataRegistryWrite | null
 
   public readonly read: AsaMetadataRegistryRead
@@ -58,6 +64,10 @@ export class AsaMetadataRegistry {
     config: RegistryConfig
     algod?: AlgodClientSubset | null
     appClient?: AsaMetadataRegistryClient | null
+    indexer?: IndexerClientSubset | null
+    cache?: MetadataCache | null
+    /** Known registry parameters (e.g. from a snapshot); otherwise read on-chain or defaulted. */
+    params?: RegistryParameters | null
   }) {
     this.config = args.config
 
@@ -72,12 +82,20 @@ export class AsaMetadataRegistry {
       ? (appId: bigint) => new AsaMetadataRegistryAvmRead({ client: this.generatedClientFactory!(appId) })
       : null
 
+    const indexer = args.indexer ?? null
+    this.historyReaderFactory = indexer
+      ? (appId: bigint, params: RegistryParameters) => new AsaMetadataRegistryHistoryRead({ indexer, appId, params })
+      : null
+
     this._write = this.baseGeneratedClient ? new AsaMetadataRegistryWrite({ client: this.baseGeneratedClient }) : null
 
     this.read = new AsaMetadataRegistryRead({
       appId: this.config.appId,
       algod: this.algodReader,
       avmFactory: this.avmReaderFactory,
+      historyFactory: this.historyReaderFactory,
+      cache: args.cache ?? null,
+      params: args.params ?? null,
     })
   }
 
@@ -93,13 +111,23 @@ export class AsaMetadataRegistry {
   // ------------------------------------------------------------------
 
   /**
-   * Create a registry facade using only Algod (box reads).
+   * Create a registry facade using only Algod (box reads), optionally with an Indexer for historical reads
+   * and a read cache.
    */
-  static fromAlgod(args: { algod: AlgodClientSubset; appId: bigint | number | null }): AsaMetadataRegistry {
+  static fromAlgod(args: {
+    algod: AlgodClientSubset
+    appId: bigint | number | null
+    indexer?: IndexerClientSubset | null
+    cache?: MetadataCache | null
+    params?: RegistryParameters | null
+  }): AsaMetadataRegistry {
     return new AsaMetadataRegistry({
       config: new RegistryConfig({ appId: args.appId }),
       algod: args.algod,
       appClient: null,
+      indexer: args.indexer ?? null,
+      cache: args.cache ?? null,
+      params: args.params ?? null,
     })
   }
 
@@ -113,6 +141,8 @@ export class AsaMetadataRegistry {
       algod?: AlgodClientSubset | null
       appId?: bigint | number | null
       netauth?: string | null
+      indexer?: IndexerClientSubset | null
+      cache?: MetadataCache | null
     },
   ): AsaMetadataRegistry {
     // If appId isn't provided, attempt to read it from the generated client's appId.
@@ -125,6 +155,8 @@ export class AsaMetadataRegistry {
       config: new RegistryConfig({ appId: inferredAppId, netauth: args?.netauth ?? null }),
       algod: args?.algod ?? null,
       appClient: appClient,
+      indexer: args?.indexer ?? null,
+      cache: args?.cache ?? null,
     })
   }
 
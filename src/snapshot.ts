@@ -0,0 +1,361 @@
+/**
+ * Registry snapshots: offline copies of ARC-89 metadata boxes.
+ *
+ * A snapshot is a versioned JSONL file. The first line is a header carrying the registry app
+ * id, the network genesis hash, the round the export started at and the registry parameters;
+ * each following line is either a metadata box (base64 value) or the ASA params needed to
+ * resolve ARC-89 URIs from ASA urls. `SnapshotAlgodClient` serves a snapshot through the
+ * `AlgodClientSubset` interface, so `AsaMetadataRegistry.fromAlgod` works without a node;
+ * `SnapshotAlgodClient.registry()` builds that facade with the snapshot's app id and parameters.
+ */
+
+import { readFile, writeFile } from 'fs/promises'
+import algosdk, { Algodv2, modelsv2 } from 'algosdk'
+import { AlgodBoxReader, AlgodBoxesRequest, AlgodClientSubset } from './algod'
+import { assetIdToBoxName, b64Decode, b64Encode, boxNameToAssetId } from './codec'
+import { AsaNotFoundError, BoxNotFoundError, SnapshotFormatError } from './errors'
+import { AsaMetadataRegistry } from './registry'
+import { boxesRequest } from './internal/algod'
+import { mapWithConcurrency } from './internal/async'
+import { asBigInt } from './internal/numbers'
+import { RegistryParameters, getDefaultRegistryParams } from './models'
+
+export const SNAPSHOT_FORMAT = 'arc89-registry-snapshot' as const
+export const SNAPSHOT_VERSION = 1 as const
+
+/** Algod methods needed to export a snapshot. */
+export type SnapshotSourceAlgod = AlgodClientSubset & Pick<Algodv2, 'status' | 'getTransactionParams'>
+
+/** A metadata box as captured in a snapshot. */
+export interface SnapshotBox {
+  assetId: bigint
+  /** Round at which algod served the box. */
+  round: bigint
+  /** Raw box value (header || body). */
+  value: Uint8Array
+}
+
+// ------------------------------------------------------------------
+// JSONL line shapes (uint64 values as decimal strings)
+// ------------------------------------------------------------------
+
+interface HeaderLine {
+  type: 'header'
+  format: typeof SNAPSHOT_FORMAT
+  version: number
+  appId: string
+  genesisHash: string
+  round: string
+  params: Record<string, number>
+}
+
+interface BoxLine {
+  type: 'box'
+  assetId: string
+  round: string
+  value: string
+}
+
+interface AssetLine {
+  type: 'asset'
+  asset: unknown
+}
+
+const PARAM_KEYS = [
+  'keySize',
+  'headerSize',
+  'maxMetadataSize',
+  'shortMetadataSize',
+  'pageSize',
+  'firstPayloadMaxSize',
+  'extraPayloadMaxSize',
+  'replacePayloadMaxSize',
+  'flatMbr',
+  'byteMbr',
+] as const
+
+const paramsFromJson = (obj: Record<string, unknown>): RegistryParameters => {
+  const values = PARAM_KEYS.map((k) => {
+    const v = obj[k]
+    if (typeof v !== 'number' || !Number.isSafeInteger(v)) throw new SnapshotFormatError(`Invalid params.${k}`)
+    return v
+  })
+  return RegistryParameters.fromTuple(values)
+}
+
+const paramsToJson = (params: RegistryParameters): Record<string, number> =>
+  Object.fromEntries(PARAM_KEYS.map((k) => [k, params[k]]))
+
+const uint64 = (value: unknown, field: string): bigint => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) throw new SnapshotFormatError(`Invalid ${field}`)
+  return BigInt(value)
+}
+
+const notFound = (what: string): Error =>
+  new Error(`Network request error. Received status 404 (Not Found): ${what} does not exist in snapshot`)
+
+// ------------------------------------------------------------------
+// Snapshot
+// ------------------------------------------------------------------
+
+/**
+ * In-memory registry snapshot, (de)serialized as JSONL.
+ */
+export class RegistrySnapshot {
+  public readonly version: number
+  public readonly appId: bigint
+  public readonly genesisHash: Uint8Array
+  /** Last round reported by algod when the export started. */
+  public readonly round: bigint
+  public readonly params: RegistryParameters
+  /** Metadata boxes by asset id. */
+  public readonly boxes: ReadonlyMap<bigint, SnapshotBox>
+  /** ASA params by asset id (for ARC-89 URI resolution from ASA urls). */
+  public readonly assets: ReadonlyMap<bigint, modelsv2.Asset>
+
+  constructor(args: {
+    appId: bigint | number
+    genesisHash: Uint8Array
+    round: bigint | number
+    params?: RegistryParameters
+    boxes?: Iterable<SnapshotBox>
+    assets?: Iterable<modelsv2.Asset>
+    version?: number
+  }) {
+    this.version = args.version ?? SNAPSHOT_VERSION
+    this.appId = asBigInt(args.appId, 'appId')
+    this.genesisHash = args.genesisHash
+    this.round = asBigInt(args.round, 'round')
+    this.params = args.params ?? getDefaultRegistryParams()
+    this.boxes = new Map([...(args.boxes ?? [])].map((b) => [b.assetId, b]))
+    this.assets = new Map([...(args.assets ?? [])].map((a) => [a.index, a]))
+  }
+
+  get genesisHashB64(): string {
+    return b64Encode(this.genesisHash)
+  }
+
+  /**
+   * Export metadata boxes of registry `appId` from a live algod.
+   *
+   * Exports all metadata boxes (requires `getApplicationBoxes`) unless `assetIds` is given;
+   * requested assets without metadata are skipped. ASA params are included for every exported
+   * box whose ASA still exists, unless `includeAssets` is false. Reads are not atomic: each box
+   * records the round it was served at.
+   * @param args - { algod, appId, assetIds, params, includeAssets, concurrency }.
+   * @throws {SnapshotFormatError} If algod does not report a genesis hash.
+   */
+  static async export(args: {
+    algod: SnapshotSourceAlgod
+    appId: bigint | number
+    assetIds?: readonly (bigint | number)[] | null
+    params?: RegistryParameters
+    includeAssets?: boolean
+    concurrency?: number
+  }): Promise<RegistrySnapshot> {
+    const appId = asBigInt(args.appId, 'appId')
+    const includeAssets = args.includeAssets ?? true
+    const concurrency = args.concurrency ?? 4
+    const reader = new AlgodBoxReader(args.algod)
+
+    const status = await args.algod.status().do()
+    const txnParams = await args.algod.getTransactionParams().do()
+    if (!txnParams.genesisHash) throw new SnapshotFormatError('algod did not report a genesis hash')
+
+    let assetIds: bigint[]
+    if (args.assetIds) {
+      assetIds = [...new Set(args.assetIds.map((id) => asBigInt(id, 'assetId')))]
+    } else {
+      assetIds = []
+      for await (const id of reader.iterateAssetIds({ appId })) assetIds.push(id)
+    }
+
+    const entries = await mapWithConcurrency(assetIds, concurrency, async (assetId) => {
+      let box: modelsv2.Box
+      try {
+        box = await reader.getBoxValue({ appId, boxName: assetIdToBoxName(assetId) })
+      } catch (e) {
+        if (e instanceof BoxNotFoundError) return null
+        throw e
+      }
+      let asset: modelsv2.Asset | null = null
+      if (includeAssets) {
+        try {
+          asset = await reader.getAssetInfo(assetId)
+        } catch (e) {
+          if (!(e instanceof AsaNotFoundError)) throw e
+        }
+      }
+      return { box: { assetId, round: box.round, value: box.value }, asset }
+    })
+
+    const found = entries.filter((e) => e !== null)
+    return new RegistrySnapshot({
+      appId,
+      genesisHash: txnParams.genesisHash,
+      round: status.lastRound,
+      params: args.params,
+      boxes: found.map((e) => e.box),
+      assets: found.flatMap((e) => (e.asset ? [e.asset] : [])),
+    })
+  }
+
+  /** Serialize as JSONL (header line, then assets and boxes sorted by asset id). */
+  toJsonl(): string {
+    const header: HeaderLine = {
+      type: 'header',
+      format: SNAPSHOT_FORMAT,
+      version: this.version,
+      appId: this.appId.toString(),
+      genesisHash: this.genesisHashB64,
+      round: this.round.toString(),
+      params: paramsToJson(this.params),
+    }
+    const byId = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0)
+    const lines: string[] = [JSON.stringify(header)]
+    for (const id of [...this.assets.keys()].sort(byId)) {
+      const line: AssetLine = { type: 'asset', asset: JSON.parse(algosdk.encodeJSON(this.assets.get(id)!)) }
+      lines.push(JSON.stringify(line))
+    }
+    for (const id of [...this.boxes.keys()].sort(byId)) {
+      const box = this.boxes.get(id)!
+      const line: BoxLine = {
+        type: 'box',
+        assetId: id.toString(),
+        round: box.round.toString(),
+        value: b64Encode(box.value),
+      }
+      lines.push(JSON.stringify(line))
+    }
+    return `${lines.join('\n')}\n`
+  }
+
+  /**
+   * Parse a JSONL snapshot.
+   * @throws {SnapshotFormatError} If the header is missing, the format or version is unsupported, or a line is malformed.
+   */
+  static fromJsonl(text: string): RegistrySnapshot {
+    const lines = text.split('\n').filter((l) => l.trim() !== '')
+    const parseLine = (line: string, n: number): Record<string, unknown> => {
+      try {
+        const obj: unknown = JSON.parse(line)
+        if (obj && typeof obj === 'object' && !Array.isArray(obj)) return obj as Record<string, unknown>
+      } catch (e) {
+        throw new SnapshotFormatError(`Line ${n}: invalid JSON`, { cause: e })
+      }
+      throw new SnapshotFormatError(`Line ${n}: expected a JSON object`)
+    }
+
+    if (lines.length === 0) throw new SnapshotFormatError('Empty snapshot')
+    const header = parseLine(lines[0]!, 1)
+    if (header.type !== 'header' || header.format !== SNAPSHOT_FORMAT) {
+      throw new SnapshotFormatError(`Not an ${SNAPSHOT_FORMAT} file`)
+    }
+    if (header.version !== SNAPSHOT_VERSION) {
+      throw new SnapshotFormatError(`Unsupported snapshot version: ${String(header.version)}`)
+    }
+    if (typeof header.genesisHash !== 'string' || !header.params || typeof header.params !== 'object') {
+      throw new SnapshotFormatError('Invalid snapshot header')
+    }
+
+    const boxes: SnapshotBox[] = []
+    const assets: modelsv2.Asset[] = []
+    lines.slice(1).forEach((line, i) => {
+      const n = i + 2
+      const obj = parseLine(line, n)
+      if (obj.type === 'box') {
+        if (typeof obj.value !== 'string') throw new SnapshotFormatError(`Line ${n}: invalid box value`)
+        boxes.push({
+          assetId: uint64(obj.assetId, `assetId (line ${n})`),
+          round: uint64(obj.round, `round (line ${n})`),
+          value: b64Decode(obj.value),
+        })
+      } else if (obj.type === 'asset') {
+        try {
+          assets.push(algosdk.decodeJSON(JSON.stringify(obj.asset), modelsv2.Asset))
+        } catch (e) {
+          throw new SnapshotFormatError(`Line ${n}: invalid asset`, { cause: e })
+        }
+      } else {
+        throw new SnapshotFormatError(`Line ${n}: unknown line type ${String(obj.type)}`)
+      }
+    })
+
+    return new RegistrySnapshot({
+      version: SNAPSHOT_VERSION,
+      appId: uint64(header.appId, 'appId'),
+      genesisHash: b64Decode(header.genesisHash),
+      round: uint64(header.round, 'round'),
+      params: paramsFromJson(header.params as Record<string, unknown>),
+      boxes,
+      assets,
+    })
+  }
+
+  async saveToFile(path: string): Promise<void> {
+    await writeFile(path, this.toJsonl(), 'utf8')
+  }
+
+  static async loadFromFile(path: string): Promise<RegistrySnapshot> {
+    return RegistrySnapshot.fromJsonl(await readFile(path, 'utf8'))
+  }
+}
+
+// ------------------------------------------------------------------
+// Offline algod
+// ------------------------------------------------------------------
+
+/**
+ * `AlgodClientSubset` served from a `RegistrySnapshot`.
+ *
+ * Supports box reads and enumeration of the snapshot's registry app, and ASA lookups for the
+ * assets captured in the snapshot. Anything else reads as not found (404), as from algod.
+ */
+export class SnapshotAlgodClient implements AlgodClientSubset {
+  public readonly snapshot: RegistrySnapshot
+
+  constructor(snapshot: RegistrySnapshot) {
+    this.snapshot = snapshot
+  }
+
+  getApplicationBoxByName(appId: bigint | number, boxName: Uint8Array) {
+    return {
+      do: async (): Promise<modelsv2.Box> => {
+        const box =
+          asBigInt(appId, 'appId') === this.snapshot.appId
+            ? this.snapshot.boxes.get(boxNameToAssetId(boxName))
+            : undefined
+        if (!box) throw notFound('box')
+        return new modelsv2.Box({ name: boxName, round: box.round, value: box.value })
+      },
+    }
+  }
+
+  getAssetByID(assetId: bigint | number) {
+    return {
+      do: async (): Promise<modelsv2.Asset> => {
+        const asset = this.snapshot.assets.get(asBigInt(assetId, 'assetId'))
+        if (!asset) throw notFound('asset')
+        return asset
+      },
+    }
+  }
+
+  getApplicationBoxes(appId: bigint | number): AlgodBoxesRequest {
+    const ids =
+      asBigInt(appId, 'appId') === this.snapshot.appId
+        ? [...this.snapshot.boxes.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+        : []
+    return boxesRequest(ids)
+  }
+
+  /** This client typed as the algod subset accepted by the SDK readers and facade. */
+  asAlgod(): AlgodClientSubset {
+    return this
+  }
+
+  /** Read-only registry facade over the snapshot, using its app id and registry parameters. */
+  registry(): AsaMetadataRegistry {
+    return AsaMetadataRegistry.fromAlgod({ algod: this, appId: this.snapshot.appId, params: this.snapshot.params })
+  }
+}
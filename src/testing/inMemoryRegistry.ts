@@ -0,0 +1,875 @@
+/**
+ * In-memory ARC-89 registry emulator.
+ *
+ * A pure TypeScript model of the ASA Metadata Registry contract for offline tests. It keeps
+ * ASA params, metadata boxes and the app account MBR in memory, applies the contract
+ * preconditions and header updates (identifiers, hash, last modified round) and emits the
+ * same ARC-28 events. It plugs into `AsaMetadataRegistryRead` both as an algod box source
+ * (`.algod`) and as an AVM reader (`.avm()`); see `.reader()`.
+ *
+ * Not modeled: transactions and groups (payload chunking, extra payload calls), fees and
+ * opcode budgets. Every successful write is a single call confirmed in its own new round.
+ */
+
+import algosdk, { modelsv2 } from 'algosdk'
+import type { SimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { AlgodBoxReader, AlgodClientSubset } from '../algod'
+import * as bitmasks from '../bitmasks'
+import { Arc90Uri, b64Decode, b64UrlDecode, boxNameToAssetId } from '../codec'
+import * as consts from '../constants'
+import * as enums from '../enums'
+import { RegistryAssertionError, RegistryResolutionError } from '../errors'
+import { Arc89Event, Arc89MetadataDeletedEvent, Arc89MetadataMigratedEvent, Arc89MetadataUpdatedEvent } from '../events'
+import * as flags from '../flags'
+import { computeHeaderHash, computeMetadataHash, computePageHash } from '../hashing'
+import { boxesRequest } from '../internal/algod'
+import { bytesEqual } from '../internal/bytes'
+import { asBigInt, asNumber, asUint64BigInt } from '../internal/numbers'
+import {
+  AssetMetadata,
+  AssetMetadataBox,
+  MbrDelta,
+  MbrDeltaSign,
+  MetadataBody,
+  MetadataExistence,
+  MetadataFlags,
+  MetadataHeader,
+  PaginatedMetadata,
+  Pagination,
+  RegistryParameters,
+  getDefaultRegistryParams,
+} from '../models'
+import { AsaMetadataRegistryAvmRead, AvmReadGroup } from '../read/avm'
+import { AsaMetadataRegistryRead } from '../read/reader'
+
+// ------------------------------------------------------------------
+// Contract assertion messages
+// ------------------------------------------------------------------
+
+const ERR = {
+  ASA_NOT_EXIST: 'The specified ASA does not exist',
+  UNAUTHORIZED: 'Unauthorized, must be the Asset Manager',
+  EXCEEDS_MAX_METADATA_SIZE: 'Invalid Metadata size, exceeds maximum allowed size',
+  ASSET_METADATA_EXIST: 'Asset Metadata already exists for the specified ASA',
+  ASSET_METADATA_NOT_EXIST: 'Asset Metadata does not exist for the specified ASA',
+  IMMUTABLE: 'Metadata is immutable',
+  REQUIRES_IMMUTABLE: 'Must be flagged as immutable',
+  ASA_NOT_ARC3_COMPLIANT: 'Invalid ARC-3 parameters (name or URL)',
+  ASA_NOT_ARC89_COMPLIANT: 'Invalid ARC-89 partial URI',
+  ASA_METADATA_HASH_MISMATCH: 'ASA Metadata Hash (am) does not match the computed hash',
+  MBR_DELTA_AMOUNT_INVALID: 'Invalid MBR Delta amount',
+  LARGER_METADATA_SIZE: 'Invalid Metadata size, must be smaller than or equal to the current size',
+  SMALLER_METADATA_SIZE: 'Invalid Metadata size, must be larger than the current size',
+  EXCEEDS_METADATA_SIZE: 'Slice exceeds metadata range',
+  FLAG_IDX_INVALID: 'Invalid flag index',
+  NEW_REGISTRY_ID_INVALID: 'Invalid new ASA Metadata Registry ID, must be different from current',
+  PAGE_IDX_INVALID: 'Invalid page index',
+  EXCEEDS_PAGE_SIZE: 'Payload exceeds page size',
+  EMPTY_METADATA: 'Metadata is empty',
+  METADATA_NOT_SHORT: 'Metadata is not short',
+  B64_ENCODING_INVALID: 'Invalid base64 encoding, must be 0 (URL safe) or 1 (Std)',
+} as const
+
+const fail = (message: string): never => {
+  throw new RegistryAssertionError(message)
+}
+
+// ------------------------------------------------------------------
+// State
+// ------------------------------------------------------------------
+
+/** ASA params the registry depends on. */
+export interface InMemoryAsset {
+  assetId: bigint
+  creator: string
+  /** Asset manager address (zero address when unset). */
+  manager: string
+  name: string
+  url: string
+  /** ASA `am` (32 bytes, all zero when unset). */
+  metadataHash: Uint8Array
+}
+
+/** Inner payment sent by the registry (MBR refunds). */
+export interface InMemoryPayment {
+  round: bigint
+  receiver: string
+  amount: bigint
+}
+
+interface MetadataBoxState {
+  identifiers: number
+  reversibleFlags: number
+  irreversibleFlags: number
+  metadataHash: Uint8Array
+  lastModifiedRound: bigint
+  deprecatedBy: bigint
+  body: Uint8Array
+}
+
+const ZERO_HASH = new Uint8Array(consts.METADATA_HASH_SIZE)
+
+const endsWith = (s: string, suffix: Uint8Array): boolean => s.endsWith(new TextDecoder().decode(suffix))
+
+const notFound = (what: string): Error =>
+  new Error(`Network request error. Received status 404 (Not Found): ${what} does not exist`)
+
+/**
+ * Pure TypeScript emulator of the ARC-89 ASA Metadata Registry contract.
+ */
+export class InMemoryRegistry {
+  public readonly appId: bigint
+  public readonly appAddress: string
+  public readonly params: RegistryParameters
+  /** ARC-90 netauth used for the ARC-89 partial URI (null for MainNet). */
+  public readonly netauth: string | null
+
+  /** Last confirmed round; each successful write is confirmed in `round + 1`. */
+  public round: bigint
+  /** Latest block timestamp (seconds); advances by `roundTime` with each write. */
+  public timestamp: bigint
+  public readonly roundTime: bigint
+  /** microALGO held by the registry account. */
+  public balance: bigint
+
+  /** Events emitted by all successful writes, in order. */
+  public readonly events: Arc89Event[] = []
+  /** Inner payments (MBR refunds) sent by all successful writes, in order. */
+  public readonly payments: InMemoryPayment[] = []
+
+  private readonly assets = new Map<bigint, InMemoryAsset>()
+  private readonly boxes = new Map<bigint, MetadataBoxState>()
+
+  constructor(args?: {
+    appId?: bigint | number
+    params?: RegistryParameters
+    netauth?: string | null
+    round?: bigint | number
+    timestamp?: bigint | number
+    roundTime?: bigint | number
+  }) {
+    this.appId = asBigInt(args?.appId ?? 1000, 'appId')
+    this.appAddress = algosdk.getApplicationAddress(this.appId).toString()
+    this.params = args?.params ?? getDefaultRegistryParams()
+    this.netauth = args?.netauth ?? null
+    this.round = asBigInt(args?.round ?? 1, 'round')
+    this.timestamp = asBigInt(args?.timestamp ?? 1_700_000_000, 'timestamp')
+    this.roundTime = asBigInt(args?.roundTime ?? 3, 'roundTime')
+    this.balance = BigInt(consts.ACCOUNT_MBR)
+  }
+
+  /** microALGO minimum balance of the registry account (account MBR + metadata boxes). */
+  get minBalance(): bigint {
+    let total = BigInt(consts.ACCOUNT_MBR)
+    for (const box of this.boxes.values()) total += BigInt(this.params.mbrForBox(box.body.length))
+    return total
+  }
+
+  /** ARC-89 partial URI of this registry (expected prefix of ARC-89 native ASA urls). */
+  get partialUri(): string {
+    return new Arc90Uri({ netauth: this.netauth, appId: this.appId, boxName: null }).toUri()
+  }
+
+  // ------------------------------------------------------------------
+  // ASA management (stands in for asset config transactions)
+  // ------------------------------------------------------------------
+
+  createAsset(args: {
+    assetId: bigint | number
+    manager: string
+    creator?: string
+    name?: string
+    url?: string
+    metadataHash?: Uint8Array
+  }): InMemoryAsset {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    if (this.assets.has(assetId)) throw new Error(`ASA ${assetId} already exists`)
+    const metadataHash = args.metadataHash ?? ZERO_HASH
+    if (metadataHash.length !== consts.METADATA_HASH_SIZE) throw new RangeError('metadataHash must be 32 bytes')
+    const asset: InMemoryAsset = {
+      assetId,
+      creator: args.creator ?? args.manager,
+      manager: args.manager,
+      name: args.name ?? '',
+      url: args.url ?? '',
+      metadataHash: metadataHash.slice(),
+    }
+    this.assets.set(assetId, asset)
+    return asset
+  }
+
+  /** Change the ASA manager (use the zero address to clear it). */
+  setAssetManager(args: { assetId: bigint | number; manager: string }): void {
+    this.requireAsset(asBigInt(args.assetId, 'assetId')).manager = args.manager
+  }
+
+  destroyAsset(args: { assetId: bigint | number }): void {
+    this.assets.delete(asBigInt(args.assetId, 'assetId'))
+  }
+
+  getAsset(args: { assetId: bigint | number }): InMemoryAsset | null {
+    return this.assets.get(asBigInt(args.assetId, 'assetId')) ?? null
+  }
+
+  // ------------------------------------------------------------------
+  // Internal helpers
+  // ------------------------------------------------------------------
+
+  private requireAsset(assetId: bigint): InMemoryAsset {
+    const asset = this.assets.get(assetId)
+    if (!asset) throw new Error(`ASA ${assetId} does not exist`)
+    return asset
+  }
+
+  private checkBasePreconditions(sender: string, assetId: bigint, metadataSize: number): InMemoryAsset {
+    const asset = this.assets.get(assetId) ?? fail(ERR.ASA_NOT_EXIST)
+    if (sender !== asset.manager) fail(ERR.UNAUTHORIZED)
+    if (metadataSize > this.params.maxMetadataSize) fail(ERR.EXCEEDS_MAX_METADATA_SIZE)
+    return asset
+  }
+
+  private checkUpdatePreconditions(
+    sender: string,
+    assetId: bigint,
+    metadataSize: (box: MetadataBoxState) => number,
+  ): [InMemoryAsset, MetadataBoxState] {
+    const box = this.boxes.get(assetId)
+    const asset = this.checkBasePreconditions(sender, assetId, box ? metadataSize(box) : 0)
+    if (!box) return fail(ERR.ASSET_METADATA_NOT_EXIST)
+    if (isImmutable(box)) fail(ERR.IMMUTABLE)
+    return [asset, box]
+  }
+
+  private checkExistencePreconditions(assetId: bigint): [InMemoryAsset, MetadataBoxState] {
+    const asset = this.assets.get(assetId) ?? fail(ERR.ASA_NOT_EXIST)
+    const box = this.boxes.get(assetId) ?? fail(ERR.ASSET_METADATA_NOT_EXIST)
+    return [asset, box]
+  }
+
+  private checkSetFlagPreconditions(sender: string, assetId: bigint): MetadataBoxState {
+    const [asset, box] = this.checkExistencePreconditions(assetId)
+    if (sender !== asset.manager) fail(ERR.UNAUTHORIZED)
+    if (isImmutable(box)) fail(ERR.IMMUTABLE)
+    return box
+  }
+
+  private computeMetadataHash(assetId: bigint, box: MetadataBoxState): Uint8Array {
+    return computeMetadataHash({
+      assetId,
+      metadataIdentifiers: box.identifiers,
+      reversibleFlags: box.reversibleFlags,
+      irreversibleFlags: box.irreversibleFlags,
+      metadata: box.body,
+      pageSize: this.params.pageSize,
+    })
+  }
+
+  /** Start a write: the returned round is committed by `commit` only if the write succeeds. */
+  private nextRound(): bigint {
+    return this.round + 1n
+  }
+
+  private commit(round: bigint): void {
+    this.round = round
+    this.timestamp += this.roundTime
+  }
+
+  private emitUpdated(assetId: bigint, box: MetadataBoxState): void {
+    this.events.push(
+      new Arc89MetadataUpdatedEvent({
+        assetId,
+        round: this.round,
+        timestamp: this.timestamp,
+        flags: MetadataFlags.fromBytes(box.reversibleFlags, box.irreversibleFlags),
+        isShort: isShort(box),
+        hash: box.metadataHash,
+      }),
+    )
+  }
+
+  /** Mirror of `_update_header_excluding_flags_and_emit` (flags must already be set). */
+  private updateHeaderAndEmit(assetId: bigint, box: MetadataBoxState, round: bigint): void {
+    identify(box, this.params)
+    box.metadataHash = this.computeMetadataHash(assetId, box)
+    box.lastModifiedRound = round
+    this.commit(round)
+    this.emitUpdated(assetId, box)
+  }
+
+  private refund(receiver: string, amount: number): void {
+    if (amount === 0) return
+    this.balance -= BigInt(amount)
+    this.payments.push({ round: this.round, receiver, amount: BigInt(amount) })
+  }
+
+  // ------------------------------------------------------------------
+  // ARC-89 write methods
+  // ------------------------------------------------------------------
+
+  /**
+   * Emulate `arc89_create_metadata` (with any extra payload calls of the group).
+   *
+   * `mbrPayment` defaults to the exact MBR of the new box.
+   */
+  createMetadata(args: { sender: string; metadata: AssetMetadata; mbrPayment?: bigint | number }): MbrDelta {
+    const assetId = args.metadata.assetId
+    const body = args.metadata.body.rawBytes
+    const asset = this.checkBasePreconditions(args.sender, assetId, body.length)
+    if (this.boxes.has(assetId)) fail(ERR.ASSET_METADATA_EXIST)
+
+    const box: MetadataBoxState = {
+      identifiers: 0,
+      reversibleFlags: args.metadata.flags.reversibleByte,
+      irreversibleFlags: args.metadata.flags.irreversibleByte,
+      metadataHash: ZERO_HASH,
+      lastModifiedRound: 0n,
+      deprecatedBy: 0n,
+      body: body.slice(),
+    }
+    identify(box, this.params)
+
+    const hasAm = !bytesEqual(asset.metadataHash, ZERO_HASH)
+    if (hasAm && !isImmutable(box)) fail(ERR.REQUIRES_IMMUTABLE)
+    box.metadataHash = hasAm ? asset.metadataHash.slice() : this.computeMetadataHash(assetId, box)
+
+    if (box.irreversibleFlags & bitmasks.MASK_IRR_ARC3) {
+      const compliant =
+        asset.name === new TextDecoder().decode(consts.ARC3_NAME) ||
+        endsWith(asset.name, consts.ARC3_NAME_SUFFIX) ||
+        endsWith(asset.url, consts.ARC3_URL_SUFFIX)
+      if (!compliant) fail(ERR.ASA_NOT_ARC3_COMPLIANT)
+    }
+    if (box.irreversibleFlags & bitmasks.MASK_IRR_ARC89 && !asset.url.startsWith(this.partialUri)) {
+      fail(ERR.ASA_NOT_ARC89_COMPLIANT)
+    }
+    if (
+      hasAm &&
+      !(box.irreversibleFlags & bitmasks.MASK_IRR_ARC3) &&
+      !bytesEqual(asset.metadataHash, this.computeMetadataHash(assetId, box))
+    ) {
+      fail(ERR.ASA_METADATA_HASH_MISMATCH)
+    }
+
+    const mbr = this.params.mbrForBox(body.length)
+    const payment = asBigInt(args.mbrPayment ?? mbr, 'mbrPayment')
+    if (payment < BigInt(mbr)) fail(ERR.MBR_DELTA_AMOUNT_INVALID)
+
+    const round = this.nextRound()
+    box.lastModifiedRound = round
+    this.boxes.set(assetId, box)
+    this.balance += payment
+    this.commit(round)
+    this.emitUpdated(assetId, box)
+    return new MbrDelta({ sign: MbrDeltaSign.POS, amount: mbr })
+  }
+
+  /** Emulate `arc89_replace_metadata` (new size <= current size); the MBR excess is refunded to the manager. */
+  replaceMetadata(args: { sender: string; metadata: AssetMetadata }): MbrDelta {
+    const assetId = args.metadata.assetId
+    const body = args.metadata.body.rawBytes
+    const [asset, box] = this.checkUpdatePreconditions(args.sender, assetId, () => body.length)
+    if (body.length > box.body.length) fail(ERR.LARGER_METADATA_SIZE)
+
+    const refund = this.params.mbrForBox(box.body.length) - this.params.mbrForBox(body.length)
+    box.body = body.slice()
+    this.updateHeaderAndEmit(assetId, box, this.nextRound())
+    this.refund(asset.manager, refund)
+    return refund === 0
+      ? new MbrDelta({ sign: MbrDeltaSign.NULL, amount: 0 })
+      : new MbrDelta({ sign: MbrDeltaSign.NEG, amount: refund })
+  }
+
+  /**
+   * Emulate `arc89_replace_metadata_larger` (new size > current size).
+   *
+   * `mbrPayment` defaults to the exact MBR increase.
+   */
+  replaceMetadataLarger(args: { sender: string; metadata: AssetMetadata; mbrPayment?: bigint | number }): MbrDelta {
+    const assetId = args.metadata.assetId
+    const body = args.metadata.body.rawBytes
+    const [, box] = this.checkUpdatePreconditions(args.sender, assetId, () => body.length)
+    if (body.length <= box.body.length) fail(ERR.SMALLER_METADATA_SIZE)
+
+    const delta = this.params.mbrForBox(body.length) - this.params.mbrForBox(box.body.length)
+    const payment = asBigInt(args.mbrPayment ?? delta, 'mbrPayment')
+    if (payment < BigInt(delta)) fail(ERR.MBR_DELTA_AMOUNT_INVALID)
+
+    box.body = body.slice()
+    this.balance += payment
+    this.updateHeaderAndEmit(assetId, box, this.nextRound())
+    return new MbrDelta({ sign: MbrDeltaSign.POS, amount: delta })
+  }
+
+  /** Emulate `arc89_replace_metadata_slice`; writing identical bytes is a no-op (no round, no event). */
+  replaceMetadataSlice(args: { sender: string; assetId: bigint | number; offset: number; payload: Uint8Array }): void {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const [, box] = this.checkUpdatePreconditions(args.sender, assetId, (b) => b.body.length)
+    if (args.offset + args.payload.length > box.body.length) fail(ERR.EXCEEDS_METADATA_SIZE)
+
+    const existing = box.body.slice(args.offset, args.offset + args.payload.length)
+    if (bytesEqual(existing, args.payload)) return
+
+    const body = box.body.slice()
+    body.set(args.payload, args.offset)
+    box.body = body
+    this.updateHeaderAndEmit(assetId, box, this.nextRound())
+  }
+
+  /**
+   * Emulate `arc89_delete_metadata`. The box MBR is refunded to the ASA manager, or to the
+   * sender if the ASA no longer exists (anyone may delete metadata of a destroyed ASA).
+   */
+  deleteMetadata(args: { sender: string; assetId: bigint | number }): MbrDelta {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const box = this.boxes.get(assetId) ?? fail(ERR.ASSET_METADATA_NOT_EXIST)
+    const asset = this.assets.get(assetId)
+    if (asset) {
+      if (isImmutable(box)) fail(ERR.IMMUTABLE)
+      if (args.sender !== asset.manager) fail(ERR.UNAUTHORIZED)
+    }
+
+    const refund = this.params.mbrForBox(box.body.length)
+    this.boxes.delete(assetId)
+    this.commit(this.nextRound())
+    this.refund(asset ? asset.manager : args.sender, refund)
+    this.events.push(new Arc89MetadataDeletedEvent({ assetId, round: this.round, timestamp: this.timestamp }))
+    return new MbrDelta({ sign: MbrDeltaSign.NEG, amount: refund })
+  }
+
+  /** Emulate `arc89_set_reversible_flag`; setting the current value is a no-op. */
+  setReversibleFlag(args: { sender: string; assetId: bigint | number; flag: number; value: boolean }): void {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const box = this.checkSetFlagPreconditions(args.sender, assetId)
+    if (!Number.isInteger(args.flag) || args.flag < 0 || args.flag > flags.REV_FLG_RESERVED_7) {
+      fail(ERR.FLAG_IDX_INVALID)
+    }
+
+    const mask = 1 << args.flag
+    const updated = args.value ? box.reversibleFlags | mask : box.reversibleFlags & ~mask & 0xff
+    if (updated === box.reversibleFlags) return
+
+    box.reversibleFlags = updated
+    this.updateHeaderAndEmit(assetId, box, this.nextRound())
+  }
+
+  /** Emulate `arc89_set_irreversible_flag` (flags 2..6 only); setting an already set flag is a no-op. */
+  setIrreversibleFlag(args: { sender: string; assetId: bigint | number; flag: number }): void {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const box = this.checkSetFlagPreconditions(args.sender, assetId)
+    if (!Number.isInteger(args.flag) || args.flag < flags.IRR_FLG_ARC54 || args.flag > flags.IRR_FLG_RESERVED_6) {
+      fail(ERR.FLAG_IDX_INVALID)
+    }
+
+    const mask = 1 << args.flag
+    if (box.irreversibleFlags & mask) return
+
+    box.irreversibleFlags |= mask
+    this.updateHeaderAndEmit(assetId, box, this.nextRound())
+  }
+
+  /** Emulate `arc89_set_immutable`. */
+  setImmutable(args: { sender: string; assetId: bigint | number }): void {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const box = this.checkSetFlagPreconditions(args.sender, assetId)
+    box.irreversibleFlags |= bitmasks.MASK_IRR_IMMUTABLE
+    this.updateHeaderAndEmit(assetId, box, this.nextRound())
+  }
+
+  /** Emulate `arc89_migrate_metadata`: sets `deprecatedBy` without touching the hash or last modified round. */
+  migrateMetadata(args: { sender: string; assetId: bigint | number; newRegistryId: bigint | number }): void {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const newRegistryId = asBigInt(args.newRegistryId, 'newRegistryId')
+    const box = this.checkSetFlagPreconditions(args.sender, assetId)
+    if (newRegistryId === this.appId) fail(ERR.NEW_REGISTRY_ID_INVALID)
+
+    box.deprecatedBy = newRegistryId
+    this.commit(this.nextRound())
+    this.events.push(
+      new Arc89MetadataMigratedEvent({ assetId, newRegistryId, round: this.round, timestamp: this.timestamp }),
+    )
+  }
+
+  // ------------------------------------------------------------------
+  // ARC-89 getters (contract semantics)
+  // ------------------------------------------------------------------
+
+  /** Raw box value (header || body), or null if the box does not exist. */
+  getBoxValue(args: { assetId: bigint | number }): Uint8Array | null {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const box = this.boxes.get(assetId)
+    if (!box) return null
+    return new AssetMetadataBox({ assetId, header: toHeader(box), body: new MetadataBody(box.body) }).serialize({
+      params: this.params,
+    })
+  }
+
+  getMbrDelta(args: { assetId: bigint | number; newSize: number }): MbrDelta {
+    if (args.newSize > this.params.maxMetadataSize) fail(ERR.EXCEEDS_MAX_METADATA_SIZE)
+    const box = this.boxes.get(asBigInt(args.assetId, 'assetId'))
+    return this.params.mbrDelta({ oldMetadataSize: box ? box.body.length : null, newMetadataSize: args.newSize })
+  }
+
+  checkMetadataExists(args: { assetId: bigint | number }): MetadataExistence {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    return new MetadataExistence({ asaExists: this.assets.has(assetId), metadataExists: this.boxes.has(assetId) })
+  }
+
+  /** True if flagged immutable or if the ASA manager has been cleared. */
+  isMetadataImmutable(args: { assetId: bigint | number }): boolean {
+    const [asset, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    return isImmutable(box) || asset.manager === algosdk.ALGORAND_ZERO_ADDRESS_STRING
+  }
+
+  isMetadataShort(args: { assetId: bigint | number }): readonly [boolean, bigint] {
+    const [, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    return [isShort(box), box.lastModifiedRound]
+  }
+
+  getMetadataHeader(args: { assetId: bigint | number }): MetadataHeader {
+    const [, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    return toHeader(box)
+  }
+
+  getMetadataPagination(args: { assetId: bigint | number }): Pagination {
+    const [, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    return new Pagination({
+      metadataSize: box.body.length,
+      pageSize: this.params.pageSize,
+      totalPages: Math.ceil(box.body.length / this.params.pageSize),
+    })
+  }
+
+  getMetadata(args: { assetId: bigint | number; page: number }): PaginatedMetadata {
+    const [, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    const totalPages = Math.ceil(box.body.length / this.params.pageSize)
+    if (totalPages === 0) {
+      if (args.page !== 0) fail(ERR.PAGE_IDX_INVALID)
+      return new PaginatedMetadata({
+        hasNextPage: false,
+        lastModifiedRound: box.lastModifiedRound,
+        pageContent: new Uint8Array(),
+      })
+    }
+    if (args.page >= totalPages) fail(ERR.PAGE_IDX_INVALID)
+    const start = args.page * this.params.pageSize
+    return new PaginatedMetadata({
+      hasNextPage: args.page < totalPages - 1,
+      lastModifiedRound: box.lastModifiedRound,
+      pageContent: box.body.slice(start, start + this.params.pageSize),
+    })
+  }
+
+  getMetadataSlice(args: { assetId: bigint | number; offset: number; size: number }): Uint8Array {
+    const [, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    if (args.size > this.params.pageSize) fail(ERR.EXCEEDS_PAGE_SIZE)
+    if (args.offset + args.size > box.body.length) fail(ERR.EXCEEDS_METADATA_SIZE)
+    return box.body.slice(args.offset, args.offset + args.size)
+  }
+
+  getMetadataHeaderHash(args: { assetId: bigint | number }): Uint8Array {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const [, box] = this.checkExistencePreconditions(assetId)
+    return computeHeaderHash({
+      assetId,
+      metadataIdentifiers: box.identifiers,
+      reversibleFlags: box.reversibleFlags,
+      irreversibleFlags: box.irreversibleFlags,
+      metadataSize: box.body.length,
+    })
+  }
+
+  getMetadataPageHash(args: { assetId: bigint | number; page: number }): Uint8Array {
+    const assetId = asBigInt(args.assetId, 'assetId')
+    const [, box] = this.checkExistencePreconditions(assetId)
+    if (box.body.length === 0) fail(ERR.EMPTY_METADATA)
+    if (args.page >= Math.ceil(box.body.length / this.params.pageSize)) fail(ERR.PAGE_IDX_INVALID)
+    const start = args.page * this.params.pageSize
+    return computePageHash({
+      assetId,
+      pageIndex: args.page,
+      pageContent: box.body.slice(start, start + this.params.pageSize),
+    })
+  }
+
+  getMetadataHash(args: { assetId: bigint | number }): Uint8Array {
+    const [, box] = this.checkExistencePreconditions(asBigInt(args.assetId, 'assetId'))
+    return box.metadataHash.slice()
+  }
+
+  /** `json_ref` over short metadata; values are checked like the AVM opcode (type and page size). */
+  private jsonRef(assetId: bigint | number, key: string): unknown {
+    const [, box] = this.checkExistencePreconditions(asBigInt(assetId, 'assetId'))
+    if (!isShort(box)) fail(ERR.METADATA_NOT_SHORT)
+    let obj: Record<string, unknown>
+    try {
+      obj = JSON.parse(new TextDecoder().decode(box.body)) as Record<string, unknown>
+    } catch (e) {
+      throw new RegistryAssertionError('json_ref: invalid JSON', { cause: e })
+    }
+    if (!Object.prototype.hasOwnProperty.call(obj, key)) throw new RegistryAssertionError(`json_ref: key not found`)
+    return obj[key]
+  }
+
+  getMetadataStringByKey(args: { assetId: bigint | number; key: string }): string {
+    const value = this.jsonRef(args.assetId, args.key)
+    if (typeof value !== 'string') throw new RegistryAssertionError('json_ref: value is not a string')
+    if (new TextEncoder().encode(value).length > this.params.pageSize) fail(ERR.EXCEEDS_PAGE_SIZE)
+    return value
+  }
+
+  getMetadataUint64ByKey(args: { assetId: bigint | number; key: string }): bigint {
+    const value = this.jsonRef(args.assetId, args.key)
+    if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+      throw new RegistryAssertionError('json_ref: value is not a uint64')
+    }
+    return BigInt(value)
+  }
+
+  getMetadataObjectByKey(args: { assetId: bigint | number; key: string }): string {
+    const value = this.jsonRef(args.assetId, args.key)
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new RegistryAssertionError('json_ref: value is not an object')
+    }
+    const text = JSON.stringify(value)
+    if (new TextEncoder().encode(text).length > this.params.pageSize) fail(ERR.EXCEEDS_PAGE_SIZE)
+    return text
+  }
+
+  getMetadataB64BytesByKey(args: { assetId: bigint | number; key: string; b64Encoding: number }): Uint8Array {
+    if (args.b64Encoding !== enums.B64_URL_ENCODING && args.b64Encoding !== enums.B64_STD_ENCODING) {
+      fail(ERR.B64_ENCODING_INVALID)
+    }
+    const value = this.jsonRef(args.assetId, args.key)
+    if (typeof value !== 'string') throw new RegistryAssertionError('json_ref: value is not a string')
+    const decoded = args.b64Encoding === enums.B64_URL_ENCODING ? b64UrlDecode(value) : b64Decode(value)
+    if (decoded.length > this.params.pageSize) fail(ERR.EXCEEDS_PAGE_SIZE)
+    return decoded
+  }
+
+  // ------------------------------------------------------------------
+  // SDK adapters
+  // ------------------------------------------------------------------
+
+  /**
+   * Fake algod client serving this registry's boxes and ASA params
+   * (`getApplicationBoxByName`, `getApplicationBoxes`, `getAssetByID`).
+   */
+  get algod(): AlgodClientSubset {
+    const request = <T>(run: () => T) => ({ do: async () => run() })
+    return {
+      getApplicationBoxByName: (appId, boxName) =>
+        request(() => {
+          const value =
+            asBigInt(appId, 'appId') === this.appId ? this.getBoxValue({ assetId: boxNameToAssetId(boxName) }) : null
+          if (!value) throw notFound('box')
+          return new modelsv2.Box({ name: boxName, round: this.round, value })
+        }),
+      getAssetByID: (assetId) =>
+        request(() => {
+          const asset = this.assets.get(asBigInt(assetId, 'assetId'))
+          if (!asset) throw notFound('asset')
+          return new modelsv2.Asset({
+            index: asset.assetId,
+            params: new modelsv2.AssetParams({
+              creator: asset.creator,
+              decimals: 0,
+              total: 1,
+              manager: asset.manager,
+              name: asset.name,
+              url: asset.url,
+              metadataHash: asset.metadataHash,
+            }),
+          })
+        }),
+      getApplicationBoxes: (appId) =>
+        boxesRequest(asBigInt(appId, 'appId') === this.appId ? [...this.boxes.keys()] : []),
+    }
+  }
+
+  /** AVM reader whose simulate calls are served by this emulator. */
+  avm(): InMemoryAvmRead {
+    return new InMemoryAvmRead({ registry: this })
+  }
+
+  /** Unified reader wired to this emulator for both BOX and AVM sources. */
+  reader(): AsaMetadataRegistryRead {
+    return new AsaMetadataRegistryRead({
+      appId: this.appId,
+      algod: new AlgodBoxReader(this.algod),
+      avmFactory: (appId) => {
+        if (appId !== this.appId) throw new RegistryResolutionError(`No in-memory registry for app ${appId}`)
+        return this.avm()
+      },
+    })
+  }
+}
+
+const isImmutable = (box: MetadataBoxState): boolean => Boolean(box.irreversibleFlags & bitmasks.MASK_IRR_IMMUTABLE)
+
+const isShort = (box: MetadataBoxState): boolean => Boolean(box.identifiers & bitmasks.MASK_ID_SHORT)
+
+/** Mirror of `_identify_metadata`: set the short bit from the body size. */
+const identify = (box: MetadataBoxState, params: RegistryParameters): void => {
+  box.identifiers =
+    box.body.length <= params.shortMetadataSize
+      ? box.identifiers | bitmasks.MASK_ID_SHORT
+      : box.identifiers & ~bitmasks.MASK_ID_SHORT & 0xff
+}
+
+const toHeader = (box: MetadataBoxState): MetadataHeader =>
+  new MetadataHeader({
+    identifiers: box.identifiers,
+    flags: MetadataFlags.fromBytes(box.reversibleFlags, box.irreversibleFlags),
+    metadataHash: box.metadataHash.slice(),
+    lastModifiedRound: box.lastModifiedRound,
+    deprecatedBy: box.deprecatedBy,
+  })
+
+// ------------------------------------------------------------------
+// AVM reader adapter
+// ------------------------------------------------------------------
+
+type ReadCall = { args?: unknown } | undefined
+
+/** Tuple args of a read group call (`withArgs` always passes a tuple). */
+const callArgs = (params: ReadCall): unknown[] => {
+  if (!Array.isArray(params?.args)) throw new TypeError('InMemoryAvmRead expects tuple call args')
+  return params.args
+}
+
+/**
+ * Read group evaluated against an `InMemoryRegistry`.
+ *
+ * Calls are evaluated in order on `simulate()`; as with a real simulate, any failing call fails
+ * the whole group. Return values have the shapes accepted by the AVM reader's decoders.
+ */
+class InMemoryReadGroup implements AvmReadGroup {
+  private readonly registry: InMemoryRegistry
+  private readonly calls: ((r: InMemoryRegistry) => unknown)[] = []
+
+  constructor(registry: InMemoryRegistry) {
+    this.registry = registry
+  }
+
+  private add(params: ReadCall, run: (r: InMemoryRegistry, args: unknown[]) => unknown): this {
+    const args = callArgs(params)
+    this.calls.push((r) => run(r, args))
+    return this
+  }
+
+  async simulate(_options?: SimulateOptions): Promise<{ returns: { value: unknown }[] }> {
+    return { returns: this.calls.map((run) => ({ value: run(this.registry) })) }
+  }
+
+  arc89GetMetadataRegistryParameters(params?: ReadCall): this {
+    return this.add(params, (r) => r.params)
+  }
+
+  arc89GetMetadataPartialUri(params?: ReadCall): this {
+    return this.add(params, (r) => r.partialUri)
+  }
+
+  arc89GetMetadataMbrDelta(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, newSize]) =>
+      r.getMbrDelta({ assetId: asUint64BigInt(assetId, 'assetId'), newSize: asNumber(newSize, 'newSize') }),
+    )
+  }
+
+  arc89CheckMetadataExists(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => r.checkMetadataExists({ assetId: asUint64BigInt(assetId, 'assetId') }))
+  }
+
+  arc89IsMetadataImmutable(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => r.isMetadataImmutable({ assetId: asUint64BigInt(assetId, 'assetId') }))
+  }
+
+  arc89IsMetadataShort(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => [...r.isMetadataShort({ assetId: asUint64BigInt(assetId, 'assetId') })])
+  }
+
+  arc89GetMetadataHeader(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => {
+      const h = r.getMetadataHeader({ assetId: asUint64BigInt(assetId, 'assetId') })
+      return {
+        identifiers: h.identifiers,
+        reversibleFlags: h.flags.reversibleByte,
+        irreversibleFlags: h.flags.irreversibleByte,
+        hash: h.metadataHash,
+        lastModifiedRound: h.lastModifiedRound,
+        deprecatedBy: h.deprecatedBy,
+      }
+    })
+  }
+
+  arc89GetMetadataPagination(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => r.getMetadataPagination({ assetId: asUint64BigInt(assetId, 'assetId') }))
+  }
+
+  arc89GetMetadata(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, page]) =>
+      r.getMetadata({ assetId: asUint64BigInt(assetId, 'assetId'), page: asNumber(page, 'page') }),
+    )
+  }
+
+  arc89GetMetadataSlice(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, offset, size]) =>
+      r.getMetadataSlice({
+        assetId: asUint64BigInt(assetId, 'assetId'),
+        offset: asNumber(offset, 'offset'),
+        size: asNumber(size, 'size'),
+      }),
+    )
+  }
+
+  arc89GetMetadataHeaderHash(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => r.getMetadataHeaderHash({ assetId: asUint64BigInt(assetId, 'assetId') }))
+  }
+
+  arc89GetMetadataPageHash(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, page]) =>
+      r.getMetadataPageHash({ assetId: asUint64BigInt(assetId, 'assetId'), page: asNumber(page, 'page') }),
+    )
+  }
+
+  arc89GetMetadataHash(params?: ReadCall): this {
+    return this.add(params, (r, [assetId]) => r.getMetadataHash({ assetId: asUint64BigInt(assetId, 'assetId') }))
+  }
+
+  arc89GetMetadataStringByKey(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, key]) =>
+      r.getMetadataStringByKey({ assetId: asUint64BigInt(assetId, 'assetId'), key: String(key) }),
+    )
+  }
+
+  arc89GetMetadataUint64ByKey(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, key]) =>
+      r.getMetadataUint64ByKey({ assetId: asUint64BigInt(assetId, 'assetId'), key: String(key) }),
+    )
+  }
+
+  arc89GetMetadataObjectByKey(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, key]) =>
+      r.getMetadataObjectByKey({ assetId: asUint64BigInt(assetId, 'assetId'), key: String(key) }),
+    )
+  }
+
+  arc89GetMetadataB64BytesByKey(params?: ReadCall): this {
+    return this.add(params, (r, [assetId, key, b64Encoding]) =>
+      r.getMetadataB64BytesByKey({
+        assetId: asUint64BigInt(assetId, 'assetId'),
+        key: String(key),
+        b64Encoding: asNumber(b64Encoding, 'b64Encoding'),
+      }),
+    )
+  }
+}
+
+/** `AsaMetadataRegistryAvmRead` backed by an `InMemoryRegistry` (no app client involved). */
+export class InMemoryAvmRead extends AsaMetadataRegistryAvmRead {
+  public readonly registry: InMemoryRegistry
+
+  constructor(args: { registry: InMemoryRegistry }) {
+    super({ newGroup: () => new InMemoryReadGroup(args.registry) })
+    this.registry = args.registry
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Offline testing utilities (`@algorandfoundation/asa-metadata-registry-sdk/testing`).
+ *
+ * Kept out of the main entrypoint so production bundles do not ship the registry emulator.
+ */
+
+export * from './inMemoryRegistry'
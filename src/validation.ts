@@ -7,6 +7,8 @@
 import { MetadataArc3Error, MetadataEncodingError, InvalidArc3PropertiesError } from './errors'
 import { REV_FLG_ARC20, REV_FLG_ARC62 } from './flags'
 import { ARC3_PROPERTIES_KEY_ARC20, ARC3_PROPERTIES_KEY_ARC62, ARC3_PROPERTIES_KEYS } from './constants'
+import { b64Decode, b64Encode } from './codec'
+import { isPlainObject } from './internal/json'
 
 const UTF8_BOM = new Uint8Array([0xef, 0xbb, 0xbf])
 
@@ -18,9 +20,6 @@ const startsWith = (data: Uint8Array, prefix: Uint8Array): boolean => {
   return true
 }
 
-const isPlainObject = (v: unknown): v is Record<string, unknown> =>
-  typeof v === 'object' && v !== null && !Array.isArray(v)
-
 /**
  * Validate a positive uint64 represented as a JSON-parsed number.
  * @remarks Since parsing from JSON, expect a `number` input.
@@ -158,6 +157,113 @@ export const validateArc3Schema = (obj: Record<string, unknown>): void => {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Full ARC-3 validation
+// ---------------------------------------------------------------------------
+
+/** A field of ARC-3 metadata that fails validation. */
+export interface Arc3ValidationIssue {
+  /** Path of the field, e.g. `image_integrity` or `localization.locales[1]`. */
+  path: string
+  message: string
+}
+
+const ARC3_URI_FIELDS = ['image', 'external_url', 'animation_url'] as const
+const ARC3_STRING_FIELDS = ['name', 'description', 'unitName'] as const
+const ARC3_LOCALE_PLACEHOLDER = '{locale}'
+
+/** Absolute URI (RFC 3986): a scheme, then characters allowed in URIs or percent-encoded octets. */
+const URI_RE = /^[A-Za-z][A-Za-z0-9+.-]*:(?:[A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=]|%[0-9A-Fa-f]{2})*$/
+/** MIME type (RFC 6838 `type/subtype`, optionally with `; name=value` parameters). */
+const MIME_TOKEN = '[A-Za-z0-9][A-Za-z0-9!#$&^_.+-]{0,126}'
+const MIME_RE = new RegExp(
+  `^${MIME_TOKEN}/${MIME_TOKEN}(?:\\s*;\\s*[A-Za-z0-9!#$&^_.+-]+=(?:[A-Za-z0-9!#$&^_.+-]+|"[^"]*"))*$`,
+)
+const BASE64_RE = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/
+const SHA256_SIZE = 32
+
+/** Strict (canonical, padded) standard base64. */
+const isStrictBase64 = (value: string): boolean => {
+  if (!BASE64_RE.test(value)) return false
+  // Reject non-zero pad bits, which decoders silently drop.
+  return b64Encode(b64Decode(value)) === value
+}
+
+/**
+ * Validate ARC-3 metadata against the ARC-3 field formats, collecting every issue.
+ *
+ * On top of the type checks of `validateArc3Schema`, this checks that `*_integrity` fields are
+ * `sha256-<base64>` SRI digests, `*_mimetype` fields are MIME types, `background_color` is 6-digit
+ * hex without `#`, `image` / `external_url` / `animation_url` / `localization.uri` are URIs
+ * (`localization.uri` must contain the `{locale}` placeholder), and `extra_metadata` is strict
+ * base64. Unknown fields are allowed.
+ *
+ * @returns Issues in field order, or an empty list if `obj` is valid.
+ */
+export const validateArc3Metadata = (obj: Record<string, unknown>): Arc3ValidationIssue[] => {
+  const issues: Arc3ValidationIssue[] = []
+  const issue = (path: string, message: string) => issues.push({ path, message })
+  const typeName = (v: unknown) => (v === null ? 'null' : Array.isArray(v) ? 'array' : typeof v)
+  const str = (path: string, v: unknown): v is string => {
+    if (typeof v === 'string') return true
+    issue(path, `must be a string, got ${typeName(v)}`)
+    return false
+  }
+
+  for (const [key, value] of Object.entries(obj)) {
+    if ((ARC3_STRING_FIELDS as readonly string[]).includes(key)) {
+      str(key, value)
+    } else if (key === 'decimals') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        issue(key, `must be a non-negative integer, got ${JSON.stringify(value)}`)
+      }
+    } else if ((ARC3_URI_FIELDS as readonly string[]).includes(key)) {
+      if (str(key, value) && !URI_RE.test(value)) issue(key, `must be a URI, got '${value}'`)
+    } else if (key.endsWith('_integrity')) {
+      if (!str(key, value)) continue
+      const digest = value.startsWith('sha256-') ? value.slice('sha256-'.length) : null
+      if (digest === null || !isStrictBase64(digest) || b64Decode(digest).length !== SHA256_SIZE) {
+        issue(key, `must be a sha256-<base64> SRI digest of ${SHA256_SIZE} bytes, got '${value}'`)
+      }
+    } else if (key.endsWith('_mimetype')) {
+      if (str(key, value) && !MIME_RE.test(value)) issue(key, `must be a MIME type, got '${value}'`)
+    } else if (key === 'background_color') {
+      if (str(key, value) && !/^[0-9A-Fa-f]{6}$/.test(value)) {
+        issue(key, `must be a 6-digit hex color without '#', got '${value}'`)
+      }
+    } else if (key === 'extra_metadata') {
+      if (str(key, value) && !isStrictBase64(value)) issue(key, 'must be strict base64')
+    } else if (key === 'properties') {
+      if (!isPlainObject(value)) issue(key, `must be an object, got ${typeName(value)}`)
+    } else if (key === 'localization') {
+      if (!isPlainObject(value)) {
+        issue(key, `must be an object, got ${typeName(value)}`)
+        continue
+      }
+      for (const field of ['uri', 'default', 'locales']) {
+        if (!(field in value)) issue(`localization.${field}`, 'is required')
+      }
+      const uri = value['uri']
+      if ('uri' in value && str('localization.uri', uri)) {
+        if (!uri.includes(ARC3_LOCALE_PLACEHOLDER)) {
+          issue('localization.uri', `must contain the ${ARC3_LOCALE_PLACEHOLDER} placeholder`)
+        } else if (!URI_RE.test(uri.split(ARC3_LOCALE_PLACEHOLDER).join('en'))) {
+          issue('localization.uri', `must be a URI, got '${uri}'`)
+        }
+      }
+      if ('default' in value) str('localization.default', value['default'])
+      const locales = value['locales']
+      if (!('locales' in value)) continue
+      if (!Array.isArray(locales)) {
+        issue('localization.locales', `must be an array, got ${typeName(locales)}`)
+      } else {
+        locales.forEach((locale, i) => str(`localization.locales[${i}]`, locale))
+      }
+    }
+  }
+  return issues
+}
+
 /**
  * Check if a JSON object contains ARC-3 specific fields.
  *
@@ -0,0 +1,166 @@
+/**
+ * Asset manager accounts for multisig and logic-signature senders.
+ *
+ * Every transaction of a write group (registry calls, extra payload and resources calls, and the
+ * MBR payment) is sent and signed by the asset manager, which also pays the pooled fee. These
+ * helpers build a `TransactionSignerAccount` whose address and signer match, so any writer method
+ * can be used with a multisig or logic-signature manager. Multisig signatures can also be
+ * collected one signer at a time (e.g. from offline hardware wallets) with
+ * `MultisigSignatureCollector`.
+ */
+
+import type { TransactionSignerAccount } from '@algorandfoundation/algokit-utils/types/account'
+import algosdk, { type Address, type LogicSigAccount, type MultisigMetadata, type Transaction } from 'algosdk'
+import { b64Decode } from '../codec'
+import { MultisigSignatureError } from '../errors'
+import { UnsignedWriteGroup } from './unsigned'
+
+// ---------------------------------------------------------------------------
+// Asset manager accounts
+// ---------------------------------------------------------------------------
+
+/** A multisig asset manager (address derived from `metadata`). */
+export interface MultisigAssetManager extends TransactionSignerAccount {
+  metadata: MultisigMetadata
+}
+
+/**
+ * Multisig asset manager.
+ *
+ * With `signingKeys` (at least `threshold` keys of the multisig), the signer signs in-process.
+ * Without keys, the signer throws: export the group with `exportUnsignedGroup` and collect the
+ * signatures with `MultisigSignatureCollector`.
+ * @throws {MultisigSignatureError} If fewer than `threshold` keys are given, or a key is not a multisig member.
+ */
+export const multisigAssetManager = (args: {
+  metadata: MultisigMetadata
+  signingKeys?: readonly Uint8Array[] | null
+}): MultisigAssetManager => {
+  const addr = algosdk.multisigAddress(args.metadata)
+  const keys = args.signingKeys ?? null
+  if (keys === null) {
+    return {
+      addr,
+      metadata: args.metadata,
+      signer: async () => {
+        throw new MultisigSignatureError(`Multisig ${addr.toString()} signatures must be collected externally`)
+      },
+    }
+  }
+
+  const members = args.metadata.addrs.map((a) => a.toString())
+  for (const sk of keys) {
+    const signer = algosdk.encodeAddress(sk.slice(32))
+    if (!members.includes(signer)) throw new MultisigSignatureError(`${signer} is not a member of ${addr.toString()}`)
+  }
+  if (keys.length < args.metadata.threshold) {
+    throw new MultisigSignatureError(
+      `Multisig ${addr.toString()} needs ${args.metadata.threshold} signing keys, got ${keys.length}`,
+    )
+  }
+  return {
+    addr,
+    metadata: args.metadata,
+    signer: algosdk.makeMultiSigAccountTransactionSigner(args.metadata, [...keys]),
+  }
+}
+
+/** Logic-signature asset manager (a contract account, or an account that delegated to the program). */
+export const logicSigAssetManager = (lsig: LogicSigAccount): TransactionSignerAccount => ({
+  addr: lsig.address(),
+  signer: algosdk.makeLogicSigAccountTransactionSigner(lsig),
+})
+
+// ---------------------------------------------------------------------------
+// Partial signature collection
+// ---------------------------------------------------------------------------
+
+const signedSubsigs = (blob: Uint8Array): string[] => {
+  const msig = algosdk.decodeSignedTransaction(blob).msig
+  return (msig?.subsig ?? []).filter((s) => s.s !== undefined).map((s) => algosdk.encodeAddress(s.pk))
+}
+
+/**
+ * Collect multisig signatures for a write group, one signer at a time.
+ *
+ * Signers either sign in-process (`sign`) or return partially signed blobs produced elsewhere
+ * (`addPartial`), e.g. with `algosdk.signMultisigTransaction` on an offline device. Once
+ * `isComplete`, `toSignedBlobs()` can be passed to `submitSignedGroup`.
+ */
+export class MultisigSignatureCollector {
+  public readonly metadata: MultisigMetadata
+  public readonly address: Address
+  public readonly transactions: Transaction[]
+  private readonly blobs: (Uint8Array | null)[]
+
+  /**
+   * @throws {MultisigSignatureError} If a transaction is not sent by the multisig account.
+   */
+  constructor(args: { metadata: MultisigMetadata; group: UnsignedWriteGroup | readonly Transaction[] }) {
+    this.metadata = args.metadata
+    this.address = algosdk.multisigAddress(args.metadata)
+    this.transactions = args.group instanceof UnsignedWriteGroup ? args.group.transactions : [...args.group]
+    this.transactions.forEach((txn, i) => {
+      if (!txn.sender.equals(this.address)) {
+        throw new MultisigSignatureError(
+          `Transaction ${i} is sent by ${txn.sender.toString()}, not by multisig ${this.address.toString()}`,
+        )
+      }
+    })
+    this.blobs = this.transactions.map(() => null)
+  }
+
+  /** Add one member's signature to every transaction of the group. */
+  sign(signingKey: Uint8Array): this {
+    this.transactions.forEach((txn, i) => {
+      const current = this.blobs[i]
+      this.blobs[i] = current
+        ? algosdk.appendSignMultisigTransaction(current, this.metadata, signingKey).blob
+        : algosdk.signMultisigTransaction(txn, this.metadata, signingKey).blob
+    })
+    return this
+  }
+
+  /**
+   * Merge partially signed transactions (msgpack bytes or base64), in group order.
+   * @throws {MultisigSignatureError} If the blobs do not match the group's transactions.
+   */
+  addPartial(signed: readonly (Uint8Array | string)[]): this {
+    if (signed.length !== this.transactions.length) {
+      throw new MultisigSignatureError(`Expected ${this.transactions.length} transactions, got ${signed.length}`)
+    }
+    signed.forEach((s, i) => {
+      const blob = typeof s === 'string' ? b64Decode(s) : s
+      const decoded = algosdk.decodeSignedTransaction(blob)
+      if (decoded.txn.txID() !== this.transactions[i]!.txID() || decoded.msig === undefined) {
+        throw new MultisigSignatureError(`Transaction ${i} is not a multisig signature of the group transaction`)
+      }
+      const current = this.blobs[i]
+      this.blobs[i] = current ? algosdk.mergeMultisigTransactions([current, blob]) : blob
+    })
+    return this
+  }
+
+  /** Members that signed every transaction of the group. */
+  get signers(): string[] {
+    const perTxn = this.blobs.map((blob) => (blob ? signedSubsigs(blob) : []))
+    return (perTxn[0] ?? []).filter((addr) => perTxn.every((signers) => signers.includes(addr)))
+  }
+
+  get isComplete(): boolean {
+    return this.signers.length >= this.metadata.threshold
+  }
+
+  /**
+   * Fully signed transactions, in group order.
+   * @throws {MultisigSignatureError} If fewer than `threshold` members signed.
+   */
+  toSignedBlobs(): Uint8Array[] {
+    if (!this.isComplete) {
+      throw new MultisigSignatureError(
+        `Multisig ${this.address.toString()} has ${this.signers.length} of ${this.metadata.threshold} signatures`,
+      )
+    }
+    return this.blobs.map((blob) => blob!)
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Structured results of ARC-89 write groups.
+ *
+ * A `WriteReceipt` is returned by the high-level send helpers of `AsaMetadataRegistryWrite`,
+ * so callers get the transaction ids, the fees actually paid, the MBR delta (when the method
+ * returns one) and the decoded ARC-28 events without re-parsing the raw composer results.
+ */
+
+import type { SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Arc89Event, decodeEventsFromTransactions } from '../events'
+import { MbrDelta } from '../models'
+import type { WriteOptions } from './writer'
+
+export class WriteReceipt<TMbrDelta extends MbrDelta | null = MbrDelta | null> {
+  /** Ids of the outer transactions of the group, in group order. */
+  public readonly txIds: string[]
+  /** Base64 group id (empty for single transactions sent without a group). */
+  public readonly groupId: string
+  public readonly confirmedRound: bigint | null
+  /** microALGO, sum of the fees of the outer transactions (inner transactions are fee-pooled). */
+  public readonly feesPaid: bigint
+  /** MBR delta returned by create / replace / delete, `null` for methods without one. */
+  public readonly mbrDelta: TMbrDelta
+  /** Registry events emitted by the group (including inner transactions), in execution order. */
+  public readonly events: Arc89Event[]
+  /** Write options found by `autoTune` when the send helper was called with it, else `null`. */
+  public readonly tunedOptions: WriteOptions | null
+
+  constructor(args: {
+    txIds: string[]
+    groupId: string
+    confirmedRound: bigint | null
+    feesPaid: bigint
+    mbrDelta: TMbrDelta
+    events: Arc89Event[]
+    tunedOptions?: WriteOptions | null
+  }) {
+    this.txIds = args.txIds
+    this.groupId = args.groupId
+    this.confirmedRound = args.confirmedRound
+    this.feesPaid = args.feesPaid
+    this.mbrDelta = args.mbrDelta
+    this.events = args.events
+    this.tunedOptions = args.tunedOptions ?? null
+  }
+
+  /** Build a receipt from AlgoKit composer send results. */
+  static fromResults<TMbrDelta extends MbrDelta | null>(
+    results: SendAtomicTransactionComposerResults,
+    mbrDelta: TMbrDelta,
+    tunedOptions?: WriteOptions | null,
+  ): WriteReceipt<TMbrDelta> {
+    const confirmations = results.confirmations ?? []
+    return new WriteReceipt({
+      txIds: results.txIds,
+      groupId: results.groupId,
+      confirmedRound: confirmations[0]?.confirmedRound ?? null,
+      feesPaid: results.transactions.reduce((total, txn) => total + txn.fee, 0n),
+      mbrDelta,
+      events: decodeEventsFromTransactions(confirmations),
+      tunedOptions,
+    })
+  }
+}
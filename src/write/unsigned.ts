@@ -0,0 +1,226 @@
+/**
+ * Unsigned write groups, for signing outside the SDK.
+ *
+ * Write groups are built with the usual `build*Group` methods, exported as unsigned msgpack
+ * transactions with a manifest of each transaction's role, signed elsewhere (multisig, hardware
+ * wallets, WalletConnect) and submitted back with `submitSignedGroup`.
+ */
+
+import type { TransactionSignerAccount } from '@algorandfoundation/algokit-utils/types/account'
+import { populateAppCallResources } from '@algorandfoundation/algokit-utils'
+import algosdk, { type Algodv2, type Transaction } from 'algosdk'
+import { b64Decode, b64Encode } from '../codec'
+import { ARC4_RETURN_PREFIX, ARC4_RETURN_PREFIX_SIZE } from '../constants'
+import { ExternalSignerError, ReturnValueDecodeError, SignedGroupMismatchError } from '../errors'
+import { decodeEventsFromTransactions } from '../events'
+import type { AsaMetadataRegistryComposer } from '../generated'
+import { parseMbrDelta } from '../internal/avm'
+import { MbrDelta } from '../models'
+import { WriteReceipt } from './receipt'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Role of a transaction in a write group:
+ * - `registryCall`: the registry method performing the write (create, replace, slice, delete, flags)
+ * - `extraPayload`: `arc89_extra_payload` call carrying a payload chunk
+ * - `extraResources`: `extra_resources` call adding reference slots and opcode budget
+ * - `mbrPayment`: MBR payment to the registry
+ * - `other`: any other transaction added to the composer
+ */
+export type UnsignedTxnRole = 'registryCall' | 'extraPayload' | 'extraResources' | 'mbrPayment' | 'other'
+
+export interface UnsignedTxnManifestEntry {
+  index: number
+  txId: string
+  /** Transaction type, e.g. `appl` or `pay`. */
+  type: string
+  role: UnsignedTxnRole
+  /** ABI method signature of app calls, null otherwise. */
+  method: string | null
+  sender: string
+  /** microALGO (the group's fee pool is on the first registry call). */
+  fee: bigint
+}
+
+/** An unsigned write group with its group id assigned. */
+export class UnsignedWriteGroup {
+  public readonly transactions: Transaction[]
+  public readonly manifest: UnsignedTxnManifestEntry[]
+
+  constructor(args: { transactions: Transaction[]; manifest: UnsignedTxnManifestEntry[] }) {
+    this.transactions = args.transactions
+    this.manifest = args.manifest
+  }
+
+  /** Base64 group id (empty for a single transaction). */
+  get groupId(): string {
+    const group = this.transactions[0]?.group
+    return group ? b64Encode(group) : ''
+  }
+
+  /** Unsigned transactions as msgpack bytes, in group order. */
+  toBytes(): Uint8Array[] {
+    return this.transactions.map((txn) => algosdk.encodeUnsignedTransaction(txn))
+  }
+
+  /** Unsigned transactions as base64 msgpack, in group order. */
+  toBase64(): string[] {
+    return this.toBytes().map(b64Encode)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ROLE_BY_METHOD: Record<string, UnsignedTxnRole> = {
+  arc89_extra_payload: 'extraPayload',
+  extra_resources: 'extraResources',
+}
+
+const roleOf = (txn: Transaction, method: algosdk.ABIMethod | undefined): UnsignedTxnRole => {
+  if (method) return ROLE_BY_METHOD[method.name] ?? (method.name.startsWith('arc89_') ? 'registryCall' : 'other')
+  return txn.type === algosdk.TransactionType.pay ? 'mbrPayment' : 'other'
+}
+
+/**
+ * Signer for accounts whose transactions are signed outside the SDK, so `build*Group` methods
+ * can be used with just the address.
+ * @throws {ExternalSignerError} From its signer, if the SDK tries to sign with it.
+ */
+export const externalSigner = (address: string | algosdk.Address): TransactionSignerAccount => ({
+  addr: typeof address === 'string' ? algosdk.Address.fromString(address) : address,
+  signer: async () => {
+    throw new ExternalSignerError(`Transactions of ${address.toString()} must be signed externally`)
+  },
+})
+
+/**
+ * Export a write group as unsigned transactions.
+ *
+ * Resources are populated by simulation when `populateAppCallResources` is true (the default),
+ * as `send()` would do. Fees are kept as built by the writer.
+ */
+export const exportUnsignedGroup = async (args: {
+  composer: AsaMetadataRegistryComposer<unknown[]>
+  algod: Algodv2
+  populateAppCallResources?: boolean
+}): Promise<UnsignedWriteGroup> => {
+  const built = await (await args.composer.composer()).build()
+  const atc =
+    (args.populateAppCallResources ?? true) ? await populateAppCallResources(built.atc, args.algod) : built.atc
+  const transactions = atc.buildGroup().map((t) => t.txn)
+
+  const manifest = transactions.map((txn, index) => {
+    const method = built.methodCalls.get(index)
+    return {
+      index,
+      txId: txn.txID(),
+      type: txn.type,
+      role: roleOf(txn, method),
+      method: method ? method.getSignature() : null,
+      sender: txn.sender.toString(),
+      fee: txn.fee,
+    }
+  })
+  return new UnsignedWriteGroup({ transactions, manifest })
+}
+
+/**
+ * Decode the MBR delta returned by the registry call of a confirmed group, if it returns one.
+ * @throws {ReturnValueDecodeError} If the call logged no ARC-4 return or it cannot be decoded.
+ */
+const decodeMbrDelta = (
+  manifest: readonly UnsignedTxnManifestEntry[],
+  confirmations: readonly algosdk.modelsv2.PendingTransactionResponse[],
+): MbrDelta | null => {
+  const entry = manifest.find((e) => e.role === 'registryCall' && e.method !== null)
+  if (!entry) return null
+  const returns = algosdk.ABIMethod.fromSignature(entry.method!).returns.type
+  if (returns === 'void') return null
+
+  const log = confirmations[entry.index]?.logs?.slice(-1)[0]
+  if (!log || !ARC4_RETURN_PREFIX.every((b, i) => log[i] === b)) {
+    throw new ReturnValueDecodeError(`Registry call ${entry.txId} logged no ARC-4 return value`)
+  }
+  try {
+    return parseMbrDelta(returns.decode(log.slice(ARC4_RETURN_PREFIX_SIZE)))
+  } catch (e) {
+    throw new ReturnValueDecodeError(`Cannot decode the return value of registry call ${entry.txId}`, { cause: e })
+  }
+}
+
+/**
+ * Check that signed transactions form one group and, given its `manifest`, that they are the
+ * exported transactions in the exported order.
+ * @throws {SignedGroupMismatchError} If they do not.
+ */
+const checkSignedGroup = (
+  transactions: readonly Transaction[],
+  manifest: readonly UnsignedTxnManifestEntry[] | null | undefined,
+): void => {
+  const groupId = (txn: Transaction | undefined) => (txn?.group ? b64Encode(txn.group) : '')
+  const first = groupId(transactions[0])
+  if (transactions.length > 1 && first === '') {
+    throw new SignedGroupMismatchError('Signed transactions have no group id')
+  }
+  transactions.forEach((txn, i) => {
+    if (groupId(txn) !== first) {
+      throw new SignedGroupMismatchError(`Signed transaction ${i} is not in group ${first}`)
+    }
+  })
+  if (!manifest) return
+
+  if (transactions.length !== manifest.length) {
+    throw new SignedGroupMismatchError(
+      `Expected ${manifest.length} signed transactions (manifest), got ${transactions.length}`,
+    )
+  }
+  transactions.forEach((txn, i) => {
+    const entry = manifest[i]!
+    if (entry.index !== i || txn.txID() !== entry.txId) {
+      throw new SignedGroupMismatchError(
+        `Signed transaction ${i} is ${txn.txID()}, expected ${entry.txId} (manifest index ${entry.index})`,
+      )
+    }
+  })
+}
+
+/**
+ * Submit an externally signed write group and wait for confirmation.
+ *
+ * Pass the `manifest` of the exported group to check the signed transactions against it and to
+ * decode the MBR delta returned by create, replace and delete calls (otherwise the receipt's
+ * `mbrDelta` is null). Transactions are always checked to share one group id.
+ * @throws {SignedGroupMismatchError} If the signed transactions do not match the group (nothing is sent).
+ * @throws {ReturnValueDecodeError} If the registry call return of the confirmed group cannot be decoded.
+ */
+export const submitSignedGroup = async (args: {
+  algod: Algodv2
+  signed: readonly (Uint8Array | string)[]
+  manifest?: readonly UnsignedTxnManifestEntry[] | null
+  waitRounds?: number
+}): Promise<WriteReceipt<MbrDelta | null>> => {
+  const blobs = args.signed.map((s) => (typeof s === 'string' ? b64Decode(s) : s))
+  const transactions = blobs.map((blob) => algosdk.decodeSignedTransaction(blob).txn)
+  checkSignedGroup(transactions, args.manifest)
+
+  await args.algod.sendRawTransaction(blobs).do()
+  const confirmations: algosdk.modelsv2.PendingTransactionResponse[] = []
+  for (const txn of transactions) {
+    confirmations.push(await algosdk.waitForConfirmation(args.algod, txn.txID(), args.waitRounds ?? 5))
+  }
+
+  const group = transactions[0]?.group
+  return new WriteReceipt({
+    txIds: transactions.map((txn) => txn.txID()),
+    groupId: group ? b64Encode(group) : '',
+    confirmedRound: confirmations[0]?.confirmedRound ?? null,
+    feesPaid: transactions.reduce((total, txn) => total + txn.fee, 0n),
+    mbrDelta: args.manifest ? decodeMbrDelta(args.manifest, confirmations) : null,
+    events: decodeEventsFromTransactions(confirmations),
+  })
+}
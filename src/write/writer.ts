@@ -9,11 +9,38 @@
  */
 
 import type { TransactionSignerAccount } from '@algorandfoundation/algokit-utils/types/account'
+import algosdk, { type Address, type modelsv2 } from 'algosdk'
 import * as flagConsts from '../flags'
-import { InvalidFlagIndexError, MissingAppClientError } from '../errors'
-import { AssetMetadata, MbrDelta, RegistryParameters, getDefaultRegistryParams } from '../models'
+import { APP_CALL_OP_BUDGET, MAX_GROUP_SIZE } from '../constants'
+import { AlgodBoxReader } from '../algod'
+import {
+  AmOverrideNotImmutableError,
+  AsaMetadataCreationError,
+  AsaNotFoundError,
+  AutoTuneError,
+  CreationOnlyFlagError,
+  InvalidFlagIndexError,
+  MetadataAlreadyExistsError,
+  MetadataImmutableError,
+  MetadataNotFoundError,
+  MissingAppClientError,
+  NotAssetManagerError,
+} from '../errors'
+import {
+  AssetMetadata,
+  AssetMetadataBox,
+  MbrDelta,
+  IrreversibleFlags,
+  MbrDeltaSign,
+  MetadataFlags,
+  MetadataHeader,
+  RegistryParameters,
+  getDefaultRegistryParams,
+} from '../models'
+import { Arc90Uri } from '../codec'
+import { MetadataSource } from '../read/reader'
 import { asBigInt, toNumber } from '../internal/numbers'
-import { toBytes } from '../internal/bytes'
+import { bytesEqual, toBytes } from '../internal/bytes'
 import {
   AsaMetadataRegistryClient,
   AsaMetadataRegistryComposer,
@@ -24,8 +51,22 @@ import { parseMbrDelta, returnValues } from '../internal/avm'
 import { ARC3_PROPERTIES_FLAG_TO_KEY, validateArc3Properties } from '../validation'
 import { microAlgo } from '@algorandfoundation/algokit-utils'
 import type { SendParams } from '@algorandfoundation/algokit-utils/types/transaction'
-import { appendExtraPayload, appendExtraResources, chunksForSlice, parseMetadataBox } from '../internal/writer'
-import type { SimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  appendExtraPayload,
+  appendExtraResources,
+  checkGroupSize,
+  chunksForSlice,
+  classifySimulateFailure,
+  estimateHashOpUps,
+  extraResourcesForUnnamed,
+  metadataHashOpBudget,
+  opUpsForBudget,
+  parseMetadataBox,
+  planSliceWrites,
+} from '../internal/writer'
+import { WriteReceipt } from './receipt'
+import { UnsignedTxnManifestEntry, UnsignedWriteGroup, exportUnsignedGroup, submitSignedGroup } from './unsigned'
+import type { AssetCreateParams, SimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -54,6 +95,120 @@ export const writeOptionsDefault: WriteOptions = {
   populateAppCallResources: true, // composer.send() options
 }
 
+/** How a replace write is performed. */
+export type ReplaceStrategy = 'replace' | 'replaceLarger' | 'slice'
+
+/**
+ * Plan of a replace write, as chosen by `planReplaceMetadata`.
+ *
+ * Fees are microALGO fee pools. Both strategies are priced with a fee padding of
+ * `max(feePaddingTxns, estimated hash op-ups)`, since every slice call re-hashes the metadata.
+ */
+export interface ReplacePlan {
+  strategy: ReplaceStrategy
+  /** On-chain metadata size the plan was computed against. */
+  currentSize: number
+  /** Slice writes (strategy `slice` only), in group order. */
+  slices: { offset: number; payload: Uint8Array }[]
+  /** Outer transactions in the group. */
+  txnCount: number
+  /** Fee padding (min-fee units) added to the fee pool. */
+  feePaddingTxns: number
+  fee: number
+  /** Fee pool of a full rewrite (`arc89ReplaceMetadata` / `Larger` plus extra payloads). */
+  fullReplaceFee: number
+  /** `fullReplaceFee - fee` (0 unless the strategy is `slice`). */
+  feeSaved: number
+}
+
+/**
+ * Pre-flight cost of a write group, as returned by the `estimate*` methods.
+ *
+ * Amounts are in microALGO and match what the corresponding group builder sets.
+ */
+export interface WriteCostEstimate {
+  /** Outer transactions in the group (app calls and the MBR payment, if any). */
+  groupSize: number
+  /** Transactions the fee pool pays for: the group plus inner transactions (e.g. MBR refund). */
+  txnCount: number
+  feePaddingTxns: number
+  minFee: number
+  /** Fee pool on the first app call: `(txnCount + feePaddingTxns) * minFee`. */
+  fee: number
+  /** Box MBR change: a positive delta is paid by the MBR payment, a negative one refunded to the manager. */
+  mbrDelta: MbrDelta
+  /**
+   * Opcode budget pooled by the group's app calls (`available`) against the budget of the metadata
+   * hash computations (`required`). A negative `headroom` is covered by `opUps` op-up inner calls,
+   * each paid by one unit of `feePaddingTxns`.
+   */
+  opBudget: { available: number; required: number; headroom: number; opUps: number }
+}
+
+/** Result of `autoTune`. */
+export interface AutoTuneResult {
+  /** Tuned write options, reusable for similar writes. */
+  options: WriteOptions
+  /** Group built with the tuned options; it passed simulation and can be sent with `sendGroup`. */
+  composer: AsaMetadataRegistryComposer<unknown[]>
+  /** Simulations run, including the passing one. */
+  attempts: number
+  /** Opcode budget consumed by the passing simulation. */
+  appBudgetConsumed: number
+  /** Opcode budget added by op-up inner calls in the passing simulation. */
+  appBudgetAdded: number
+}
+
+/** A flag call added by `upsertMetadata` to a replace group. */
+export interface FlagUpdate {
+  /** `immutable` is set with `arc89SetImmutable`, other irreversible flags with `arc89SetIrreversibleFlag`. */
+  kind: 'reversible' | 'irreversible' | 'immutable'
+  flagIndex: number
+  value: boolean
+}
+
+/** Result of `upsertMetadata`. */
+export interface UpsertResult {
+  /** `unchanged` when the on-chain hash already matched and nothing was sent. */
+  action: 'create' | 'replace' | 'unchanged'
+  /** Receipt of the sent group (null when unchanged). */
+  receipt: WriteReceipt<MbrDelta> | null
+  /** Flag calls appended to the replace group, in group order. */
+  flagUpdates: FlagUpdate[]
+}
+
+/** ASA parameters for `createAsaWithMetadata` (the writer sets `url`, `metadataHash` and `manager`). */
+export type AsaCreateParams = Omit<AssetCreateParams, 'sender' | 'signer' | 'url' | 'metadataHash' | 'manager'>
+
+/** Result of `createAsaWithMetadata`. */
+export interface AsaWithMetadata {
+  assetId: bigint
+  /** Receipt of the metadata create group (which also created the ASA when `am` is precomputed). */
+  receipt: WriteReceipt<MbrDelta>
+}
+
+/** Registry write performed by a group, as checked by `checkWriteAuthorization`. */
+export type WriteOperation =
+  | 'create'
+  | 'replace'
+  | 'slice'
+  | 'delete'
+  | 'setReversibleFlag'
+  | 'setIrreversibleFlag'
+  | 'setImmutable'
+  | 'migrate'
+
+/** On-chain state read by `checkWriteAuthorization`. */
+export interface WriteAuthorization {
+  /** ASA params (null when deleting metadata of a destroyed ASA). */
+  asset: modelsv2.Asset | null
+  /** Current metadata box (null for create). */
+  box: AssetMetadataBox | null
+}
+
+/** Largest `extraOpcodeBudget` algod accepts in a simulate request (used to measure op-ups). */
+const MAX_EXTRA_OPCODE_BUDGET = 320_000
+
 /*
  * Helper to build default send params from WriteOptions.
  */
@@ -62,6 +217,29 @@ const createSendParams = (options: WriteOptions): SendParams => ({
   populateAppCallResources: options.populateAppCallResources,
 })
 
+/*
+ * Flag calls that turn the on-chain `current` flags into `desired` (reversible flags first,
+ * immutable last).
+ */
+const flagUpdatesFor = (current: MetadataFlags, desired: MetadataFlags): FlagUpdate[] => {
+  const updates: FlagUpdate[] = []
+  for (let i = flagConsts.REV_FLG_ARC20; i <= flagConsts.REV_FLG_RESERVED_7; i++) {
+    const value = Boolean(desired.reversibleByte & (1 << i))
+    if (Boolean(current.reversibleByte & (1 << i)) !== value) updates.push({ kind: 'reversible', flagIndex: i, value })
+  }
+  for (let i = flagConsts.IRR_FLG_ARC3; i <= flagConsts.IRR_FLG_IMMUTABLE; i++) {
+    const isSet = Boolean(current.irreversibleByte & (1 << i))
+    const value = Boolean(desired.irreversibleByte & (1 << i))
+    if (isSet === value) continue
+    if (i === flagConsts.IRR_FLG_ARC3 || i === flagConsts.IRR_FLG_ARC89) {
+      throw new CreationOnlyFlagError(`Irreversible flag ${i} can only be set at metadata creation`)
+    }
+    if (isSet) throw new InvalidFlagIndexError(`Irreversible flag ${i} is set on-chain and cannot be cleared`)
+    updates.push({ kind: i === flagConsts.IRR_FLG_IMMUTABLE ? 'immutable' : 'irreversible', flagIndex: i, value })
+  }
+  return updates
+}
+
 // ---------------------------------------------------------------------------
 // Writer
 // ---------------------------------------------------------------------------
@@ -73,15 +251,26 @@ const createSendParams = (options: WriteOptions): SendParams => ({
  *   - split metadata into payload chunks
  *   - build atomic groups (create/replace/delete + extra payload)
  *   - optionally simulate before sending
+ *
+ * The asset manager sends every transaction of a group, so it pays the pooled fee and the MBR
+ * payment. Multisig and logic-signature managers are built with `multisigAssetManager` and
+ * `logicSigAssetManager`.
+ *
+ * With `preflight: true`, group builders first check the sender and the target metadata with
+ * `checkWriteAuthorization` (extra algod reads), so unauthorized writes fail with a typed error
+ * instead of a rejected group.
  */
 export class AsaMetadataRegistryWrite {
   public readonly client: AsaMetadataRegistryClient
   public readonly params: RegistryParameters | null
+  /** Run `checkWriteAuthorization` before building each group (default false). */
+  public readonly preflight: boolean
 
-  constructor(args: { client: AsaMetadataRegistryClient; params?: RegistryParameters | null }) {
+  constructor(args: { client: AsaMetadataRegistryClient; params?: RegistryParameters | null; preflight?: boolean }) {
     if (!args.client) throw new MissingAppClientError('Write module requires a generated AsaMetadataRegistryClient')
     this.client = args.client
     this.params = args.params ?? null
+    this.preflight = args.preflight ?? false
   }
 
   private async _params(): Promise<RegistryParameters> {
@@ -94,6 +283,91 @@ export class AsaMetadataRegistryWrite {
     }
   }
 
+  // ------------------------------------------------------------------
+  // Authorization
+  // ------------------------------------------------------------------
+
+  /**
+   * Check that `sender` may perform `operation` on the metadata of `assetId`, mirroring the
+   * registry's assertions with algod reads (ASA params, manager auth address, metadata box).
+   *
+   * The sender must be the ASA manager address. A manager rekeyed to another account still sends
+   * its own transactions, signed with the rekeyed key. Metadata of a destroyed ASA can be deleted
+   * by anyone.
+   *
+   * Group builders run this check first when the writer was constructed with `preflight: true`.
+   * @throws {CreationOnlyFlagError} If `setIrreversibleFlag` targets a creation-only flag.
+   * @throws {AsaNotFoundError} If the ASA does not exist.
+   * @throws {NotAssetManagerError} If `sender` is not the ASA manager.
+   * @throws {MetadataAlreadyExistsError} If creating metadata that already exists.
+   * @throws {MetadataNotFoundError} If modifying metadata that does not exist.
+   * @throws {MetadataImmutableError} If modifying metadata flagged as immutable.
+   */
+  async checkWriteAuthorization(args: {
+    operation: WriteOperation
+    sender: string | Address
+    assetId: bigint | number
+    flagIndex?: number | null
+  }): Promise<WriteAuthorization> {
+    const sender = args.sender.toString()
+    if (
+      args.operation === 'setIrreversibleFlag' &&
+      (args.flagIndex === flagConsts.IRR_FLG_ARC3 || args.flagIndex === flagConsts.IRR_FLG_ARC89)
+    ) {
+      throw new CreationOnlyFlagError(`Irreversible flag ${args.flagIndex} can only be set at metadata creation`)
+    }
+
+    const algod = this.client.algorand.client.algod
+    const reader = new AlgodBoxReader(algod)
+    let asset: modelsv2.Asset | null = null
+    try {
+      asset = await reader.getAssetInfo(args.assetId)
+    } catch (e) {
+      if (!(e instanceof AsaNotFoundError) || args.operation !== 'delete') throw e
+    }
+
+    if (asset !== null) {
+      const manager = asset.params.manager ?? null
+      if (manager === null || manager === algosdk.ALGORAND_ZERO_ADDRESS_STRING) {
+        throw new NotAssetManagerError(`ASA ${args.assetId} has no manager, its metadata can no longer be written`)
+      }
+      if (manager !== sender) {
+        const account = await algod.accountInformation(manager).exclude('all').do()
+        const rekeyedToSender = account.authAddr?.toString() === sender
+        throw new NotAssetManagerError(
+          rekeyedToSender
+            ? `ASA ${args.assetId} manager ${manager} is rekeyed to ${sender}: send from ${manager} and sign with the key of ${sender}`
+            : `${sender} is not the manager of ASA ${args.assetId} (${manager})`,
+        )
+      }
+    }
+
+    const box = await reader.tryGetMetadataBox({
+      appId: this.client.appId,
+      assetId: args.assetId,
+      params: this.params ?? undefined,
+    })
+    if (args.operation === 'create') {
+      if (box !== null) throw new MetadataAlreadyExistsError(`ASA ${args.assetId} already has registry metadata`)
+      return { asset, box }
+    }
+    if (box === null) throw new MetadataNotFoundError(`Asset ${args.assetId} has no registry metadata`)
+    if (asset !== null && box.header.flags.irreversible.immutable) {
+      throw new MetadataImmutableError(`Metadata of ASA ${args.assetId} is immutable`)
+    }
+    return { asset, box }
+  }
+
+  /** Run `checkWriteAuthorization` if the writer has pre-flight checks enabled. */
+  private async _preflight(args: {
+    operation: WriteOperation
+    sender: string | Address
+    assetId: bigint | number
+    flagIndex?: number | null
+  }): Promise<WriteAuthorization | null> {
+    return this.preflight ? await this.checkWriteAuthorization(args) : null
+  }
+
   // ------------------------------------------------------------------
   // Group builders
   // ------------------------------------------------------------------
@@ -102,6 +376,8 @@ export class AsaMetadataRegistryWrite {
    * Build (but do not send) an ARC-89 create metadata group.
    *
    * @returns The generated client's composer, so callers can `.simulate()` or `.send()`.
+   * @throws {GroupTooLargeError} If payload chunks, MBR payment and extra resources exceed `MAX_GROUP_SIZE`.
+   *   A create cannot be split over groups; reduce `extraResources` instead.
    */
   async buildCreateMetadataGroup(args: {
     assetManager: TransactionSignerAccount
@@ -110,7 +386,31 @@ export class AsaMetadataRegistryWrite {
   }): Promise<AsaMetadataRegistryComposer> {
     const opt = args.options ?? writeOptionsDefault
     const chunks = args.metadata.body.chunkedPayload()
+    checkGroupSize({
+      operation: 'arc89CreateMetadata',
+      calls: 1,
+      extraPayload: chunks.length - 1,
+      mbrPayment: 1,
+      extraResources: opt.extraResources,
+    })
+    await this._preflight({ operation: 'create', sender: args.assetManager.addr, assetId: args.metadata.assetId })
+
+    const composer = this.client.newGroup()
+    await this.appendCreateMetadata(composer, {
+      assetManager: args.assetManager,
+      metadata: args.metadata,
+      options: opt,
+    })
+    return composer
+  }
 
+  /** Append the create call, its extra payload and extra resources calls to `composer`. */
+  private async appendCreateMetadata(
+    composer: AsaMetadataRegistryComposer,
+    args: { assetManager: TransactionSignerAccount; metadata: AssetMetadata; options: WriteOptions },
+  ): Promise<void> {
+    const opt = args.options
+    const chunks = args.metadata.body.chunkedPayload()
     const avm = new AsaMetadataRegistryAvmRead({ client: this.client })
     const mbrDelta = await avm.arc89GetMetadataMbrDelta({
       assetId: args.metadata.assetId,
@@ -132,7 +432,6 @@ export class AsaMetadataRegistryWrite {
     if (!args.metadata.isEmpty) baseTxnCount += 1
     const feePool = (baseTxnCount + opt.feePaddingTxns) * minFee
 
-    const composer = this.client.newGroup()
     composer.arc89CreateMetadata({
       args: {
         assetId: args.metadata.assetId,
@@ -159,7 +458,6 @@ export class AsaMetadataRegistryWrite {
       sender: args.assetManager.addr,
       signer: args.assetManager.signer,
     })
-    return composer
   }
 
   /**
@@ -169,6 +467,8 @@ export class AsaMetadataRegistryWrite {
    * an extra simulate read.
    *
    * @returns The generated client's composer, so callers can `.simulate()` or `.send()`.
+   * @throws {GroupTooLargeError} If the group exceeds `MAX_GROUP_SIZE`. A replace cannot be split
+   *   over groups, but a same-size update can be written with `buildReplaceMetadataSliceGroups`.
    */
   async buildReplaceMetadataGroup(args: {
     assetManager: TransactionSignerAccount
@@ -177,6 +477,7 @@ export class AsaMetadataRegistryWrite {
     assumeCurrentSize?: number | null
   }): Promise<AsaMetadataRegistryComposer> {
     const opt = args.options ?? writeOptionsDefault
+    await this._preflight({ operation: 'replace', sender: args.assetManager.addr, assetId: args.metadata.assetId })
     const avm = new AsaMetadataRegistryAvmRead({ client: this.client })
 
     let currentSize = args.assumeCurrentSize ?? null
@@ -204,6 +505,13 @@ export class AsaMetadataRegistryWrite {
     equalSize: boolean
   }): Promise<AsaMetadataRegistryComposer> {
     const chunks = args.metadata.body.chunkedPayload()
+    checkGroupSize({
+      operation: 'arc89ReplaceMetadata',
+      calls: 1,
+      extraPayload: chunks.length - 1,
+      mbrPayment: 0,
+      extraResources: args.options.extraResources,
+    })
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
 
@@ -244,6 +552,13 @@ export class AsaMetadataRegistryWrite {
     options: WriteOptions
   }): Promise<AsaMetadataRegistryComposer> {
     const chunks = args.metadata.body.chunkedPayload()
+    checkGroupSize({
+      operation: 'arc89ReplaceMetadataLarger',
+      calls: 1,
+      extraPayload: chunks.length - 1,
+      mbrPayment: 1,
+      extraResources: args.options.extraResources,
+    })
 
     const avm = new AsaMetadataRegistryAvmRead({ client: this.client })
     const mbrDelta = await avm.arc89GetMetadataMbrDelta({
@@ -291,6 +606,124 @@ export class AsaMetadataRegistryWrite {
     return composer
   }
 
+  /**
+   * Choose how to replace the on-chain metadata with `metadata`.
+   *
+   * Bodies of a different size are always rewritten in full. For a body of the same size, the
+   * bytes that changed are covered with `arc89ReplaceMetadataSlice` calls when that group is
+   * cheaper than the full rewrite. Identical bodies are rewritten in full: a slice write of
+   * unchanged bytes is a no-op on-chain and would not bump the last modified round. Slice writes
+   * that do not fit in one group are not considered.
+   *
+   * Pass `currentBody` and `minFee` (and construct the writer with `params`) to plan offline.
+   * @throws {MetadataNotFoundError} If `currentBody` is not given and the metadata box does not exist.
+   */
+  async planReplaceMetadata(args: {
+    metadata: AssetMetadata
+    currentBody?: Uint8Array | null
+    minFee?: number | bigint | null
+    options?: WriteOptions
+  }): Promise<ReplacePlan> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+
+    let currentBody = args.currentBody ?? null
+    if (currentBody === null) {
+      const box = await parseMetadataBox(this.client, args.metadata.assetId)
+      if (box === null) throw new MetadataNotFoundError(`Asset ${args.metadata.assetId} has no registry metadata`)
+      currentBody = box.body.rawBytes
+    }
+    const minFee = await this._minFee(args.minFee)
+
+    const body = args.metadata.body.rawBytes
+    const chunks = args.metadata.body.chunkedPayload(params)
+    const larger = body.length > currentBody.length
+    const opUps = (appCalls: number, hashes: number) =>
+      estimateHashOpUps({ appCalls, hashes, metadataSize: body.length, pageSize: params.pageSize })
+
+    // Mirrors the fee pools of `buildReplaceSmallerOrEqual` / `buildReplaceLarger`.
+    const fullTxnCount = chunks.length + opt.extraResources + (larger ? 1 : 0)
+    const fullFeeUnits = fullTxnCount + (body.length < currentBody.length ? 1 : 0)
+    const fullPadding = Math.max(opt.feePaddingTxns, opUps(chunks.length + opt.extraResources, 1))
+    const fullReplaceFee = (fullFeeUnits + fullPadding) * minFee
+
+    const full: ReplacePlan = {
+      strategy: larger ? 'replaceLarger' : 'replace',
+      currentSize: currentBody.length,
+      slices: [],
+      txnCount: fullTxnCount,
+      feePaddingTxns: fullPadding,
+      fee: fullReplaceFee,
+      fullReplaceFee,
+      feeSaved: 0,
+    }
+    if (body.length !== currentBody.length || bytesEqual(body, currentBody)) return full
+
+    const slices = planSliceWrites(currentBody, body, params.replacePayloadMaxSize)
+    const sliceTxnCount = slices.length + opt.extraResources
+    if (sliceTxnCount > MAX_GROUP_SIZE) return full
+    const slicePadding = Math.max(opt.feePaddingTxns, opUps(sliceTxnCount, slices.length))
+    const sliceFee = (sliceTxnCount + slicePadding) * minFee
+    if (sliceFee >= fullReplaceFee) return full
+
+    return {
+      strategy: 'slice',
+      currentSize: currentBody.length,
+      slices,
+      txnCount: sliceTxnCount,
+      feePaddingTxns: slicePadding,
+      fee: sliceFee,
+      fullReplaceFee,
+      feeSaved: fullReplaceFee - sliceFee,
+    }
+  }
+
+  /**
+   * Build a replace group with the strategy chosen by `planReplaceMetadata`.
+   *
+   * @returns The composer and the plan it was built from.
+   */
+  async buildOptimizedReplaceMetadataGroup(args: {
+    assetManager: TransactionSignerAccount
+    metadata: AssetMetadata
+    options?: WriteOptions
+    currentBody?: Uint8Array | null
+  }): Promise<{ composer: AsaMetadataRegistryComposer; plan: ReplacePlan }> {
+    const opt = args.options ?? writeOptionsDefault
+    const plan = await this.planReplaceMetadata({
+      metadata: args.metadata,
+      currentBody: args.currentBody,
+      options: opt,
+    })
+
+    if (plan.strategy !== 'slice') {
+      const composer = await this.buildReplaceMetadataGroup({
+        assetManager: args.assetManager,
+        metadata: args.metadata,
+        options: { ...opt, feePaddingTxns: plan.feePaddingTxns },
+        assumeCurrentSize: plan.currentSize,
+      })
+      return { composer, plan }
+    }
+
+    await this._preflight({ operation: 'slice', sender: args.assetManager.addr, assetId: args.metadata.assetId })
+    const composer = this.client.newGroup()
+    plan.slices.forEach((slice, i) => {
+      composer.arc89ReplaceMetadataSlice({
+        args: { assetId: args.metadata.assetId, offset: slice.offset, payload: slice.payload },
+        sender: args.assetManager.addr,
+        signer: args.assetManager.signer,
+        staticFee: microAlgo(i === 0 ? plan.fee : 0),
+      })
+    })
+    appendExtraResources(composer, {
+      count: opt.extraResources,
+      sender: args.assetManager.addr,
+      signer: args.assetManager.signer,
+    })
+    return { composer, plan }
+  }
+
   /**
    * Build a group that replaces a slice of the on-chain metadata.
    *
@@ -298,6 +731,8 @@ export class AsaMetadataRegistryWrite {
    * `arc89ReplaceMetadataSlice` calls in one group, adjusting the offset for each chunk.
    *
    * @returns The generated client's composer, so callers can `.simulate()` or `.send()`.
+   * @throws {GroupTooLargeError} If the calls and extra resources exceed `MAX_GROUP_SIZE`
+   *   (see `buildReplaceMetadataSliceGroups`).
    */
   async buildReplaceMetadataSliceGroup(args: {
     assetManager: TransactionSignerAccount
@@ -311,6 +746,14 @@ export class AsaMetadataRegistryWrite {
     const payloadBytes = toBytes(args.payload, 'payload')
 
     const chunks = chunksForSlice(payloadBytes, params.replacePayloadMaxSize)
+    checkGroupSize({
+      operation: 'arc89ReplaceMetadataSlice',
+      calls: chunks.length,
+      extraPayload: 0,
+      mbrPayment: 0,
+      extraResources: opt.extraResources,
+    })
+    await this._preflight({ operation: 'slice', sender: args.assetManager.addr, assetId: args.assetId })
 
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
@@ -347,6 +790,54 @@ export class AsaMetadataRegistryWrite {
     return composer
   }
 
+  /**
+   * Build slice writes split over as many groups as needed to stay within `MAX_GROUP_SIZE`.
+   *
+   * Each group carries `extraResources` and its own fee pool, and is confirmed on its own: the
+   * metadata is partially updated (and re-hashed) between groups. Only slice writes can be split
+   * this way; create and replace groups must carry the whole payload, since the registry sets the
+   * metadata size and hash in the group that writes it.
+   *
+   * @returns One composer per group, in the order they must be sent.
+   */
+  async buildReplaceMetadataSliceGroups(args: {
+    assetManager: TransactionSignerAccount
+    assetId: bigint | number
+    offset: number
+    payload: Uint8Array | ArrayBuffer | number[]
+    options?: WriteOptions
+  }): Promise<AsaMetadataRegistryComposer[]> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+    const payloadBytes = toBytes(args.payload, 'payload')
+
+    const callsPerGroup = MAX_GROUP_SIZE - opt.extraResources
+    if (callsPerGroup < 1) {
+      checkGroupSize({
+        operation: 'arc89ReplaceMetadataSlice',
+        calls: 1,
+        extraPayload: 0,
+        mbrPayment: 0,
+        extraResources: opt.extraResources,
+      })
+    }
+    const bytesPerGroup = callsPerGroup * params.replacePayloadMaxSize
+
+    const composers: AsaMetadataRegistryComposer[] = []
+    for (let start = 0; start === 0 || start < payloadBytes.length; start += bytesPerGroup) {
+      composers.push(
+        await this.buildReplaceMetadataSliceGroup({
+          assetManager: args.assetManager,
+          assetId: args.assetId,
+          offset: args.offset + start,
+          payload: payloadBytes.slice(start, start + bytesPerGroup),
+          options: opt,
+        }),
+      )
+    }
+    return composers
+  }
+
   /** Build (but do not send) an ARC-89 delete metadata group. */
   async buildDeleteMetadataGroup(args: {
     assetManager: TransactionSignerAccount
@@ -354,6 +845,14 @@ export class AsaMetadataRegistryWrite {
     options?: WriteOptions
   }): Promise<AsaMetadataRegistryComposer> {
     const opt = args.options ?? writeOptionsDefault
+    checkGroupSize({
+      operation: 'arc89DeleteMetadata',
+      calls: 1,
+      extraPayload: 0,
+      mbrPayment: 0,
+      extraResources: opt.extraResources,
+    })
+    await this._preflight({ operation: 'delete', sender: args.assetManager.addr, assetId: args.assetId })
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
     const txnCount = 1 + 1 + opt.extraResources
@@ -374,6 +873,317 @@ export class AsaMetadataRegistryWrite {
     return composer
   }
 
+  // ------------------------------------------------------------------
+  // Cost estimates
+  // ------------------------------------------------------------------
+  //
+  // Every estimate is computed offline when the writer has `params`, and `minFee` (plus the
+  // current metadata size, where relevant) is supplied. Missing values are read on-chain.
+
+  private async _minFee(minFee?: number | bigint | null): Promise<number> {
+    if (minFee !== null && minFee !== undefined) return toNumber(minFee)
+    return toNumber((await this.client.algorand.getSuggestedParams()).minFee)
+  }
+
+  private async _metadataSize(assetId: bigint | number, size?: number | null): Promise<number> {
+    if (size !== null && size !== undefined) return size
+    const avm = new AsaMetadataRegistryAvmRead({ client: this.client })
+    return (await avm.arc89GetMetadataPagination({ assetId })).metadataSize
+  }
+
+  private static costEstimate(args: {
+    appCalls: number
+    groupSize: number
+    innerTxns: number
+    hashes: number
+    metadataSize: number
+    mbrDelta: MbrDelta
+    minFee: number
+    options: WriteOptions
+    params: RegistryParameters
+  }): WriteCostEstimate {
+    const txnCount = args.groupSize + args.innerTxns
+    const available = args.appCalls * APP_CALL_OP_BUDGET
+    const required = args.hashes * metadataHashOpBudget(args.metadataSize, args.params.pageSize)
+    return {
+      groupSize: args.groupSize,
+      txnCount,
+      feePaddingTxns: args.options.feePaddingTxns,
+      minFee: args.minFee,
+      fee: (txnCount + args.options.feePaddingTxns) * args.minFee,
+      mbrDelta: args.mbrDelta,
+      opBudget: {
+        available,
+        required,
+        headroom: available - required,
+        opUps: estimateHashOpUps({
+          appCalls: args.appCalls,
+          hashes: args.hashes,
+          metadataSize: args.metadataSize,
+          pageSize: args.params.pageSize,
+        }),
+      },
+    }
+  }
+
+  /** Estimate the cost of `buildCreateMetadataGroup`. */
+  async estimateCreate(args: {
+    metadata: AssetMetadata
+    options?: WriteOptions
+    minFee?: number | bigint | null
+  }): Promise<WriteCostEstimate> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+    const appCalls = args.metadata.body.chunkedPayload(params).length + opt.extraResources
+    return AsaMetadataRegistryWrite.costEstimate({
+      appCalls,
+      groupSize: appCalls + 1,
+      innerTxns: args.metadata.isEmpty ? 0 : 1,
+      hashes: 1,
+      metadataSize: args.metadata.body.size,
+      mbrDelta: params.mbrDelta({ oldMetadataSize: null, newMetadataSize: args.metadata.body.size }),
+      minFee: await this._minFee(args.minFee),
+      options: opt,
+      params,
+    })
+  }
+
+  /** Estimate the cost of `buildReplaceMetadataGroup` (`replace` or `replaceLarger` by size). */
+  async estimateReplace(args: {
+    metadata: AssetMetadata
+    currentSize?: number | null
+    options?: WriteOptions
+    minFee?: number | bigint | null
+  }): Promise<WriteCostEstimate> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+    const currentSize = await this._metadataSize(args.metadata.assetId, args.currentSize)
+    const newSize = args.metadata.body.size
+    const appCalls = args.metadata.body.chunkedPayload(params).length + opt.extraResources
+    return AsaMetadataRegistryWrite.costEstimate({
+      appCalls,
+      groupSize: appCalls + (newSize > currentSize ? 1 : 0),
+      innerTxns: newSize < currentSize ? 1 : 0,
+      hashes: 1,
+      metadataSize: newSize,
+      mbrDelta: params.mbrDelta({ oldMetadataSize: currentSize, newMetadataSize: newSize }),
+      minFee: await this._minFee(args.minFee),
+      options: opt,
+      params,
+    })
+  }
+
+  /**
+   * Estimate the cost of `buildReplaceMetadataSliceGroup`.
+   *
+   * Each slice call re-hashes the metadata, so the opcode budget depends on `metadataSize`.
+   */
+  async estimateSlice(args: {
+    assetId: bigint | number
+    payload: Uint8Array | ArrayBuffer | number[]
+    metadataSize?: number | null
+    options?: WriteOptions
+    minFee?: number | bigint | null
+  }): Promise<WriteCostEstimate> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+    const slices = chunksForSlice(toBytes(args.payload, 'payload'), params.replacePayloadMaxSize).length
+    return AsaMetadataRegistryWrite.costEstimate({
+      appCalls: slices + opt.extraResources,
+      groupSize: slices + opt.extraResources,
+      innerTxns: 0,
+      hashes: slices,
+      metadataSize: await this._metadataSize(args.assetId, args.metadataSize),
+      mbrDelta: new MbrDelta({ sign: MbrDeltaSign.NULL, amount: 0 }),
+      minFee: await this._minFee(args.minFee),
+      options: opt,
+      params,
+    })
+  }
+
+  /** Estimate the cost of `buildDeleteMetadataGroup` (the MBR delta is the refund). */
+  async estimateDelete(args: {
+    assetId: bigint | number
+    currentSize?: number | null
+    options?: WriteOptions
+    minFee?: number | bigint | null
+  }): Promise<WriteCostEstimate> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+    const currentSize = await this._metadataSize(args.assetId, args.currentSize)
+    return AsaMetadataRegistryWrite.costEstimate({
+      appCalls: 1 + opt.extraResources,
+      groupSize: 1 + opt.extraResources,
+      innerTxns: 1,
+      hashes: 0,
+      metadataSize: currentSize,
+      mbrDelta: params.mbrDelta({ oldMetadataSize: currentSize, newMetadataSize: 0, delete: true }),
+      minFee: await this._minFee(args.minFee),
+      options: opt,
+      params,
+    })
+  }
+
+  /**
+   * Estimate the cost of a flag write (`setReversibleFlag`, `setIrreversibleFlag`, `setImmutable`).
+   *
+   * Flags are part of the metadata header, so the registry re-hashes the metadata.
+   */
+  async estimateFlag(args: {
+    assetId: bigint | number
+    metadataSize?: number | null
+    options?: WriteOptions
+    minFee?: number | bigint | null
+  }): Promise<WriteCostEstimate> {
+    const opt = args.options ?? writeOptionsDefault
+    const params = await this._params()
+    return AsaMetadataRegistryWrite.costEstimate({
+      appCalls: 1 + opt.extraResources,
+      groupSize: 1 + opt.extraResources,
+      innerTxns: 0,
+      hashes: 1,
+      metadataSize: await this._metadataSize(args.assetId, args.metadataSize),
+      mbrDelta: new MbrDelta({ sign: MbrDeltaSign.NULL, amount: 0 }),
+      minFee: await this._minFee(args.minFee),
+      options: opt,
+      params,
+    })
+  }
+
+  // ------------------------------------------------------------------
+  // External signing
+  // ------------------------------------------------------------------
+
+  /**
+   * Export a group built by a `build*Group` method as unsigned transactions with a role manifest.
+   *
+   * Build the group with `externalSigner(address)` as the asset manager when its key is not
+   * available to the SDK.
+   */
+  async exportUnsignedGroup(args: {
+    composer: AsaMetadataRegistryComposer<unknown[]>
+    options?: WriteOptions | null
+  }): Promise<UnsignedWriteGroup> {
+    const opt = args.options ?? writeOptionsDefault
+    return await exportUnsignedGroup({
+      composer: args.composer,
+      algod: this.client.algorand.client.algod,
+      populateAppCallResources: opt.populateAppCallResources,
+    })
+  }
+
+  /** Submit an externally signed group (msgpack bytes or base64) exported by `exportUnsignedGroup`. */
+  async submitSignedGroup(args: {
+    signed: readonly (Uint8Array | string)[]
+    manifest?: readonly UnsignedTxnManifestEntry[] | null
+    waitRounds?: number
+  }): Promise<WriteReceipt<MbrDelta | null>> {
+    return await submitSignedGroup({ algod: this.client.algorand.client.algod, ...args })
+  }
+
+  // ------------------------------------------------------------------
+  // Auto-tuning
+  // ------------------------------------------------------------------
+
+  /**
+   * Simulate a write group and adjust `extraResources` and `feePaddingTxns` until it passes.
+   *
+   * `build` is called with the current options on each attempt (e.g. a `build*Group` method).
+   * - Resources: with `populateAppCallResources`, unnamed resources are allowed in simulation (as
+   *   they are populated at send) and `extraResources` is sized so they fit in the group's
+   *   reference slots; otherwise a missing resource adds one extra resources call.
+   * - Fee and opcode budget failures re-simulate with extra opcode budget to measure the budget
+   *   consumed, and set `feePaddingTxns` to the op-ups it needs (at least one more unit).
+   * Other failures are rethrown as-is. Simulation skips signatures, so the returned composer has
+   * not been signed yet. The send helpers accept `autoTune: true` to tune and send in one call.
+   *
+   * @throws {AutoTuneError} If no attempt passes within `maxAttempts` (default 10).
+   * @throws {GroupTooLargeError} If the extra resources needed do not fit in the group.
+   */
+  async autoTune(args: {
+    build: (options: WriteOptions) => Promise<AsaMetadataRegistryComposer<unknown[]>>
+    options?: WriteOptions
+    maxAttempts?: number
+    simulate?: SimulateOptions | null
+  }): Promise<AutoTuneResult> {
+    const maxAttempts = args.maxAttempts ?? 10
+    let options = { ...(args.options ?? writeOptionsDefault) }
+    let lastError: unknown = null
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const composer = await args.build(options)
+      let group: modelsv2.SimulateTransactionGroupResult | undefined
+      try {
+        const result = await composer.simulate({
+          skipSignatures: true,
+          allowUnnamedResources: options.populateAppCallResources,
+          ...args.simulate,
+        })
+        group = result.simulateResponse.txnGroups[0]
+      } catch (e) {
+        const kind = classifySimulateFailure(e instanceof Error ? e.message : String(e))
+        if (kind === null) throw e
+        lastError = e
+        if (kind === 'resources') {
+          options = { ...options, extraResources: options.extraResources + 1 }
+        } else {
+          const opUps = await this._measureOpUps(await args.build(options), args.simulate)
+          options = { ...options, feePaddingTxns: Math.max(options.feePaddingTxns + 1, opUps) }
+        }
+        continue
+      }
+
+      const extraResources = group && options.populateAppCallResources ? extraResourcesForUnnamed(group) : 0
+      if (extraResources > 0) {
+        options = { ...options, extraResources: options.extraResources + extraResources }
+        continue
+      }
+      return {
+        options,
+        composer,
+        attempts: attempt,
+        appBudgetConsumed: group?.appBudgetConsumed ?? 0,
+        appBudgetAdded: group?.appBudgetAdded ?? 0,
+      }
+    }
+    throw new AutoTuneError(`Write group did not pass simulation after ${maxAttempts} attempts`, {
+      cause: lastError,
+    })
+  }
+
+  /** Op-ups a group needs, from a simulation with extra opcode budget (0 if that simulation fails). */
+  private async _measureOpUps(
+    composer: AsaMetadataRegistryComposer<unknown[]>,
+    simulate?: SimulateOptions | null,
+  ): Promise<number> {
+    try {
+      const result = await composer.simulate({
+        skipSignatures: true,
+        allowUnnamedResources: true,
+        ...simulate,
+        extraOpcodeBudget: MAX_EXTRA_OPCODE_BUDGET,
+      })
+      const group = result.simulateResponse.txnGroups[0]
+      if (!group) return 0
+      const appCalls = group.txnResults.filter((r) => r.txnResult.txn.txn.applicationCall).length
+      return opUpsForBudget(group.appBudgetConsumed ?? 0, appCalls)
+    } catch {
+      return 0
+    }
+  }
+
+  /** Build a group with `options`, auto-tuned by simulation first when `autoTune` is set. */
+  private async _buildGroup(args: {
+    build: (options: WriteOptions) => Promise<AsaMetadataRegistryComposer<unknown[]>>
+    options?: WriteOptions
+    autoTune?: boolean
+  }): Promise<{ composer: AsaMetadataRegistryComposer<unknown[]>; options: WriteOptions; tuned: boolean }> {
+    const options = args.options ?? writeOptionsDefault
+    if (!args.autoTune) return { composer: await args.build(options), options, tuned: false }
+    const tuned = await this.autoTune({ build: args.build, options })
+    return { composer: tuned.composer, options: tuned.options, tuned: true }
+  }
+
   // ------------------------------------------------------------------
   // High-level send helpers
   // ------------------------------------------------------------------
@@ -405,26 +1215,25 @@ export class AsaMetadataRegistryWrite {
     metadata: AssetMetadata
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<MbrDelta> {
+    /** Simulate and tune `options` before sending (see `autoTune`); the receipt carries the tuned options. */
+    autoTune?: boolean
+  }): Promise<WriteReceipt<MbrDelta>> {
     if (args.metadata.flags.irreversible.arc3) {
       const rev = args.metadata.flags.reversible
       if (rev.arc20) validateArc3Properties(args.metadata.body.json, 'arc-20')
       if (rev.arc62) validateArc3Properties(args.metadata.body.json, 'arc-62')
     }
 
-    const composer = await this.buildCreateMetadataGroup({
-      assetManager: args.assetManager,
-      metadata: args.metadata,
-      options: args.options,
-    })
-    const result = await AsaMetadataRegistryWrite.sendGroup({
-      composer,
-      sendParams: args.sendParams,
+    const { composer, options, tuned } = await this._buildGroup({
+      build: (options) =>
+        this.buildCreateMetadataGroup({ assetManager: args.assetManager, metadata: args.metadata, options }),
       options: args.options,
+      autoTune: args.autoTune,
     })
+    const result = await AsaMetadataRegistryWrite.sendGroup({ composer, sendParams: args.sendParams, options })
 
     const [ret] = returnValues(result)
-    return parseMbrDelta(ret)
+    return WriteReceipt.fromResults(result, parseMbrDelta(ret), tuned ? options : null)
   }
 
   async replaceMetadata(args: {
@@ -432,21 +1241,63 @@ export class AsaMetadataRegistryWrite {
     metadata: AssetMetadata
     options?: WriteOptions
     sendParams?: SendParams | null
+    /** Simulate and tune `options` before sending (see `autoTune`); the receipt carries the tuned options. */
+    autoTune?: boolean
     assumeCurrentSize?: number | null
-  }): Promise<MbrDelta> {
-    const composer = await this.buildReplaceMetadataGroup({
-      assetManager: args.assetManager,
-      metadata: args.metadata,
+  }): Promise<WriteReceipt<MbrDelta>> {
+    const { composer, options, tuned } = await this._buildGroup({
+      build: (options) =>
+        this.buildReplaceMetadataGroup({
+          assetManager: args.assetManager,
+          metadata: args.metadata,
+          options,
+          assumeCurrentSize: args.assumeCurrentSize,
+        }),
       options: args.options,
-      assumeCurrentSize: args.assumeCurrentSize,
+      autoTune: args.autoTune,
     })
-    const result = await AsaMetadataRegistryWrite.sendGroup({
-      composer,
-      sendParams: args.sendParams,
+    const result = await AsaMetadataRegistryWrite.sendGroup({ composer, sendParams: args.sendParams, options })
+    const [ret] = returnValues(result)
+    return WriteReceipt.fromResults(result, parseMbrDelta(ret), tuned ? options : null)
+  }
+
+  /**
+   * Replace metadata writing only the changed bytes when cheaper (see `planReplaceMetadata`).
+   *
+   * Slice writes keep the size unchanged, so their receipt carries a zero MBR delta (`MbrDeltaSign.NULL`, amount 0).
+   */
+  async replaceMetadataOptimized(args: {
+    assetManager: TransactionSignerAccount
+    metadata: AssetMetadata
+    options?: WriteOptions
+    sendParams?: SendParams | null
+    /** Simulate and tune `options` before sending (see `autoTune`); the receipt carries the tuned options. */
+    autoTune?: boolean
+    currentBody?: Uint8Array | null
+  }): Promise<{ receipt: WriteReceipt<MbrDelta>; plan: ReplacePlan }> {
+    // Auto-tuning may build several groups; each has its own plan.
+    const plans = new Map<AsaMetadataRegistryComposer<unknown[]>, ReplacePlan>()
+    const { composer, options, tuned } = await this._buildGroup({
+      build: async (options) => {
+        const built = await this.buildOptimizedReplaceMetadataGroup({
+          assetManager: args.assetManager,
+          metadata: args.metadata,
+          options,
+          currentBody: args.currentBody,
+        })
+        plans.set(built.composer, built.plan)
+        return built.composer
+      },
       options: args.options,
+      autoTune: args.autoTune,
     })
-    const [ret] = returnValues(result)
-    return parseMbrDelta(ret)
+    const plan = plans.get(composer)!
+    const result = await AsaMetadataRegistryWrite.sendGroup({ composer, sendParams: args.sendParams, options })
+    const mbrDelta =
+      plan.strategy === 'slice'
+        ? new MbrDelta({ sign: MbrDeltaSign.NULL, amount: 0 })
+        : parseMbrDelta(returnValues(result)[0])
+    return { receipt: WriteReceipt.fromResults(result, mbrDelta, tuned ? options : null), plan }
   }
 
   async replaceMetadataSlice(args: {
@@ -456,39 +1307,188 @@ export class AsaMetadataRegistryWrite {
     payload: Uint8Array | ArrayBuffer | number[]
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<void> {
-    const composer = await this.buildReplaceMetadataSliceGroup({
+    /** Simulate and tune `options` before sending (see `autoTune`); the receipt carries the tuned options. */
+    autoTune?: boolean
+  }): Promise<WriteReceipt<null>> {
+    const { composer, options, tuned } = await this._buildGroup({
+      build: (options) =>
+        this.buildReplaceMetadataSliceGroup({
+          assetManager: args.assetManager,
+          assetId: args.assetId,
+          offset: args.offset,
+          payload: args.payload,
+          options,
+        }),
+      options: args.options,
+      autoTune: args.autoTune,
+    })
+    const result = await AsaMetadataRegistryWrite.sendGroup({ composer, sendParams: args.sendParams, options })
+    return WriteReceipt.fromResults(result, null, tuned ? options : null)
+  }
+
+  /**
+   * Replace a slice of metadata over as many groups as needed (see `buildReplaceMetadataSliceGroups`).
+   *
+   * Groups are sent in order; a failure leaves the earlier groups applied.
+   */
+  async replaceMetadataSliceInGroups(args: {
+    assetManager: TransactionSignerAccount
+    assetId: bigint | number
+    offset: number
+    payload: Uint8Array | ArrayBuffer | number[]
+    options?: WriteOptions
+    sendParams?: SendParams | null
+  }): Promise<WriteReceipt<null>[]> {
+    const composers = await this.buildReplaceMetadataSliceGroups({
       assetManager: args.assetManager,
       assetId: args.assetId,
       offset: args.offset,
       payload: args.payload,
       options: args.options,
     })
-    await AsaMetadataRegistryWrite.sendGroup({
-      composer,
-      sendParams: args.sendParams,
-      options: args.options,
-    })
+    const receipts: WriteReceipt<null>[] = []
+    for (const composer of composers) {
+      const result = await AsaMetadataRegistryWrite.sendGroup({
+        composer,
+        sendParams: args.sendParams,
+        options: args.options,
+      })
+      receipts.push(WriteReceipt.fromResults(result, null))
+    }
+    return receipts
   }
 
-  async deleteMetadata(args: {
+  /** Current header and metadata size, or null if the metadata does not exist. */
+  private async _currentMetadata(
+    assetId: bigint | number,
+    source: MetadataSource,
+  ): Promise<{ header: MetadataHeader; size: number } | null> {
+    if (source === MetadataSource.AVM) {
+      const avm = new AsaMetadataRegistryAvmRead({ client: this.client })
+      const existence = await avm.arc89CheckMetadataExists({ assetId })
+      if (!existence.metadataExists) return null
+      const header = await avm.arc89GetMetadataHeader({ assetId })
+      const pagination = await avm.arc89GetMetadataPagination({ assetId })
+      return { header, size: pagination.metadataSize }
+    }
+    const box = await parseMetadataBox(this.client, assetId)
+    return box === null ? null : { header: box.header, size: box.body.size }
+  }
+
+  /**
+   * Create the metadata, or replace it if it already exists, so that the registry ends up with
+   * `metadata` (body and flags).
+   *
+   * Existence and the current header are read from the metadata box (`source` AUTO or BOX) or by
+   * simulating the registry getters (`source` AVM). Nothing is sent when the on-chain metadata hash
+   * already equals the effective hash of `metadata` (the ASA `am`, if it overrides the ARC-89 hash).
+   * Replace groups also carry the flag calls needed to
+   * match `metadata.flags`: `arc89SetReversibleFlag` for each reversible flag that differs, then
+   * `arc89SetIrreversibleFlag` / `arc89SetImmutable` for irreversible flags to set.
+   * @throws {CreationOnlyFlagError} If the ARC-3 or ARC-89 native flags differ from the on-chain ones.
+   * @throws {InvalidFlagIndexError} If `metadata` clears an irreversible flag set on-chain.
+   * @throws {GroupTooLargeError} If the replace group and its flag calls exceed `MAX_GROUP_SIZE`.
+   */
+  async upsertMetadata(args: {
     assetManager: TransactionSignerAccount
-    assetId: bigint | number
+    metadata: AssetMetadata
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<MbrDelta> {
-    const composer = await this.buildDeleteMetadataGroup({
+    source?: MetadataSource
+  }): Promise<UpsertResult> {
+    const opt = args.options ?? writeOptionsDefault
+    const md = args.metadata
+    const current = await this._currentMetadata(md.assetId, args.source ?? MetadataSource.AUTO)
+    if (current === null) {
+      const receipt = await this.createMetadata({
+        assetManager: args.assetManager,
+        metadata: md,
+        options: opt,
+        sendParams: args.sendParams,
+      })
+      return { action: 'create', receipt, flagUpdates: [] }
+    }
+
+    const params = await this._params()
+    const asset = await new AlgodBoxReader(this.client.algorand.client.algod).getAssetInfo(md.assetId)
+    const desired = new AssetMetadataBox({
+      assetId: md.assetId,
+      header: new MetadataHeader({ ...current.header, flags: md.flags }),
+      body: md.body,
+    })
+    const expectedHash = desired.expectedMetadataHash({
+      params,
+      asaAm: asset.params.metadataHash ?? null,
+      enforceImmutableOnOverride: false,
+      enforceArc89NativeHashMatch: false,
+    })
+    if (bytesEqual(expectedHash, current.header.metadataHash)) {
+      return { action: 'unchanged', receipt: null, flagUpdates: [] }
+    }
+
+    const flagUpdates = flagUpdatesFor(current.header.flags, md.flags)
+    if (md.flags.irreversible.arc3) {
+      for (const update of flagUpdates) {
+        const key = update.kind === 'reversible' && update.value ? ARC3_PROPERTIES_FLAG_TO_KEY[update.flagIndex] : null
+        if (key) validateArc3Properties(md.body.json, key)
+      }
+    }
+    const larger = md.body.size > current.size
+    checkGroupSize({
+      operation: larger ? 'arc89ReplaceMetadataLarger' : 'arc89ReplaceMetadata',
+      calls: 1 + flagUpdates.length,
+      extraPayload: md.body.chunkedPayload().length - 1,
+      mbrPayment: larger ? 1 : 0,
+      extraResources: opt.extraResources,
+    })
+
+    // Flag calls are paid by the replace call's fee pool.
+    const composer = await this.buildReplaceMetadataGroup({
       assetManager: args.assetManager,
-      assetId: args.assetId,
-      options: args.options,
+      metadata: md,
+      options: { ...opt, feePaddingTxns: opt.feePaddingTxns + flagUpdates.length },
+      assumeCurrentSize: current.size,
     })
+    const call = { sender: args.assetManager.addr, signer: args.assetManager.signer, staticFee: microAlgo(0) }
+    for (const update of flagUpdates) {
+      if (update.kind === 'reversible') {
+        composer.arc89SetReversibleFlag({
+          args: { assetId: md.assetId, flag: update.flagIndex, value: update.value },
+          ...call,
+        })
+      } else if (update.kind === 'irreversible') {
+        composer.arc89SetIrreversibleFlag({ args: { assetId: md.assetId, flag: update.flagIndex }, ...call })
+      } else {
+        composer.arc89SetImmutable({ args: { assetId: md.assetId }, ...call })
+      }
+    }
+
     const result = await AsaMetadataRegistryWrite.sendGroup({
       composer,
       sendParams: args.sendParams,
+      options: opt,
+    })
+    const [ret] = returnValues(result)
+    return { action: 'replace', receipt: WriteReceipt.fromResults(result, parseMbrDelta(ret)), flagUpdates }
+  }
+
+  async deleteMetadata(args: {
+    assetManager: TransactionSignerAccount
+    assetId: bigint | number
+    options?: WriteOptions
+    sendParams?: SendParams | null
+    /** Simulate and tune `options` before sending (see `autoTune`); the receipt carries the tuned options. */
+    autoTune?: boolean
+  }): Promise<WriteReceipt<MbrDelta>> {
+    const { composer, options, tuned } = await this._buildGroup({
+      build: (options) =>
+        this.buildDeleteMetadataGroup({ assetManager: args.assetManager, assetId: args.assetId, options }),
       options: args.options,
+      autoTune: args.autoTune,
     })
+    const result = await AsaMetadataRegistryWrite.sendGroup({ composer, sendParams: args.sendParams, options })
     const [ret] = returnValues(result)
-    return parseMbrDelta(ret)
+    return WriteReceipt.fromResults(result, parseMbrDelta(ret), tuned ? options : null)
   }
 
   // ------------------------------------------------------------------
@@ -502,19 +1502,31 @@ export class AsaMetadataRegistryWrite {
     value: boolean
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<void> {
+  }): Promise<WriteReceipt<null>> {
     if (!(flagConsts.REV_FLG_ARC20 <= args.flagIndex && args.flagIndex <= flagConsts.REV_FLG_RESERVED_7)) {
       throw new InvalidFlagIndexError(`Invalid reversible flag index: ${args.flagIndex}, must be in [0, 7]`)
     }
 
+    const opt = args.options ?? writeOptionsDefault
+    checkGroupSize({
+      operation: 'arc89SetReversibleFlag',
+      calls: 1,
+      extraPayload: 0,
+      mbrPayment: 0,
+      extraResources: opt.extraResources,
+    })
+    const auth = await this._preflight({
+      operation: 'setReversibleFlag',
+      sender: args.assetManager.addr,
+      assetId: args.assetId,
+    })
+
     if (args.value && args.flagIndex in ARC3_PROPERTIES_FLAG_TO_KEY) {
-      const box = await parseMetadataBox(this.client, args.assetId)
+      const box = auth ? auth.box : await parseMetadataBox(this.client, args.assetId)
       if (box !== null && box.header.flags.irreversible.arc3) {
         validateArc3Properties(box.body.json, ARC3_PROPERTIES_FLAG_TO_KEY[args.flagIndex]!)
       }
     }
-
-    const opt = args.options ?? writeOptionsDefault
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
     const feePool = (1 + opt.extraResources + opt.feePaddingTxns) * minFee
@@ -533,7 +1545,7 @@ export class AsaMetadataRegistryWrite {
     })
 
     const sendParams = args.sendParams ?? createSendParams(opt)
-    await composer.send(sendParams)
+    return WriteReceipt.fromResults(await composer.send(sendParams), null)
   }
 
   async setIrreversibleFlag(args: {
@@ -542,13 +1554,29 @@ export class AsaMetadataRegistryWrite {
     flagIndex: number
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<void> {
+  }): Promise<WriteReceipt<null>> {
+    if (args.flagIndex === flagConsts.IRR_FLG_ARC3 || args.flagIndex === flagConsts.IRR_FLG_ARC89) {
+      throw new CreationOnlyFlagError(`Irreversible flag ${args.flagIndex} can only be set at metadata creation`)
+    }
     if (!(flagConsts.IRR_FLG_ARC54 <= args.flagIndex && args.flagIndex <= flagConsts.IRR_FLG_IMMUTABLE)) {
       throw new InvalidFlagIndexError(
         `Invalid irreversible flag index: ${args.flagIndex}, must be in [2, 7]. Flags 0, 1 are creation only.`,
       )
     }
     const opt = args.options ?? writeOptionsDefault
+    checkGroupSize({
+      operation: 'arc89SetIrreversibleFlag',
+      calls: 1,
+      extraPayload: 0,
+      mbrPayment: 0,
+      extraResources: opt.extraResources,
+    })
+    await this._preflight({
+      operation: 'setIrreversibleFlag',
+      sender: args.assetManager.addr,
+      assetId: args.assetId,
+      flagIndex: args.flagIndex,
+    })
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
     const feePool = (1 + opt.extraResources + opt.feePaddingTxns) * minFee
@@ -567,7 +1595,7 @@ export class AsaMetadataRegistryWrite {
     })
 
     const sendParams = args.sendParams ?? createSendParams(opt)
-    await composer.send(sendParams)
+    return WriteReceipt.fromResults(await composer.send(sendParams), null)
   }
 
   async setImmutable(args: {
@@ -575,8 +1603,16 @@ export class AsaMetadataRegistryWrite {
     assetId: bigint | number
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<void> {
+  }): Promise<WriteReceipt<null>> {
     const opt = args.options ?? writeOptionsDefault
+    checkGroupSize({
+      operation: 'arc89SetImmutable',
+      calls: 1,
+      extraPayload: 0,
+      mbrPayment: 0,
+      extraResources: opt.extraResources,
+    })
+    await this._preflight({ operation: 'setImmutable', sender: args.assetManager.addr, assetId: args.assetId })
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
     const feePool = (1 + opt.extraResources + opt.feePaddingTxns) * minFee
@@ -594,7 +1630,7 @@ export class AsaMetadataRegistryWrite {
       signer: args.assetManager.signer,
     })
     const sendParams = args.sendParams ?? createSendParams(opt)
-    await composer.send(sendParams)
+    return WriteReceipt.fromResults(await composer.send(sendParams), null)
   }
 
   async migrateMetadata(args: {
@@ -603,8 +1639,16 @@ export class AsaMetadataRegistryWrite {
     newRegistryId: bigint | number
     options?: WriteOptions
     sendParams?: SendParams | null
-  }): Promise<void> {
+  }): Promise<WriteReceipt<null>> {
     const opt = args.options ?? writeOptionsDefault
+    checkGroupSize({
+      operation: 'arc89MigrateMetadata',
+      calls: 1,
+      extraPayload: 0,
+      mbrPayment: 0,
+      extraResources: opt.extraResources,
+    })
+    await this._preflight({ operation: 'migrate', sender: args.assetManager.addr, assetId: args.assetId })
     const sp = await this.client.algorand.getSuggestedParams()
     const minFee = toNumber(sp.minFee)
     const feePool = (1 + opt.extraResources + opt.feePaddingTxns) * minFee
@@ -622,6 +1666,115 @@ export class AsaMetadataRegistryWrite {
       signer: args.assetManager.signer,
     })
     const sendParams = args.sendParams ?? createSendParams(opt)
-    await composer.send(sendParams)
+    return WriteReceipt.fromResults(await composer.send(sendParams), null)
+  }
+
+  // ------------------------------------------------------------------
+  // ASA creation
+  // ------------------------------------------------------------------
+
+  /** Id of the next asset created, if its creation is the next transaction committed. */
+  private async _nextAssetId(): Promise<bigint> {
+    const algod = this.client.algorand.client.algod
+    const status = await algod.status().do()
+    const { block } = await algod.block(status.lastRound).headerOnly(true).do()
+    return block.header.txnCounter + 1n
+  }
+
+  /**
+   * Create an ARC-89 native ASA and its registry metadata.
+   *
+   * The asset manager creates and manages the ASA, whose `url` is the registry's ARC-90 partial URI
+   * (read with `arc89GetMetadataPartialUri` unless `partialUri` is given). `metadata` is bound to
+   * the new asset id and flagged ARC-89 native; its own `assetId` is ignored.
+   *
+   * By default the ASA is created first and the metadata once its id is known. With `precomputeAm`,
+   * the ASA `am` is set to the ARC-89 metadata hash, which covers the asset id: the id is predicted
+   * from the ledger's transaction counter and the ASA is created in the metadata create group, so a
+   * wrong prediction fails the whole group. The group is rebuilt only when the transaction counter
+   * moved past the predicted id (any transaction uses up a counter value), up to `maxAttempts`
+   * (default 3). Metadata with `am` must be flagged immutable.
+   * @throws {AsaMetadataCreationError} If, without `precomputeAm`, the ASA was created but its metadata was not.
+   * @throws {AmOverrideNotImmutableError} If, with `precomputeAm`, the metadata is not flagged immutable.
+   * @throws {GroupTooLargeError} If, with `precomputeAm`, the asset creation and create group exceed `MAX_GROUP_SIZE`.
+   */
+  async createAsaWithMetadata(args: {
+    assetManager: TransactionSignerAccount
+    asset: AsaCreateParams
+    metadata: AssetMetadata
+    partialUri?: string | Arc90Uri | null
+    precomputeAm?: boolean
+    maxAttempts?: number
+    options?: WriteOptions
+    sendParams?: SendParams | null
+  }): Promise<AsaWithMetadata> {
+    const opt = args.options ?? writeOptionsDefault
+    const partialUri =
+      args.partialUri ?? (await new AsaMetadataRegistryAvmRead({ client: this.client }).arc89GetMetadataPartialUri())
+    const asset = {
+      ...args.asset,
+      sender: args.assetManager.addr,
+      signer: args.assetManager.signer,
+      manager: args.assetManager.addr,
+      url: typeof partialUri === 'string' ? partialUri : partialUri.toUri(),
+    }
+    const flags = new MetadataFlags({
+      reversible: args.metadata.flags.reversible,
+      irreversible: new IrreversibleFlags({ ...args.metadata.flags.irreversible, arc89Native: true }),
+    })
+    const bind = (assetId: bigint) =>
+      new AssetMetadata({ assetId, body: args.metadata.body, flags, deprecatedBy: args.metadata.deprecatedBy })
+
+    if (!args.precomputeAm) {
+      const { assetId } = await this.client.algorand.send.assetCreate(asset)
+      try {
+        const receipt = await this.createMetadata({
+          assetManager: args.assetManager,
+          metadata: bind(assetId),
+          options: opt,
+          sendParams: args.sendParams,
+        })
+        return { assetId, receipt }
+      } catch (e) {
+        throw new AsaMetadataCreationError(assetId, { cause: e })
+      }
+    }
+
+    if (!flags.irreversible.immutable) {
+      throw new AmOverrideNotImmutableError('ASA `am` override requires immutable metadata')
+    }
+    checkGroupSize({
+      operation: 'assetCreate + arc89CreateMetadata',
+      calls: 2,
+      extraPayload: args.metadata.body.chunkedPayload().length - 1,
+      mbrPayment: 1,
+      extraResources: opt.extraResources,
+    })
+
+    let assetId = await this._nextAssetId()
+    for (let attempt = 1; ; attempt++) {
+      const metadata = bind(assetId)
+      const composer = this.client.newGroup()
+      const assetCreate = await this.client.algorand.createTransaction.assetCreate({
+        ...asset,
+        metadataHash: metadata.computeArc89MetadataHash(),
+      })
+      composer.addTransaction(assetCreate, args.assetManager.signer)
+      await this.appendCreateMetadata(composer, { assetManager: args.assetManager, metadata, options: opt })
+      try {
+        const result = await AsaMetadataRegistryWrite.sendGroup({
+          composer,
+          sendParams: args.sendParams,
+          options: opt,
+        })
+        const [ret] = returnValues(result)
+        return { assetId, receipt: WriteReceipt.fromResults(result, parseMbrDelta(ret)) }
+      } catch (e) {
+        // Retry only if the counter moved past the predicted id; otherwise the group failed for another reason.
+        const next = await this._nextAssetId()
+        if (next <= assetId || attempt >= (args.maxAttempts ?? 3)) throw e
+        assetId = next
+      }
+    }
   }
 }
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for src/write/accounts module.
+ *
+ * Tests cover:
+ * - multisigAssetManager (in-process signing, key validation, external collection)
+ * - logicSigAssetManager
+ * - MultisigSignatureCollector (one signer at a time, partial blobs, sender checks)
+ * - Senders of write groups built for multisig and logic-signature managers
+ */
+
+import { describe, expect, test } from 'vitest'
+import algosdk from 'algosdk'
+import {
+  MultisigSignatureCollector,
+  MultisigSignatureError,
+  logicSigAssetManager,
+  multisigAssetManager,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { createOfflineWriter, exportOfflineDelete, offlineWriteOptions } from './helpers'
+
+const members = [algosdk.generateAccount(), algosdk.generateAccount(), algosdk.generateAccount()]
+const metadata: algosdk.MultisigMetadata = { version: 1, threshold: 2, addrs: members.map((m) => m.addr) }
+const msigAddress = algosdk.multisigAddress(metadata).toString()
+const msigManager = multisigAssetManager({ metadata })
+
+const subsigCount = (blob: Uint8Array) =>
+  algosdk.decodeSignedTransaction(blob).msig!.subsig.filter((s) => s.s !== undefined).length
+
+// ================================================================
+// Asset manager accounts
+// ================================================================
+
+describe('multisig asset manager', () => {
+  // Tests for multisigAssetManager.
+  test('group is sent by the multisig', async () => {
+    // Test that every transaction, including the fee pool, is sent by the multisig address.
+    const { group } = await exportOfflineDelete(msigManager)
+    expect(group.manifest.map((e) => e.sender)).toEqual([msigAddress, msigAddress])
+    expect(group.manifest[0]!.fee).toBeGreaterThan(0n)
+  })
+
+  test('signs in process with threshold keys', async () => {
+    // Test that a manager with enough keys signs the whole group.
+    const manager = multisigAssetManager({ metadata, signingKeys: [members[0]!.sk, members[2]!.sk] })
+    const { composer } = await exportOfflineDelete(manager)
+    const { atc } = await (await composer.composer()).build()
+    const signed = await atc.gatherSignatures()
+
+    expect(manager.addr.toString()).toBe(msigAddress)
+    expect(signed.map(subsigCount)).toEqual([2, 2])
+  })
+
+  test('key validation', () => {
+    // Test that too few keys or keys of non-members are rejected.
+    expect(() => multisigAssetManager({ metadata, signingKeys: [members[0]!.sk] })).toThrow(/needs 2 signing keys/)
+    expect(() =>
+      multisigAssetManager({ metadata, signingKeys: [members[0]!.sk, algosdk.generateAccount().sk] }),
+    ).toThrow(MultisigSignatureError)
+  })
+
+  test('external signer refuses to sign', async () => {
+    // Test that a manager without keys requires external signature collection.
+    const manager = multisigAssetManager({ metadata })
+    await expect(manager.signer([], [])).rejects.toThrow(/collected externally/)
+  })
+})
+
+describe('logic sig asset manager', () => {
+  // Tests for logicSigAssetManager.
+  test('group is sent and signed by the logic sig', async () => {
+    // Test that transactions are sent by the program address and carry the logic signature.
+    const lsig = new algosdk.LogicSigAccount(new Uint8Array([0x06, 0x81, 0x01]))
+    const writer = createOfflineWriter()
+    const composer = await writer.buildReplaceMetadataSliceGroup({
+      assetManager: logicSigAssetManager(lsig),
+      assetId: 42n,
+      offset: 0,
+      payload: new Uint8Array([1]),
+      options: { ...offlineWriteOptions, extraResources: 1 },
+    })
+    const { atc } = await (await composer.composer()).build()
+    const signed = (await atc.gatherSignatures()).map((blob) => algosdk.decodeSignedTransaction(blob))
+
+    expect(signed.map((s) => s.txn.sender.toString())).toEqual([lsig.address().toString(), lsig.address().toString()])
+    expect(signed.every((s) => s.lsig !== undefined)).toBe(true)
+  })
+})
+
+// ================================================================
+// Signature collection
+// ================================================================
+
+describe('multisig signature collector', () => {
+  // Tests for MultisigSignatureCollector.
+  test('collects signatures one at a time', async () => {
+    // Test that signatures from separate signers are merged until the threshold is met.
+    const { group } = await exportOfflineDelete(msigManager)
+    const collector = new MultisigSignatureCollector({ metadata, group })
+
+    collector.sign(members[1]!.sk)
+    expect(collector.signers).toEqual([members[1]!.addr.toString()])
+    expect(collector.isComplete).toBe(false)
+    expect(() => collector.toSignedBlobs()).toThrow(/has 1 of 2 signatures/)
+
+    // Second member signs offline and returns base64 partial blobs.
+    const partial = group.transactions.map((txn) =>
+      Buffer.from(algosdk.signMultisigTransaction(txn, metadata, members[0]!.sk).blob).toString('base64'),
+    )
+    collector.addPartial(partial)
+
+    expect(collector.isComplete).toBe(true)
+    expect(new Set(collector.signers)).toEqual(new Set([members[0]!.addr.toString(), members[1]!.addr.toString()]))
+    expect(collector.toSignedBlobs().map(subsigCount)).toEqual([2, 2])
+  })
+
+  test('rejects mismatched transactions', async () => {
+    // Test that groups not sent by the multisig and unrelated partial blobs are rejected.
+    const { group } = await exportOfflineDelete(msigManager)
+    const other = await exportOfflineDelete(multisigAssetManager({ metadata: { ...metadata, threshold: 1 } }))
+
+    expect(() => new MultisigSignatureCollector({ metadata, group: other.group })).toThrow(/not by multisig/)
+    const collector = new MultisigSignatureCollector({ metadata, group })
+    expect(() => collector.addPartial([new Uint8Array()])).toThrow(/Expected 2 transactions/)
+    const unrelated = other.group.transactions.map(
+      (txn) => algosdk.signMultisigTransaction(txn, { ...metadata, threshold: 1 }, members[0]!.sk).blob,
+    )
+    expect(() => collector.addPartial(unrelated)).toThrow(MultisigSignatureError)
+  })
+})
@@ -9,6 +9,7 @@
  * - AlgodBoxReader.getAssetInfo
  * - AlgodBoxReader.getAssetUrl
  * - AlgodBoxReader.resolveMetadataUriFromAsset
+ * - AlgodBoxReader.iterateAssetIds / iterateMetadataBoxes
  */
 
 import { describe, expect, test, vi, beforeAll, beforeEach } from 'vitest'
@@ -497,6 +498,87 @@ describe('resolve metadata uri from asset', () => {
   })
 })
 
+describe('iterate registry boxes', () => {
+  // Tests for AlgodBoxReader.iterateAssetIds / iterateMetadataBoxes
+  const mockBoxesPages = (pages: { names: Uint8Array[]; next?: string }[]) => {
+    const queries: Record<string, unknown>[] = []
+    let pageIndex = 0
+    algod.getApplicationBoxes = vi.fn().mockImplementation(() => {
+      const request = {
+        query: {} as Record<string, unknown>,
+        max: vi.fn((max: number) => {
+          request.query.max = max
+          return request
+        }),
+        doRaw: vi.fn(async () => {
+          queries.push({ ...request.query })
+          const page = pages[pageIndex++]!
+          const json = {
+            boxes: page.names.map((n) => ({ name: Buffer.from(n).toString('base64') })),
+            ...(page.next ? { 'next-token': page.next } : {}),
+          }
+          return new TextEncoder().encode(JSON.stringify(json))
+        }),
+      }
+      return request
+    })
+    return queries
+  }
+
+  const collect = async <T>(it: AsyncIterable<T>): Promise<T[]> => {
+    const out: T[] = []
+    for await (const v of it) out.push(v)
+    return out
+  }
+
+  test('iterate asset ids single page', async () => {
+    // Test that box names are decoded to asset ids and non-metadata keys are skipped.
+    mockBoxesPages([{ names: [assetIdToBoxName(1n), new TextEncoder().encode('other'), assetIdToBoxName(2n)] }])
+
+    const ids = await collect(boxReader.iterateAssetIds({ appId: 123 }))
+
+    expect(ids).toEqual([1n, 2n])
+    expect(algod.getApplicationBoxes).toHaveBeenCalledWith(123n)
+  })
+
+  test('iterate asset ids follows next token', async () => {
+    // Test paging with max + next.
+    const queries = mockBoxesPages([
+      { names: [assetIdToBoxName(1n)], next: 'token-1' },
+      { names: [assetIdToBoxName(2n)] },
+    ])
+
+    const ids = await collect(boxReader.iterateAssetIds({ appId: 123, pageSize: 1 }))
+
+    expect(ids).toEqual([1n, 2n])
+    expect(queries).toEqual([{ max: 1 }, { max: 1, next: 'token-1' }])
+  })
+
+  test('iterate asset ids requires box listing', async () => {
+    // Test that enumeration fails clearly without getApplicationBoxes.
+    await expect(collect(boxReader.iterateAssetIds({ appId: 123 }))).rejects.toThrow(/getApplicationBoxes/)
+  })
+
+  test('iterate metadata boxes skips deleted boxes', async () => {
+    // Test that boxes are fetched and parsed, skipping boxes deleted after listing.
+    mockBoxesPages([{ names: [assetIdToBoxName(1n), assetIdToBoxName(2n)] }])
+    const body = new TextEncoder().encode('{"a":1}')
+    algod.getApplicationBoxByName = vi.fn().mockImplementation((_appId: bigint, name: Uint8Array) => ({
+      do:
+        name[7] === 1
+          ? vi.fn().mockResolvedValue(createMockBoxResponse(body))
+          : vi.fn().mockRejectedValue(new Error('Error 404: Not found')),
+    }))
+
+    const boxes = await collect(boxReader.iterateMetadataBoxes({ appId: 123 }))
+
+    expect(boxes).toHaveLength(1)
+    expect(boxes[0]).toBeInstanceOf(AssetMetadataBox)
+    expect(boxes[0]!.assetId).toBe(1n)
+    expect(boxes[0]!.body.rawBytes).toEqual(body)
+  })
+})
+
 // ================================================================
 // AlgodBoxReader Integration Tests
 // ================================================================
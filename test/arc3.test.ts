@@ -0,0 +1,377 @@
+/**
+ * Unit tests for src/arc3 module.
+ *
+ * Tests cover:
+ * - sriSha256
+ * - Arc3MetadataBuilder setters, properties and localization
+ * - ARC-20 / ARC-62 properties and reversible flags
+ * - build() flags and validation errors
+ * - importArc3Metadata (URI resolution, hash verification with and without extra_metadata)
+ * - exportArc3Metadata (am with and without extra_metadata, ARC-3 / ARC-89 hash consistency)
+ */
+
+import { createHash } from 'crypto'
+import { describe, expect, test } from 'vitest'
+import algosdk from 'algosdk'
+import {
+  Arc3HashMismatchError,
+  Arc3JsonFetcher,
+  Arc3MetadataBuilder,
+  AsaNotFoundError,
+  AssetMetadata,
+  AssetMetadataRecord,
+  InvalidArc3PropertiesError,
+  MetadataArc3Error,
+  MetadataHashMismatchError,
+  MetadataHeader,
+  computeArc3MetadataHash,
+  exportArc3Metadata,
+  importArc3Metadata,
+  resolveArc3Uri,
+  sriSha256,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { InMemoryRegistry } from '@algorandfoundation/asa-metadata-registry-sdk/testing'
+
+const image = new TextEncoder().encode('not really a png')
+const imageDigest = `sha256-${createHash('sha256').update(image).digest('base64')}`
+
+// ================================================================
+// Helpers
+// ================================================================
+
+describe('sri sha256', () => {
+  // Tests for sriSha256.
+  test('digest', () => {
+    // Test that the digest is the base64 SHA-256 of the content with the sha256- prefix.
+    expect(sriSha256(image)).toBe(imageDigest)
+    expect(sriSha256(new Uint8Array())).toBe('sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=')
+  })
+})
+
+// ================================================================
+// Builder
+// ================================================================
+
+describe('arc3 metadata builder', () => {
+  // Tests for Arc3MetadataBuilder.
+  test('setters', () => {
+    // Test that every setter writes its ARC-3 field and null removes it.
+    const json = new Arc3MetadataBuilder()
+      .name('My NFT')
+      .decimals(0)
+      .description('A token')
+      .image('ipfs://image', { bytes: image, mimetype: 'image/png' })
+      .backgroundColor('#00ff00')
+      .externalUrl('https://example.com')
+      .externalUrlIntegrity(imageDigest)
+      .externalUrlMimetype('text/html')
+      .animationUrl('https://example.com/a.mp4')
+      .animationUrlIntegrity(imageDigest)
+      .animationUrlMimetype('video/mp4')
+      .extraMetadata(new Uint8Array([1, 2, 3]))
+      .localization({ uri: 'ipfs://loc/{locale}.json', default: 'en', locales: ['en', 'fr'] })
+      .property('traits', { color: 'red' })
+      .description(null)
+      .toJson()
+
+    expect(json).toEqual({
+      name: 'My NFT',
+      decimals: 0,
+      image: 'ipfs://image',
+      image_integrity: imageDigest,
+      image_mimetype: 'image/png',
+      background_color: '00ff00',
+      external_url: 'https://example.com',
+      external_url_integrity: imageDigest,
+      external_url_mimetype: 'text/html',
+      animation_url: 'https://example.com/a.mp4',
+      animation_url_integrity: imageDigest,
+      animation_url_mimetype: 'video/mp4',
+      extra_metadata: 'AQID',
+      localization: { uri: 'ipfs://loc/{locale}.json', default: 'en', locales: ['en', 'fr'] },
+      properties: { traits: { color: 'red' } },
+    })
+  })
+
+  test('image integrity from bytes', () => {
+    // Test that the image integrity helper hashes the image content.
+    const builder = new Arc3MetadataBuilder().imageIntegrityFromBytes(image)
+    expect(builder.toJson().image_integrity).toBe(imageDigest)
+  })
+
+  test('properties', () => {
+    // Test that properties are merged, removed and dropped once empty.
+    const builder = new Arc3MetadataBuilder({ properties: { a: 1 } }).properties({ b: 2, a: null })
+    expect(builder.toJson().properties).toEqual({ b: 2 })
+    expect(builder.property('b', null).toJson()).toEqual({})
+  })
+
+  test('initial json is copied', () => {
+    // Test that the builder does not mutate the initial object and toJson returns a copy.
+    const initial = { name: 'A', properties: { a: 1 } }
+    const builder = new Arc3MetadataBuilder(initial).property('b', 2)
+    builder.toJson().properties!['c'] = 3
+    expect(initial).toEqual({ name: 'A', properties: { a: 1 } })
+    expect(builder.toJson().properties).toEqual({ a: 1, b: 2 })
+  })
+})
+
+describe('arc3 properties flags', () => {
+  // Tests for the ARC-20 / ARC-62 helpers.
+  test('arc20 and arc62', () => {
+    // Test that the helpers set the properties and the matching reversible flags.
+    const builder = new Arc3MetadataBuilder().name('Smart').arc20(123n).arc62(456)
+    expect(builder.toJson().properties).toEqual({
+      'arc-20': { 'application-id': 123 },
+      'arc-62': { 'application-id': 456 },
+    })
+    expect(builder.reversibleFlags.arc20).toBe(true)
+    expect(builder.reversibleFlags.arc62).toBe(true)
+
+    builder.arc20(null)
+    expect(builder.reversibleFlags.arc20).toBe(false)
+    expect(builder.build({ assetId: 1n }).flags.reversible.arc62).toBe(true)
+  })
+
+  test('invalid application id', () => {
+    // Test that non-positive or unsafe app IDs are rejected.
+    expect(() => new Arc3MetadataBuilder().arc20(0)).toThrow(InvalidArc3PropertiesError)
+    expect(() => new Arc3MetadataBuilder().arc62(2n ** 60n)).toThrow(InvalidArc3PropertiesError)
+    expect(() => new Arc3MetadataBuilder().property('arc-62', { 'application-id': -1 }).build({ assetId: 1n })).toThrow(
+      InvalidArc3PropertiesError,
+    )
+  })
+})
+
+describe('arc3 metadata builder build', () => {
+  // Tests for Arc3MetadataBuilder.build.
+  test('flags and body', () => {
+    // Test that the metadata is flagged ARC-3 and keeps the requested irreversible flags.
+    const builder = new Arc3MetadataBuilder().name('My NFT').decimals(0)
+    const metadata = builder.build({ assetId: 42n, irreversible: { immutable: true } })
+
+    expect(metadata.assetId).toBe(42n)
+    expect(metadata.flags.irreversible.arc3).toBe(true)
+    expect(metadata.flags.irreversible.immutable).toBe(true)
+    expect(metadata.flags.reversible.byteValue).toBe(0)
+    expect(metadata.body.json).toEqual({ name: 'My NFT', decimals: 0 })
+  })
+
+  test('invalid metadata', () => {
+    // Test that build lists every ARC-3 issue.
+    const builder = new Arc3MetadataBuilder().backgroundColor('red').imageIntegrity('sha256-abc')
+    expect(() => builder.build({ assetId: 1n })).toThrow(MetadataArc3Error)
+    expect(() => builder.build({ assetId: 1n })).toThrow(/background_color .*; image_integrity /)
+  })
+})
+
+// ================================================================
+// Import
+// ================================================================
+
+describe('import arc3 metadata', () => {
+  // Tests for importArc3Metadata.
+  const MANAGER = algosdk.generateAccount().addr.toString()
+  const encode = (obj: unknown) => new TextEncoder().encode(JSON.stringify(obj, null, 2))
+  const plain = encode({
+    name: 'Legacy',
+    decimals: 0,
+    background_color: '#FFFFFF',
+    properties: { 'arc-62': { 'application-id': 7 } },
+  })
+  const extra = encode({ name: 'Extra', extra_metadata: 'iHcUslDaL/jEM/oTxqEX++4CS8o3+IZp7/V5Rgchqwc=' })
+
+  /** Local stand-in for IPFS, recording requested URIs. */
+  const localFetcher = (files: Record<string, Uint8Array>) => {
+    const requested: string[] = []
+    const fetcher: Arc3JsonFetcher = {
+      fetch: async (uri) => {
+        requested.push(uri)
+        const file = files[uri]
+        if (!file) throw new Error(`${uri} not found`)
+        return file
+      },
+    }
+    return { fetcher, requested }
+  }
+
+  const setup = (args: { url: string; metadataHash?: Uint8Array }) => {
+    const registry = new InMemoryRegistry({ appId: 1000n })
+    registry.createAsset({ assetId: 42n, manager: MANAGER, url: args.url, metadataHash: args.metadataHash })
+    return registry.algod
+  }
+
+  test('resolve uri', () => {
+    // Test that {id} is replaced by the decimal asset ID and the #arc3 fragment is removed.
+    expect(resolveArc3Uri('https://example.com/{id}.json#arc3', 42n)).toBe('https://example.com/42.json')
+    expect(resolveArc3Uri('ipfs://Qm/meta.json', 1)).toBe('ipfs://Qm/meta.json')
+  })
+
+  test('sha256 hash', async () => {
+    // Test that a plain JSON file verified with sha256 is imported with its original bytes and flags.
+    const algod = setup({ url: 'ipfs://Qm/{id}.json#arc3', metadataHash: computeArc3MetadataHash(plain) })
+    const { fetcher, requested } = localFetcher({ 'ipfs://Qm/42.json': plain })
+
+    const result = await importArc3Metadata({ algod, assetId: 42n, fetcher })
+
+    expect(requested).toEqual(['ipfs://Qm/42.json'])
+    expect(result.uri).toBe('ipfs://Qm/42.json')
+    expect(result.hashCheck?.scheme).toBe('sha256')
+    expect(result.metadata.body.rawBytes).toEqual(plain)
+    expect(result.metadata.flags.irreversible.arc3).toBe(true)
+    expect(result.metadata.flags.reversible.arc62).toBe(true)
+    expect(result.json.name).toBe('Legacy')
+    expect(result.issues.map((i) => i.path)).toEqual(['background_color'])
+  })
+
+  test('extra metadata hash', async () => {
+    // Test that JSON with extra_metadata is verified with the SHA-512/256 scheme.
+    const algod = setup({ url: 'https://example.com/extra.json', metadataHash: computeArc3MetadataHash(extra) })
+    const { fetcher } = localFetcher({ 'https://example.com/extra.json': extra })
+
+    const result = await importArc3Metadata({ algod, assetId: 42n, fetcher, irreversible: { immutable: true } })
+    expect(result.hashCheck?.scheme).toBe('extra_metadata')
+    expect(result.metadata.flags.irreversible.immutable).toBe(true)
+  })
+
+  test('hash mismatch', async () => {
+    // Test that a file that does not hash to am is rejected with both hashes.
+    const am = computeArc3MetadataHash(plain)
+    const algod = setup({ url: 'ipfs://Qm/{id}.json', metadataHash: am })
+    const { fetcher } = localFetcher({ 'ipfs://Qm/42.json': extra, 'ipfs://other.json': plain })
+
+    const error = await importArc3Metadata({ algod, assetId: 42n, fetcher }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(Arc3HashMismatchError)
+    expect(error).toBeInstanceOf(MetadataHashMismatchError)
+    const mismatch = error as Arc3HashMismatchError
+    expect(mismatch.scheme).toBe('extra_metadata')
+    expect(mismatch.expected).toEqual(am)
+    expect(mismatch.computed).toEqual(computeArc3MetadataHash(extra))
+    expect(mismatch.message).toContain(Buffer.from(am).toString('hex'))
+
+    const other = await importArc3Metadata({ algod, assetId: 42n, fetcher, uri: 'ipfs://other.json' })
+    expect(other.uri).toBe('ipfs://other.json')
+  })
+
+  test('missing am or url', async () => {
+    // Test that ASAs without am require opting out of verification, and ASAs without url fail.
+    const algod = setup({ url: 'ipfs://Qm/{id}.json' })
+    const { fetcher } = localFetcher({ 'ipfs://Qm/42.json': plain })
+
+    await expect(importArc3Metadata({ algod, assetId: 42n, fetcher })).rejects.toThrow(/has no metadata hash/)
+    const result = await importArc3Metadata({ algod, assetId: 42n, fetcher, requireHash: false })
+    expect(result.hashCheck).toBeNull()
+
+    await expect(importArc3Metadata({ algod: setup({ url: '' }), assetId: 42n, fetcher })).rejects.toThrow(
+      MetadataArc3Error,
+    )
+    await expect(importArc3Metadata({ algod, assetId: 9n, fetcher })).rejects.toThrow(AsaNotFoundError)
+  })
+
+  test('invalid arc properties', async () => {
+    // Test that malformed ARC-62 properties are rejected even when the hash matches.
+    const bad = encode({ properties: { 'arc-62': { 'application-id': 'x' } } })
+    const algod = setup({ url: 'ipfs://bad', metadataHash: computeArc3MetadataHash(bad) })
+    const { fetcher } = localFetcher({ 'ipfs://bad': bad })
+    await expect(importArc3Metadata({ algod, assetId: 42n, fetcher })).rejects.toThrow(InvalidArc3PropertiesError)
+  })
+})
+
+// ================================================================
+// Export
+// ================================================================
+
+describe('export arc3 metadata', () => {
+  // Tests for exportArc3Metadata.
+  const EXTRA = new Uint8Array([1, 2, 3, 4])
+
+  const record = (metadata: AssetMetadata, metadataHash = metadata.computeArc89MetadataHash()) =>
+    new AssetMetadataRecord({
+      appId: 1000n,
+      assetId: metadata.assetId,
+      header: new MetadataHeader({
+        identifiers: metadata.identifiersByte,
+        flags: metadata.flags,
+        metadataHash,
+        lastModifiedRound: 1n,
+        deprecatedBy: 0n,
+      }),
+      body: metadata.body,
+    })
+  const arc3 = (builder = new Arc3MetadataBuilder().name('Mirror').decimals(0)) => builder.build({ assetId: 42n })
+
+  test('registry body as is', () => {
+    // Test that the file is the registry body and am is its sha256 ARC-3 hash.
+    const metadata = arc3()
+    const exported = exportArc3Metadata(record(metadata))
+
+    expect(exported.file).toEqual(metadata.body.rawBytes)
+    expect(exported.json).toEqual({ name: 'Mirror', decimals: 0 })
+    expect(exported.scheme).toBe('sha256')
+    expect(exported.am).toEqual(new Uint8Array(createHash('sha256').update(metadata.body.rawBytes).digest()))
+    expect(exported.report.arc89Hash).toEqual(metadata.computeArc89MetadataHash())
+    expect(exported.report.headerIsArc89Hash).toBe(true)
+    expect(exported.report.headerIsArc3Hash).toBe(false)
+    expect(exported.report.asaAmIsArc3Hash).toBeNull()
+    expect(exported.report.consistent).toBe(true)
+  })
+
+  test('with and without extra metadata', () => {
+    // Test that extra_metadata can be added or removed, switching the am scheme.
+    const base = record(arc3())
+    const withExtra = exportArc3Metadata(base, { extraMetadata: EXTRA })
+    expect(withExtra.json.extra_metadata).toBe('AQIDBA==')
+    expect(withExtra.scheme).toBe('extra_metadata')
+    expect(withExtra.am).toEqual(computeArc3MetadataHash(withExtra.file))
+
+    const source = record(arc3(new Arc3MetadataBuilder().name('Mirror').extraMetadata(EXTRA)))
+    expect(exportArc3Metadata(source).scheme).toBe('extra_metadata')
+    const without = exportArc3Metadata(source, { extraMetadata: null })
+    expect(without.json).toEqual({ name: 'Mirror' })
+    expect(without.scheme).toBe('sha256')
+    expect(without.report.consistent).toBe(true)
+  })
+
+  test('am override and asa am', () => {
+    // Test that a header storing the ARC-3 hash is consistent, and a wrong ASA am is reported.
+    const metadata = arc3()
+    const am = computeArc3MetadataHash(metadata.body.rawBytes)
+    const exported = exportArc3Metadata(record(metadata, am), { asaAm: am })
+    expect(exported.report.headerIsArc3Hash).toBe(true)
+    expect(exported.report.headerIsArc89Hash).toBe(false)
+    expect(exported.report.asaAmIsArc3Hash).toBe(true)
+    expect(exported.report.consistent).toBe(true)
+
+    const stale = exportArc3Metadata(record(metadata, new Uint8Array(32).fill(9)), { asaAm: new Uint8Array(32) })
+    expect(stale.report.asaAmIsArc3Hash).toBe(false)
+    expect(stale.report.consistent).toBe(false)
+  })
+
+  test('round trip with import', async () => {
+    // Test that an exported file imports back with the same body and flags.
+    const metadata = arc3(new Arc3MetadataBuilder().name('Mirror').arc20(5).extraMetadata(EXTRA))
+    const exported = exportArc3Metadata(record(metadata))
+    const registry = new InMemoryRegistry({ appId: 1000n })
+    registry.createAsset({
+      assetId: 42n,
+      manager: algosdk.generateAccount().addr.toString(),
+      url: 'ipfs://mirror#arc3',
+      metadataHash: exported.am,
+    })
+
+    const imported = await importArc3Metadata({
+      algod: registry.algod,
+      assetId: 42n,
+      fetcher: { fetch: async () => exported.file },
+    })
+    expect(imported.metadata.body.rawBytes).toEqual(metadata.body.rawBytes)
+    expect(imported.metadata.flags.reversibleByte).toBe(metadata.flags.reversibleByte)
+    expect(imported.metadata.flags.irreversibleByte).toBe(metadata.flags.irreversibleByte)
+  })
+
+  test('requires arc3 flag', () => {
+    // Test that metadata not flagged ARC-3 cannot be exported.
+    const metadata = AssetMetadata.fromJson({ assetId: 42n, jsonObj: { name: 'Plain' } })
+    expect(() => exportArc3Metadata(record(metadata))).toThrow(MetadataArc3Error)
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for src/arc69 module.
+ *
+ * Tests cover:
+ * - parseArc69Note and encodeArc69Note
+ * - ARC-69 to ARC-89 conversion with default and custom mapping rules
+ * - ARC-89 to ARC-69 reverse conversion and round trips
+ */
+
+import { describe, expect, test } from 'vitest'
+import {
+  ARC69_DEFAULT_MAPPING,
+  Arc69Note,
+  Arc69NoteError,
+  AssetMetadata,
+  IrreversibleFlags,
+  MetadataFlags,
+  ReversibleFlags,
+  arc69ToAssetMetadata,
+  arc69ToJson,
+  assetMetadataToArc69,
+  encodeArc69Note,
+  parseArc69Note,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+
+const NOTE: Arc69Note = {
+  standard: 'arc69',
+  description: 'Arc69 NFT',
+  external_url: 'https://example.com',
+  media_url: 'ipfs://bafy/nft.png',
+  mime_type: 'image/png',
+  properties: { rarity: 'rare', level: 3 },
+  collection: 'legacy',
+}
+const noteBytes = new TextEncoder().encode(JSON.stringify(NOTE))
+
+// ================================================================
+// Notes
+// ================================================================
+
+describe('parse arc69 note', () => {
+  // Tests for parseArc69Note and encodeArc69Note.
+  test('bytes and text', () => {
+    // Test that notes parse from UTF-8 bytes and JSON text.
+    expect(parseArc69Note(noteBytes)).toEqual(NOTE)
+    expect(parseArc69Note(JSON.stringify(NOTE))).toEqual(NOTE)
+  })
+
+  test('invalid notes', () => {
+    // Test that non-JSON notes, other standards and mistyped fields are rejected.
+    expect(() => parseArc69Note('not json')).toThrow(Arc69NoteError)
+    expect(() => parseArc69Note('[]')).toThrow(/not a JSON object/)
+    expect(() => parseArc69Note('{"standard":"arc3"}')).toThrow(/"standard": "arc69"/)
+    expect(() => parseArc69Note('{"standard":"arc69","mime_type":1}')).toThrow(/'mime_type' must be a string/)
+    expect(() => parseArc69Note('{"standard":"arc69","properties":[]}')).toThrow(/'properties' must be an object/)
+    expect(() => parseArc69Note('{"standard":"arc69","attributes":{}}')).toThrow(/'attributes' must be an array/)
+  })
+
+  test('encode size limit', () => {
+    // Test that encoded notes must fit in a transaction note.
+    expect(encodeArc69Note({ standard: 'arc69', description: 'x' })).toEqual(
+      new TextEncoder().encode('{"standard":"arc69","description":"x"}'),
+    )
+    expect(() => encodeArc69Note({ standard: 'arc69', description: 'x'.repeat(1024) })).toThrow(/note limit of 1024/)
+  })
+})
+
+// ================================================================
+// Conversion
+// ================================================================
+
+describe('arc69 to arc89', () => {
+  // Tests for arc69ToJson and arc69ToAssetMetadata.
+  test('default mapping', () => {
+    // Test that media fields get ARC-3 names, standard is dropped and unmapped fields are kept.
+    expect(arc69ToJson(noteBytes)).toEqual({
+      description: 'Arc69 NFT',
+      external_url: 'https://example.com',
+      image: 'ipfs://bafy/nft.png',
+      image_mimetype: 'image/png',
+      properties: { rarity: 'rare', level: 3 },
+      collection: 'legacy',
+    })
+  })
+
+  test('custom rules', () => {
+    // Test that field rules override the defaults one by one and unmapped fields can be dropped.
+    const json = arc69ToJson(noteBytes, {
+      fields: { media_url: 'animation_url', mime_type: 'animation_url_mimetype', description: null },
+      keepUnmapped: false,
+    })
+    expect(json).toEqual({
+      external_url: 'https://example.com',
+      animation_url: 'ipfs://bafy/nft.png',
+      animation_url_mimetype: 'image/png',
+      properties: { rarity: 'rare', level: 3 },
+    })
+    expect(ARC69_DEFAULT_MAPPING.fields['media_url']).toBe('image')
+  })
+
+  test('prototype keys', () => {
+    // Test that keys named like Object.prototype members are unmapped fields, in both directions.
+    const note: Arc69Note = { standard: 'arc69', constructor: 'x', toString: 'y' }
+    expect(arc69ToJson(note)).toEqual({ constructor: 'x', toString: 'y' })
+    expect(assetMetadataToArc69({ constructor: 'x', toString: 'y' })).toEqual(note)
+  })
+
+  test('asset metadata', () => {
+    // Test that the converted metadata has the mapped body and the requested flags.
+    const flags = new MetadataFlags({
+      reversible: ReversibleFlags.empty(),
+      irreversible: new IrreversibleFlags({ immutable: true }),
+    })
+    const metadata = arc69ToAssetMetadata({ assetId: 7n, note: NOTE, flags })
+    expect(metadata.assetId).toBe(7n)
+    expect(metadata.body.json['image']).toBe('ipfs://bafy/nft.png')
+    expect(metadata.flags.irreversible.immutable).toBe(true)
+    expect(arc69ToAssetMetadata({ assetId: 7n, note: noteBytes }).flags.irreversibleByte).toBe(0)
+  })
+})
+
+describe('arc89 to arc69', () => {
+  // Tests for assetMetadataToArc69.
+  test('round trip', () => {
+    // Test that converting back with the same rules restores the note.
+    const metadata = arc69ToAssetMetadata({ assetId: 7n, note: noteBytes })
+    expect(assetMetadataToArc69(metadata)).toEqual(NOTE)
+
+    const rules = { fields: { media_url: 'animation_url' } }
+    const custom = arc69ToAssetMetadata({ assetId: 7n, note: noteBytes, rules })
+    expect(assetMetadataToArc69(custom, rules)).toEqual(NOTE)
+  })
+
+  test('arc89 body', () => {
+    // Test that ARC-3 style bodies map to ARC-69 names and unmapped fields follow keepUnmapped.
+    const metadata = AssetMetadata.fromJson({
+      assetId: 7n,
+      jsonObj: { name: 'NFT', image: 'ipfs://img', image_mimetype: 'image/jpeg', standard: 'other' },
+    })
+    expect(assetMetadataToArc69(metadata)).toEqual({
+      standard: 'arc69',
+      name: 'NFT',
+      media_url: 'ipfs://img',
+      mime_type: 'image/jpeg',
+    })
+    expect(assetMetadataToArc69(metadata.body.json, { keepUnmapped: false })).toEqual({
+      standard: 'arc69',
+      media_url: 'ipfs://img',
+      mime_type: 'image/jpeg',
+    })
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for src/read/cache module.
+ *
+ * Tests cover:
+ * - InMemoryLruCacheStorage (get/set/delete/clear, LRU eviction)
+ * - FileSystemCacheStorage (round-trip, missing entries, clear)
+ * - MetadataCache (lookup, TTL freshness, invalidation, event invalidation, event revalidation)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  Arc89MetadataDeletedEvent,
+  Arc89MetadataMigratedEvent,
+  AssetMetadataRecord,
+  FileSystemCacheStorage,
+  InMemoryLruCacheStorage,
+  MetadataBody,
+  MetadataCache,
+  MetadataCacheEntry,
+  MetadataFlags,
+  MetadataHeader,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+
+const entry = (assetId: bigint, storedAt = 0): MetadataCacheEntry => ({
+  appId: 123n,
+  assetId,
+  header: new Uint8Array([1, 2, 3]),
+  body: new Uint8Array([4, 5]),
+  storedAt,
+})
+
+const record = (args: { assetId?: bigint; lastModifiedRound?: bigint } = {}) =>
+  new AssetMetadataRecord({
+    appId: 123n,
+    assetId: args.assetId ?? 456n,
+    header: new MetadataHeader({
+      identifiers: 0x00,
+      flags: MetadataFlags.empty(),
+      deprecatedBy: 0n,
+      lastModifiedRound: args.lastModifiedRound ?? 1000n,
+      metadataHash: new Uint8Array(32).fill(7),
+    }),
+    body: new MetadataBody(new TextEncoder().encode('{"name":"test"}')),
+  })
+
+// ================================================================
+// Storage adapters
+// ================================================================
+
+describe('in memory lru storage', () => {
+  // Tests for InMemoryLruCacheStorage.
+  test('get set delete clear', async () => {
+    // Test the basic storage contract.
+    const storage = new InMemoryLruCacheStorage()
+    expect(await storage.get('a')).toBeNull()
+    await storage.set('a', entry(1n))
+    expect(await storage.get('a')).toEqual(entry(1n))
+    await storage.delete('a')
+    expect(await storage.get('a')).toBeNull()
+    await storage.set('b', entry(2n))
+    await storage.clear()
+    expect(storage.size).toBe(0)
+  })
+
+  test('evicts least recently used', async () => {
+    // Test that reads refresh recency and the oldest entry is evicted.
+    const storage = new InMemoryLruCacheStorage({ maxEntries: 2 })
+    await storage.set('a', entry(1n))
+    await storage.set('b', entry(2n))
+    await storage.get('a')
+    await storage.set('c', entry(3n))
+    expect(await storage.get('b')).toBeNull()
+    expect(await storage.get('a')).not.toBeNull()
+    expect(await storage.get('c')).not.toBeNull()
+  })
+
+  test('invalid max entries', () => {
+    // Test that maxEntries must be positive.
+    expect(() => new InMemoryLruCacheStorage({ maxEntries: 0 })).toThrow(RangeError)
+  })
+})
+
+describe('file system storage', () => {
+  // Tests for FileSystemCacheStorage.
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'arc89-cache-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test('round trip', async () => {
+    // Test that entries survive a new storage instance on the same directory.
+    await new FileSystemCacheStorage({ directory: join(directory, 'nested') }).set('123-1', entry(1n, 42))
+    const loaded = await new FileSystemCacheStorage({ directory: join(directory, 'nested') }).get('123-1')
+    expect(loaded).toEqual(entry(1n, 42))
+  })
+
+  test('round trip with round', async () => {
+    // Test that the read round of an entry is persisted.
+    const storage = new FileSystemCacheStorage({ directory })
+    await storage.set('123-1', { ...entry(1n), round: 1234n })
+    expect((await storage.get('123-1'))?.round).toBe(1234n)
+  })
+
+  test('missing entries', async () => {
+    // Test that missing files and directories read as empty.
+    const storage = new FileSystemCacheStorage({ directory: join(directory, 'absent') })
+    expect(await storage.get('123-1')).toBeNull()
+    await storage.delete('123-1')
+    await storage.clear()
+  })
+
+  test('clear', async () => {
+    // Test that clear removes all entries.
+    const storage = new FileSystemCacheStorage({ directory })
+    await storage.set('123-1', entry(1n))
+    await storage.set('123-2', entry(2n))
+    await storage.clear()
+    expect(await storage.get('123-1')).toBeNull()
+    expect(await storage.get('123-2')).toBeNull()
+  })
+})
+
+// ================================================================
+// MetadataCache
+// ================================================================
+
+describe('metadata cache', () => {
+  // Tests for MetadataCache.
+  test('store and lookup', async () => {
+    // Test that a stored record is rebuilt from its serialized form.
+    const cache = new MetadataCache()
+    const original = record()
+    await cache.store(original)
+
+    const hit = await cache.lookup({ appId: 123, assetId: 456 })
+    expect(hit?.fresh).toBe(true)
+    expect(hit?.record.header.serialized).toEqual(original.header.serialized)
+    expect(hit?.record.json).toEqual({ name: 'test' })
+    expect(await cache.lookup({ appId: 123, assetId: 457 })).toBeNull()
+  })
+
+  test('ttl', async () => {
+    // Test that entries older than the TTL are reported stale, and store resets the TTL.
+    let now = 0
+    const cache = new MetadataCache({ ttlMs: 1000, now: () => now })
+    await cache.store(record())
+
+    now = 999
+    expect((await cache.lookup({ appId: 123, assetId: 456 }))?.fresh).toBe(true)
+    now = 1000
+    expect((await cache.lookup({ appId: 123, assetId: 456 }))?.fresh).toBe(false)
+    await cache.store(record())
+    expect((await cache.lookup({ appId: 123, assetId: 456 }))?.fresh).toBe(true)
+  })
+
+  test('invalid ttl', () => {
+    // Test that a negative TTL is rejected.
+    expect(() => new MetadataCache({ ttlMs: -1 })).toThrow(RangeError)
+  })
+
+  test('invalidate from events', async () => {
+    // Test that decoded registry events drop the touched assets.
+    const cache = new MetadataCache()
+    await cache.store(record({ assetId: 1n }))
+    await cache.store(record({ assetId: 2n }))
+    await cache.store(record({ assetId: 3n }))
+
+    const count = await cache.invalidateFromEvents({
+      appId: 123n,
+      events: [
+        new Arc89MetadataDeletedEvent({ assetId: 1n, round: 10n, timestamp: 0n }),
+        new Arc89MetadataMigratedEvent({ assetId: 2n, newRegistryId: 9n, round: 10n, timestamp: 0n }),
+        new Arc89MetadataDeletedEvent({ assetId: 1n, round: 11n, timestamp: 0n }),
+      ],
+    })
+
+    expect(count).toBe(2)
+    expect(await cache.lookup({ appId: 123, assetId: 1 })).toBeNull()
+    expect(await cache.lookup({ appId: 123, assetId: 2 })).toBeNull()
+    expect(await cache.lookup({ appId: 123, assetId: 3 })).not.toBeNull()
+  })
+  test('revalidate from events', async () => {
+    // Test that a stale entry is refreshed once events were applied through its read round.
+    let now = 0
+    const cache = new MetadataCache({ ttlMs: 1000, now: () => now })
+    await cache.store(record(), { round: 100n })
+    now = 5000
+
+    const stale = (await cache.lookup({ appId: 123, assetId: 456 }))!
+    expect(stale).toMatchObject({ fresh: false, round: 100n })
+    expect(await cache.revalidateFromEvents(stale)).toBe(false)
+
+    await cache.invalidateFromEvents({ appId: 123n, events: [], throughRound: 99n })
+    expect(await cache.revalidateFromEvents(stale)).toBe(false)
+
+    await cache.invalidateFromEvents({ appId: 123n, events: [], throughRound: 150n })
+    expect(cache.eventsRound(123)).toBe(150n)
+    expect(await cache.revalidateFromEvents(stale)).toBe(true)
+    expect(await cache.lookup({ appId: 123, assetId: 456 })).toMatchObject({ fresh: true, round: 150n })
+  })
+
+  test('store drops rounds behind events', async () => {
+    // Test that a record read before the events round is not revalidated from events.
+    const cache = new MetadataCache({ ttlMs: 0 })
+    await cache.invalidateFromEvents({ appId: 123n, events: [], throughRound: 200n })
+    await cache.store(record(), { round: 100n })
+
+    const hit = (await cache.lookup({ appId: 123, assetId: 456 }))!
+    expect(hit.round).toBeNull()
+    expect(await cache.revalidateFromEvents(hit)).toBe(false)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for src/diff module.
+ *
+ * Tests cover:
+ * - JSON key path changes (added, removed, changed; nested objects and arrays)
+ * - Named flag changes
+ * - Size, MBR delta and page changes
+ * - AssetMetadataRecord inputs and non-JSON bodies
+ */
+
+import { describe, expect, test } from 'vitest'
+import {
+  AssetMetadata,
+  AssetMetadataRecord,
+  IrreversibleFlags,
+  MbrDeltaSign,
+  MetadataBody,
+  MetadataFlags,
+  MetadataHeader,
+  ReversibleFlags,
+  computePageHash,
+  diffMetadata,
+  formatJsonPath,
+  getDefaultRegistryParams,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+
+const md = (jsonObj: Record<string, unknown>, flags?: MetadataFlags) =>
+  AssetMetadata.fromJson({ assetId: 123n, jsonObj, flags })
+
+// ================================================================
+// JSON changes
+// ================================================================
+
+describe('diff metadata json', () => {
+  // Tests for JSON-level changes.
+  test('identical', () => {
+    // Test that equal metadata reports no changes.
+    const diff = diffMetadata(md({ name: 'A' }), md({ name: 'A' }))
+    expect(diff.identical).toBe(true)
+    expect(diff.json).toEqual([])
+    expect(diff.flags).toEqual([])
+    expect(diff.pages).toEqual([])
+    expect(diff.mbrDelta.sign).toBe(MbrDeltaSign.NULL)
+  })
+
+  test('key path changes', () => {
+    // Test added, removed and changed values in nested objects and arrays.
+    const a = md({ name: 'A', description: 'gone', properties: { traits: ['x', 'y'], 'a b': 1 } })
+    const b = md({ name: 'B', properties: { traits: ['x', 'z', 'w'], 'a b': 1, color: 'red' } })
+    const diff = diffMetadata(a, b)
+
+    expect(diff.identical).toBe(false)
+    expect(diff.json?.map((c) => [c.kind, c.path])).toEqual([
+      ['changed', 'name'],
+      ['removed', 'description'],
+      ['changed', 'properties.traits[1]'],
+      ['added', 'properties.traits[2]'],
+      ['added', 'properties.color'],
+    ])
+    expect(diff.json?.[0]).toMatchObject({ before: 'A', after: 'B', segments: ['name'] })
+    expect(diff.json?.[1]).toEqual({ kind: 'removed', segments: ['description'], path: 'description', before: 'gone' })
+  })
+
+  test('type change', () => {
+    // Test that a value changing type is reported at its own path.
+    const diff = diffMetadata(md({ p: { q: 1 } }), md({ p: [1] }))
+    expect(diff.json).toEqual([{ kind: 'changed', segments: ['p'], path: 'p', before: { q: 1 }, after: [1] }])
+  })
+
+  test('format json path', () => {
+    // Test display path formatting of non-identifier keys.
+    expect(formatJsonPath(['a', 0, 'b c', 'd'])).toBe('a[0]["b c"].d')
+    expect(formatJsonPath(['1x'])).toBe('["1x"]')
+  })
+
+  test('non json body', () => {
+    // Test that JSON diff is null when a body is not a JSON object.
+    const raw = AssetMetadata.fromBytes({
+      assetId: 123n,
+      metadataBytes: new Uint8Array([0xff]),
+      validateJsonObject: false,
+    })
+    const diff = diffMetadata(md({}), raw)
+    expect(diff.json).toBeNull()
+    expect(diff.size.delta).toBe(-1)
+  })
+})
+
+// ================================================================
+// Flags, size and pages
+// ================================================================
+
+describe('diff metadata header', () => {
+  // Tests for flag, size, MBR and page changes.
+  test('flag changes', () => {
+    // Test that flag changes are reported by name.
+    const before = new MetadataFlags({
+      reversible: new ReversibleFlags({ arc20: true }),
+      irreversible: IrreversibleFlags.empty(),
+    })
+    const after = new MetadataFlags({
+      reversible: new ReversibleFlags({ arc62: true }),
+      irreversible: new IrreversibleFlags({ immutable: true }),
+    })
+    const diff = diffMetadata(md({}, before), md({}, after))
+
+    expect(diff.identical).toBe(false)
+    expect(diff.flags).toEqual([
+      { kind: 'reversible', name: 'arc20', before: true, after: false },
+      { kind: 'reversible', name: 'arc62', before: false, after: true },
+      { kind: 'irreversible', name: 'immutable', before: false, after: true },
+    ])
+    expect(diff.reversibleFlags).toEqual({ before: before.reversibleByte, after: after.reversibleByte })
+    expect(diff.irreversibleFlags).toEqual({ before: 0, after: after.irreversibleByte })
+  })
+
+  test('size mbr and pages', () => {
+    // Test size and MBR delta, and that only touched pages are reported.
+    const p = getDefaultRegistryParams()
+    const a = md({ a: 'x'.repeat(p.pageSize * 2) })
+    const b = md({ a: `${'x'.repeat(p.pageSize * 2)}y` })
+    const diff = diffMetadata(a, b)
+
+    expect(diff.size).toEqual({ before: a.size, after: b.size, delta: 1 })
+    expect(diff.mbrDelta.sign).toBe(MbrDeltaSign.POS)
+    expect(diff.mbrDelta.amount).toBe(p.byteMbr)
+    expect(diff.pages.map((c) => [c.kind, c.index])).toEqual([['changed', 2]])
+    expect(diff.pages[0]?.afterHash).toEqual(
+      computePageHash({ assetId: 123n, pageIndex: 2, pageContent: b.body.rawBytes.slice(2 * p.pageSize) }),
+    )
+
+    const shrink = diffMetadata(b, md({}))
+    expect(shrink.mbrDelta.sign).toBe(MbrDeltaSign.NEG)
+    expect(shrink.pages.map((c) => [c.kind, c.index])).toEqual([
+      ['changed', 0],
+      ['removed', 1],
+      ['removed', 2],
+    ])
+    expect(shrink.pages[1]?.afterHash).toBeNull()
+  })
+
+  test('records and deprecation', () => {
+    // Test that records are accepted and deprecation changes are reported.
+    const record = new AssetMetadataRecord({
+      appId: 1n,
+      assetId: 123n,
+      header: new MetadataHeader({
+        identifiers: 0,
+        flags: MetadataFlags.empty(),
+        metadataHash: new Uint8Array(32),
+        lastModifiedRound: 10n,
+        deprecatedBy: 2000n,
+      }),
+      body: new MetadataBody(new TextEncoder().encode('{"name":"A"}')),
+    })
+    const diff = diffMetadata(md({ name: 'A' }), record)
+    expect(diff.json).toEqual([])
+    expect(diff.deprecatedBy).toEqual({ before: 0n, after: 2000n })
+    expect(diff.identical).toBe(false)
+  })
+})
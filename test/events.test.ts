@@ -0,0 +1,189 @@
+/**
+ * Unit tests for src/events module.
+ *
+ * Tests cover:
+ * - Event signatures and selectors
+ * - decodeEvent for Updated / Deleted / Migrated events
+ * - decodeEventsFromLogs / decodeEventsFromTransaction / decodeEventsFromSimulate
+ * - Malformed event bodies
+ */
+
+import { describe, expect, test } from 'vitest'
+import algosdk from 'algosdk'
+import {
+  events,
+  hashing,
+  Arc89MetadataDeletedEvent,
+  Arc89MetadataMigratedEvent,
+  Arc89MetadataUpdatedEvent,
+  EventDecodeError,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { concatBytes } from '@/internal/bytes'
+
+const {
+  ARC89_METADATA_UPDATED_SIGNATURE,
+  ARC89_METADATA_DELETED_SIGNATURE,
+  ARC89_METADATA_MIGRATED_SIGNATURE,
+  ARC89_METADATA_UPDATED_SELECTOR,
+  ARC89_METADATA_DELETED_SELECTOR,
+  ARC89_METADATA_MIGRATED_SELECTOR,
+  decodeEvent,
+  decodeEventsFromLogs,
+  decodeEventsFromTransaction,
+  decodeEventsFromTransactions,
+  decodeEventsFromSimulate,
+} = events
+
+const HASH = new Uint8Array(32).map((_, i) => i + 1)
+
+const updatedLog = (args: { assetId?: bigint; isShort?: boolean } = {}): Uint8Array =>
+  concatBytes([
+    ARC89_METADATA_UPDATED_SELECTOR,
+    algosdk.ABIType.from('(uint64,uint64,uint64,byte,byte,bool,byte[32])').encode([
+      args.assetId ?? 1234n,
+      100n,
+      1_700_000_000n,
+      0b0000_0001,
+      0b1000_0001,
+      args.isShort ?? true,
+      HASH,
+    ]),
+  ])
+
+const deletedLog = (): Uint8Array =>
+  concatBytes([
+    ARC89_METADATA_DELETED_SELECTOR,
+    algosdk.ABIType.from('(uint64,uint64,uint64)').encode([1234n, 101n, 1_700_000_005n]),
+  ])
+
+const migratedLog = (): Uint8Array =>
+  concatBytes([
+    ARC89_METADATA_MIGRATED_SELECTOR,
+    algosdk.ABIType.from('(uint64,uint64,uint64,uint64)').encode([1234n, 9999n, 102n, 1_700_000_010n]),
+  ])
+
+// ================================================================
+// Signatures and selectors
+// ================================================================
+
+describe('event signatures', () => {
+  // Tests for event signatures derived from the app spec.
+  test('signatures match ARC-89', () => {
+    // Test that signatures use the ARC-4 arg types from the app spec.
+    expect(ARC89_METADATA_UPDATED_SIGNATURE).toBe('Arc89MetadataUpdated(uint64,uint64,uint64,byte,byte,bool,byte[32])')
+    expect(ARC89_METADATA_DELETED_SIGNATURE).toBe('Arc89MetadataDeleted(uint64,uint64,uint64)')
+    expect(ARC89_METADATA_MIGRATED_SIGNATURE).toBe('Arc89MetadataMigrated(uint64,uint64,uint64,uint64)')
+  })
+
+  test('selectors are sha512_256 prefixes', () => {
+    // Test that selectors are the first 4 bytes of the signature hash.
+    const expected = hashing.sha512_256(new TextEncoder().encode(ARC89_METADATA_UPDATED_SIGNATURE)).slice(0, 4)
+    expect(ARC89_METADATA_UPDATED_SELECTOR).toEqual(expected)
+    expect(ARC89_METADATA_DELETED_SELECTOR.length).toBe(4)
+    expect(ARC89_METADATA_MIGRATED_SELECTOR.length).toBe(4)
+  })
+})
+
+// ================================================================
+// decodeEvent
+// ================================================================
+
+describe('decode event', () => {
+  // Tests for decodeEvent.
+  test('updated event', () => {
+    // Test decoding an Arc89MetadataUpdated log.
+    const event = decodeEvent(updatedLog())
+    expect(event).toBeInstanceOf(Arc89MetadataUpdatedEvent)
+    const updated = event as Arc89MetadataUpdatedEvent
+    expect(updated.name).toBe('Arc89MetadataUpdated')
+    expect(updated.assetId).toBe(1234n)
+    expect(updated.round).toBe(100n)
+    expect(updated.timestamp).toBe(1_700_000_000n)
+    expect(updated.flags.reversibleByte).toBe(0b0000_0001)
+    expect(updated.flags.irreversibleByte).toBe(0b1000_0001)
+    expect(updated.flags.irreversible.immutable).toBe(true)
+    expect(updated.isShort).toBe(true)
+    expect(updated.hash).toEqual(HASH)
+  })
+
+  test('updated event with is_short false', () => {
+    // Test decoding the ARC-4 bool when false.
+    const event = decodeEvent(updatedLog({ isShort: false })) as Arc89MetadataUpdatedEvent
+    expect(event.isShort).toBe(false)
+  })
+
+  test('deleted event', () => {
+    // Test decoding an Arc89MetadataDeleted log.
+    const event = decodeEvent(deletedLog())
+    expect(event).toBeInstanceOf(Arc89MetadataDeletedEvent)
+    expect(event).toMatchObject({ assetId: 1234n, round: 101n, timestamp: 1_700_000_005n })
+  })
+
+  test('migrated event', () => {
+    // Test decoding an Arc89MetadataMigrated log.
+    const event = decodeEvent(migratedLog())
+    expect(event).toBeInstanceOf(Arc89MetadataMigratedEvent)
+    expect(event).toMatchObject({ assetId: 1234n, newRegistryId: 9999n, round: 102n, timestamp: 1_700_000_010n })
+  })
+
+  test('base64 log', () => {
+    // Test decoding a base64-encoded log (raw JSON responses).
+    const event = decodeEvent(Buffer.from(deletedLog()).toString('base64'))
+    expect(event).toBeInstanceOf(Arc89MetadataDeletedEvent)
+  })
+
+  test('non-event log returns null', () => {
+    // Test that ARC-4 return logs and short logs are ignored.
+    expect(decodeEvent(new Uint8Array([0x15, 0x1f, 0x7c, 0x75, 0x00]))).toBeNull()
+    expect(decodeEvent(new Uint8Array([1, 2]))).toBeNull()
+  })
+
+  test('malformed body raises', () => {
+    // Test that a matching selector with a wrong body length raises EventDecodeError.
+    const truncated = updatedLog().slice(0, 20)
+    expect(() => decodeEvent(truncated)).toThrow(EventDecodeError)
+    expect(() => decodeEvent(concatBytes([deletedLog(), new Uint8Array([0])]))).toThrow(EventDecodeError)
+  })
+})
+
+// ================================================================
+// Bulk decoders
+// ================================================================
+
+describe('decode events', () => {
+  // Tests for decoding from logs, transactions and simulate responses.
+  test('from logs skips non-events', () => {
+    // Test that only registry events are returned, in order.
+    const result = decodeEventsFromLogs([new Uint8Array([0x15, 0x1f, 0x7c, 0x75]), updatedLog(), deletedLog()])
+    expect(result.map((e) => e.name)).toEqual(['Arc89MetadataUpdated', 'Arc89MetadataDeleted'])
+  })
+
+  test('from transaction includes inner transactions', () => {
+    // Test recursive decoding of inner transaction logs.
+    const txn = {
+      logs: [updatedLog()],
+      innerTxns: [{ logs: [] }, { innerTxns: [{ logs: [migratedLog()] }] }],
+    }
+    const result = decodeEventsFromTransaction(txn)
+    expect(result.map((e) => e.name)).toEqual(['Arc89MetadataUpdated', 'Arc89MetadataMigrated'])
+  })
+
+  test('from transactions', () => {
+    // Test decoding from a list of confirmations.
+    const result = decodeEventsFromTransactions([{}, { logs: [deletedLog()] }])
+    expect(result).toHaveLength(1)
+    expect(result[0]).toBeInstanceOf(Arc89MetadataDeletedEvent)
+  })
+
+  test('from simulate response', () => {
+    // Test decoding all groups of a simulate response.
+    const response = {
+      txnGroups: [
+        { txnResults: [{ txnResult: { logs: [updatedLog({ assetId: 1n })] } }, { txnResult: {} }] },
+        { txnResults: [{ txnResult: { logs: [updatedLog({ assetId: 2n })] } }] },
+      ],
+    }
+    const result = decodeEventsFromSimulate(response)
+    expect(result.map((e) => e.assetId)).toEqual([1n, 2n])
+  })
+})
@@ -1,6 +1,5 @@
 import { expect } from 'vitest'
-import { algo, microAlgo } from '@algorandfoundation/algokit-utils'
-import type { AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { AlgorandClient, algo, microAlgo } from '@algorandfoundation/algokit-utils'
 import type { AlgorandFixture } from '@algorandfoundation/algokit-utils/types/testing'
 import type { TransactionSignerAccount } from '@algorandfoundation/algokit-utils/types/account'
 import { AsaMetadataRegistryFactory, AsaMetadataRegistryClient } from '@/generated'
@@ -17,7 +16,12 @@ import {
   IrreversibleFlags,
   MAX_METADATA_SIZE,
   SHORT_METADATA_SIZE,
+  WriteOptions,
+  getDefaultRegistryParams,
+  writeOptionsDefault,
 } from '@algorandfoundation/asa-metadata-registry-sdk'
+import { InMemoryRegistry } from '@algorandfoundation/asa-metadata-registry-sdk/testing'
+import algosdk from 'algosdk'
 
 const ARC90_NETAUTH = process.env.ARC90_NETAUTH ?? 'net:localnet'
 const textEncoder = new TextEncoder()
@@ -45,6 +49,85 @@ export const createFundedAccount = async (
   return await fixture.context.generateAccount({ initialFunds: funds })
 }
 
+// ================================================================
+// Offline writer
+// ================================================================
+
+/**
+ * Writer on an unreachable algod with cached suggested params, for building groups offline
+ * (builders that do not simulate only; pre-flight checks are disabled).
+ */
+export const createOfflineWriter = (appId = 1000n): AsaMetadataRegistryWrite => {
+  const algorand = AlgorandClient.fromClients({ algod: new algosdk.Algodv2('', 'http://localhost', 1) })
+  algorand.setSuggestedParamsCache(
+    {
+      fee: 0n,
+      minFee: 1000n,
+      flatFee: false,
+      firstValid: 1n,
+      lastValid: 1001n,
+      genesisID: 'test-v1',
+      genesisHash: new Uint8Array(32),
+    },
+    new Date(Date.now() + 3_600_000),
+  )
+  const client = new AsaMetadataRegistryClient({ appId, algorand })
+  return new AsaMetadataRegistryWrite({ client, params: getDefaultRegistryParams() })
+}
+
+/** Write options for offline writers (resource population would simulate). */
+export const offlineWriteOptions: WriteOptions = { ...writeOptionsDefault, populateAppCallResources: false }
+
+/** Build a delete group for `assetManager` on an offline writer and export it unsigned. */
+export const exportOfflineDelete = async (assetManager: TransactionSignerAccount, assetId = 42n) => {
+  const writer = createOfflineWriter()
+  const composer = await writer.buildDeleteMetadataGroup({
+    assetManager,
+    assetId,
+    options: { ...offlineWriteOptions, extraResources: 1 },
+  })
+  return { writer, composer, group: await writer.exportUnsignedGroup({ composer, options: offlineWriteOptions }) }
+}
+
+// ================================================================
+// In-memory registry
+// ================================================================
+
+export const EMULATOR_MANAGER = algosdk.generateAccount().addr.toString()
+export const EMULATOR_OTHER = algosdk.generateAccount().addr.toString()
+export const EMULATOR_ASSET_ID = 456n
+
+/** Metadata of `assetId` (default `EMULATOR_ASSET_ID`) with a JSON body. */
+export const emulatorMetadata = (
+  jsonObj: Record<string, unknown> = { name: 'Test' },
+  flags?: MetadataFlags,
+  assetId = EMULATOR_ASSET_ID,
+): AssetMetadata => AssetMetadata.fromJson({ assetId, jsonObj, flags })
+
+/**
+ * In-memory registry (app 1000) with ASAs named `Test` and managed by `EMULATOR_MANAGER`,
+ * optionally with the registry partial URI as url and with `emulatorMetadata` bodies.
+ */
+export const createEmulator = (args?: {
+  assetIds?: readonly bigint[]
+  withPartialUri?: boolean
+  withMetadata?: boolean
+}): InMemoryRegistry => {
+  const registry = new InMemoryRegistry({ appId: 1000n })
+  for (const assetId of args?.assetIds ?? [EMULATOR_ASSET_ID]) {
+    registry.createAsset({
+      assetId,
+      manager: EMULATOR_MANAGER,
+      name: 'Test',
+      url: args?.withPartialUri ? registry.partialUri : undefined,
+    })
+    if (args?.withMetadata) {
+      registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata(undefined, undefined, assetId) })
+    }
+  }
+  return registry
+}
+
 // ================================================================
 // Factory & deploy registry
 // ================================================================
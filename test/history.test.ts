@@ -0,0 +1,400 @@
+/**
+ * Unit tests for src/read/history module (stubbed Indexer).
+ *
+ * Tests cover:
+ * - Indexer paging and round filters
+ * - Registry call cache across reads
+ * - Create with extra payload, replace, slice, flags, immutable, migrate, delete replay
+ * - Event-sourced hash vs recomputed hash
+ * - Filtering by asset and application id, inner transactions
+ */
+
+import { describe, expect, test, vi } from 'vitest'
+import algosdk, { ABIMethod, type indexerModels } from 'algosdk'
+import {
+  AsaMetadataRegistryHistoryRead,
+  IndexerClientSubset,
+  events,
+  getDefaultRegistryParams,
+  hashing,
+  bitmasks,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { APP_SPEC } from '@/generated'
+import { concatBytes } from '@/internal/bytes'
+
+const APP_ID = 1000n
+const ASSET_ID = 42n
+
+// ================================================================
+// Stub Indexer
+// ================================================================
+
+const selector = (name: string): Uint8Array => {
+  const m = APP_SPEC.methods.find((x) => x.name === name)!
+  return new ABIMethod({
+    name: m.name,
+    args: m.args.map((a) => ({ type: a.type, name: a.name })),
+    returns: { type: m.returns.type },
+  }).getSelector()
+}
+
+const u64 = (n: bigint) => algosdk.ABIType.from('uint64').encode(n)
+const u16 = (n: number) => algosdk.ABIType.from('uint16').encode(n)
+const u8 = (n: number) => algosdk.ABIType.from('uint8').encode(n)
+const bool = (b: boolean) => algosdk.ABIType.from('bool').encode(b)
+const bytes = (s: string | Uint8Array) =>
+  algosdk.ABIType.from('byte[]').encode(typeof s === 'string' ? new TextEncoder().encode(s) : s)
+
+let txCounter = 0
+
+const appCall = (args: {
+  method: string
+  appArgs: Uint8Array[]
+  round: bigint
+  group?: string
+  logs?: Uint8Array[]
+  appId?: bigint
+  innerTxns?: indexerModels.Transaction[]
+}): indexerModels.Transaction =>
+  ({
+    id: `TX${++txCounter}`,
+    confirmedRound: args.round,
+    roundTime: Number(args.round) * 3,
+    intraRoundOffset: txCounter,
+    group: args.group ? new TextEncoder().encode(args.group) : undefined,
+    applicationTransaction: {
+      applicationId: args.appId ?? APP_ID,
+      applicationArgs: [selector(args.method), ...args.appArgs],
+    },
+    logs: args.logs,
+    innerTxns: args.innerTxns,
+  }) as unknown as indexerModels.Transaction
+
+const updatedLog = (args: { round: bigint; rev?: number; irr?: number; hash: Uint8Array }): Uint8Array =>
+  concatBytes([
+    events.ARC89_METADATA_UPDATED_SELECTOR,
+    algosdk.ABIType.from('(uint64,uint64,uint64,byte,byte,bool,byte[32])').encode([
+      ASSET_ID,
+      args.round,
+      0n,
+      args.rev ?? 0,
+      args.irr ?? 0,
+      true,
+      args.hash,
+    ]),
+  ])
+
+const createMockIndexer = (pages: indexerModels.Transaction[][]) => {
+  const calls: Record<string, unknown[]> = {}
+  let pageIndex = 0
+  const builder: Record<string, unknown> = {}
+  for (const name of ['applicationID', 'limit', 'minRound', 'maxRound', 'nextToken']) {
+    builder[name] = vi.fn((v: unknown) => {
+      ;(calls[name] ??= []).push(v)
+      return builder
+    })
+  }
+  builder.do = vi.fn(async () => {
+    const i = pageIndex++
+    return { transactions: pages[i] ?? [], nextToken: i + 1 < pages.length ? `page-${i + 1}` : undefined }
+  })
+  const indexer = { searchForTransactions: vi.fn(() => builder) } as unknown as IndexerClientSubset
+  return { indexer, calls }
+}
+
+const createHistory = (pages: indexerModels.Transaction[][]) => {
+  const mock = createMockIndexer(pages)
+  return { ...mock, history: new AsaMetadataRegistryHistoryRead({ indexer: mock.indexer, appId: APP_ID }) }
+}
+
+const expectedHash = (body: Uint8Array, rev = 0, irr = 0): Uint8Array =>
+  hashing.computeMetadataHash({
+    assetId: ASSET_ID,
+    metadataIdentifiers: body.length <= getDefaultRegistryParams().shortMetadataSize ? bitmasks.MASK_ID_SHORT : 0,
+    reversibleFlags: rev,
+    irreversibleFlags: irr,
+    metadata: body,
+    pageSize: getDefaultRegistryParams().pageSize,
+  })
+
+const encode = (s: string) => new TextEncoder().encode(s)
+
+// ================================================================
+// Tests
+// ================================================================
+
+describe('history read', () => {
+  // Tests for AsaMetadataRegistryHistoryRead.
+  test('empty history', async () => {
+    // Test that no registry calls produce no versions.
+    const { history, calls } = createHistory([[]])
+    expect(await history.getAssetMetadataHistory({ assetId: ASSET_ID })).toEqual([])
+    expect(calls.applicationID).toEqual([APP_ID])
+  })
+
+  test('create with extra payload', async () => {
+    // Test that extra payload calls are folded into their head call.
+    const { history } = createHistory([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(ASSET_ID), u8(1), u8(0), u16(10), bytes('{"a":')],
+          round: 10n,
+          group: 'g1',
+        }),
+        appCall({ method: 'arc89_extra_payload', appArgs: [u64(ASSET_ID), bytes('"b"}')], round: 10n, group: 'g1' }),
+      ],
+    ])
+    const entries = await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    expect(entries).toHaveLength(1)
+    const record = entries[0]!.record!
+    expect(entries[0]!.method).toBe('arc89_create_metadata')
+    expect(entries[0]!.round).toBe(10n)
+    expect(entries[0]!.timestamp).toBe(30)
+    expect(record.json).toEqual({ a: 'b' })
+    expect(record.header.flags.reversible.arc20).toBe(true)
+    expect(record.header.lastModifiedRound).toBe(10n)
+    expect(record.header.isShort).toBe(true)
+    expect(record.header.metadataHash).toEqual(expectedHash(encode('{"a":"b"}'), 1, 0))
+  })
+
+  test('full lifecycle', async () => {
+    // Test replay of replace, slice, flags, immutable, migrate and delete.
+    const { history } = createHistory([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(ASSET_ID), u8(0), u8(0), u16(9), bytes('{"a":"b"}')],
+          round: 10n,
+        }),
+        appCall({
+          method: 'arc89_replace_metadata_larger',
+          appArgs: [u64(ASSET_ID), u16(11), bytes('{"a":"bcd"}')],
+          round: 11n,
+        }),
+      ],
+      [
+        appCall({ method: 'arc89_replace_metadata_slice', appArgs: [u64(ASSET_ID), u16(6), bytes('x')], round: 12n }),
+        appCall({ method: 'arc89_set_reversible_flag', appArgs: [u64(ASSET_ID), u8(1), bool(true)], round: 13n }),
+        appCall({ method: 'arc89_set_reversible_flag', appArgs: [u64(ASSET_ID), u8(1), bool(true)], round: 14n }),
+        appCall({ method: 'arc89_set_irreversible_flag', appArgs: [u64(ASSET_ID), u8(2)], round: 15n }),
+        appCall({ method: 'arc89_replace_metadata', appArgs: [u64(ASSET_ID), u16(2), bytes('{}')], round: 16n }),
+        appCall({ method: 'arc89_migrate_metadata', appArgs: [u64(ASSET_ID), u64(2000n)], round: 17n }),
+        appCall({ method: 'arc89_delete_metadata', appArgs: [u64(ASSET_ID)], round: 18n }),
+      ],
+    ])
+    const entries = await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    expect(entries.map((e) => e.method)).toEqual([
+      'arc89_create_metadata',
+      'arc89_replace_metadata_larger',
+      'arc89_replace_metadata_slice',
+      'arc89_set_reversible_flag',
+      'arc89_set_irreversible_flag',
+      'arc89_replace_metadata',
+      'arc89_migrate_metadata',
+      'arc89_delete_metadata',
+    ])
+    expect(entries[1]!.record!.json).toEqual({ a: 'bcd' })
+    expect(entries[2]!.record!.json).toEqual({ a: 'xcd' })
+    expect(entries[3]!.record!.header.flags.reversible.arc62).toBe(true)
+    expect(entries[3]!.record!.header.lastModifiedRound).toBe(13n)
+    expect(entries[4]!.record!.header.flags.irreversible.burnable).toBe(true)
+    expect(entries[5]!.record!.json).toEqual({})
+    expect(entries[5]!.record!.header.metadataHash).toEqual(
+      expectedHash(encode('{}'), bitmasks.MASK_REV_ARC62, bitmasks.MASK_IRR_ARC54),
+    )
+    // Migration does not touch the last modified round.
+    expect(entries[6]!.record!.header.deprecatedBy).toBe(2000n)
+    expect(entries[6]!.record!.header.lastModifiedRound).toBe(16n)
+    expect(entries[7]!.isDeleted).toBe(true)
+  })
+
+  test('hash and flags from event', async () => {
+    // Test that the Updated event (e.g. ASA `am` override) is authoritative.
+    const am = new Uint8Array(32).fill(7)
+    const { history } = createHistory([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(ASSET_ID), u8(0), u8(0x80), u16(2), bytes('{}')],
+          round: 10n,
+          logs: [updatedLog({ round: 10n, irr: 0x80, hash: am })],
+        }),
+        appCall({ method: 'arc89_set_immutable', appArgs: [u64(ASSET_ID)], round: 11n }),
+      ],
+    ])
+    const entries = await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    // set_immutable on already immutable metadata is a no-op
+    expect(entries).toHaveLength(1)
+    expect(entries[0]!.record!.header.metadataHash).toEqual(am)
+    expect(entries[0]!.record!.header.isImmutable).toBe(true)
+  })
+
+  test('filters other assets and apps', async () => {
+    // Test that calls for other assets or applications are ignored, inner calls are replayed.
+    const inner = appCall({
+      method: 'arc89_create_metadata',
+      appArgs: [u64(ASSET_ID), u8(0), u8(0), u16(2), bytes('{}')],
+      round: 10n,
+    })
+    const { history } = createHistory([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(7n), u8(0), u8(0), u16(2), bytes('{}')],
+          round: 9n,
+        }),
+        appCall({
+          method: 'arc89_delete_metadata',
+          appArgs: [u64(ASSET_ID)],
+          round: 9n,
+          appId: 999n,
+        }),
+        appCall({
+          method: 'arc89_extra_payload',
+          appArgs: [u64(ASSET_ID), bytes('ignored')],
+          round: 9n,
+          appId: 999n,
+          innerTxns: [inner],
+        }),
+      ],
+    ])
+    const entries = await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    expect(entries).toHaveLength(1)
+    expect(entries[0]!.record!.json).toEqual({})
+  })
+
+  test('round filters are forwarded', async () => {
+    // Test minRound / maxRound query parameters and paging.
+    const { history, calls } = createHistory([[], []])
+    await history.getAssetMetadataHistory({ assetId: ASSET_ID, minRound: 5n, maxRound: 50n })
+    expect(calls.minRound).toEqual([5n])
+    expect(calls.maxRound).toEqual([50n])
+    expect(calls.nextToken).toBeUndefined()
+  })
+
+  test('pages are followed', async () => {
+    // Test that next tokens are followed until exhausted.
+    const { history, calls } = createHistory([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(ASSET_ID), u8(0), u8(0), u16(2), bytes('{}')],
+          round: 10n,
+        }),
+      ],
+      [appCall({ method: 'arc89_delete_metadata', appArgs: [u64(ASSET_ID)], round: 11n })],
+    ])
+    const entries = await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    expect(calls.nextToken).toEqual(['page-1'])
+    expect(entries).toHaveLength(2)
+  })
+
+  test('calls are cached across reads', async () => {
+    // Test that later reads only fetch rounds after the cached ones, for any asset.
+    const create = (assetId: bigint, round: bigint) =>
+      appCall({
+        method: 'arc89_create_metadata',
+        appArgs: [u64(assetId), u8(0), u8(0), u16(2), bytes('{}')],
+        round,
+      })
+    const responses = [
+      { transactions: [create(ASSET_ID, 10n), create(43n, 12n)], currentRound: 20n },
+      { transactions: [appCall({ method: 'arc89_delete_metadata', appArgs: [u64(ASSET_ID)], round: 21n })] },
+    ]
+    const minRounds: unknown[] = []
+    const builder: Record<string, unknown> = {}
+    for (const name of ['applicationID', 'limit', 'maxRound', 'nextToken']) builder[name] = () => builder
+    builder.minRound = (v: unknown) => {
+      minRounds.push(v)
+      return builder
+    }
+    builder.do = vi.fn(async () => responses.shift() ?? { transactions: [] })
+    const indexer = { searchForTransactions: () => builder } as unknown as IndexerClientSubset
+    const history = new AsaMetadataRegistryHistoryRead({ indexer, appId: APP_ID })
+
+    expect(await history.getAssetMetadataHistory({ assetId: ASSET_ID })).toHaveLength(1)
+    expect(await history.getAssetMetadataHistory({ assetId: 43n, maxRound: 15n })).toHaveLength(1)
+    expect(builder.do).toHaveBeenCalledTimes(1)
+
+    const entries = await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    expect(entries.map((e) => e.isDeleted)).toEqual([false, true])
+    expect(minRounds).toEqual([21n])
+
+    history.clearCache()
+    await history.getAssetMetadataHistory({ assetId: ASSET_ID })
+    expect(minRounds).toEqual([21n])
+    expect(builder.do).toHaveBeenCalledTimes(3)
+  })
+
+  test('cache stops at the indexer round', async () => {
+    // Test that rounds past the Indexer's current round are fetched again by later reads.
+    const responses = [
+      { transactions: [], currentRound: 20n },
+      { transactions: [], currentRound: 30n },
+    ]
+    const minRounds: unknown[] = []
+    const builder: Record<string, unknown> = {}
+    for (const name of ['applicationID', 'limit', 'maxRound', 'nextToken']) builder[name] = () => builder
+    builder.minRound = (v: unknown) => {
+      minRounds.push(v)
+      return builder
+    }
+    builder.do = vi.fn(async () => responses.shift() ?? { transactions: [] })
+    const indexer = { searchForTransactions: () => builder } as unknown as IndexerClientSubset
+    const history = new AsaMetadataRegistryHistoryRead({ indexer, appId: APP_ID })
+
+    await history.getAssetMetadataAtRound({ assetId: ASSET_ID, round: 50n })
+    await history.getAssetMetadataAtRound({ assetId: ASSET_ID, round: 50n })
+    expect(minRounds).toEqual([21n])
+    expect(builder.do).toHaveBeenCalledTimes(2)
+  })
+
+  test('concurrent reads share the cache', async () => {
+    // Test that concurrent reads do not store the same calls twice (extra payloads applied once).
+    const { history } = createHistory([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(ASSET_ID), u8(0), u8(0), u16(2), bytes('{"a":')],
+          round: 10n,
+          group: 'g1',
+        }),
+        appCall({
+          method: 'arc89_extra_payload',
+          appArgs: [u64(ASSET_ID), bytes('1}')],
+          round: 10n,
+          group: 'g1',
+        }),
+      ],
+    ])
+
+    const [a, b] = await Promise.all([
+      history.getAssetMetadataHistory({ assetId: ASSET_ID }),
+      history.getAssetMetadataHistory({ assetId: ASSET_ID }),
+    ])
+    expect(a.map((e) => e.record!.json)).toEqual([{ a: 1 }])
+    expect(b.map((e) => e.record!.json)).toEqual([{ a: 1 }])
+  })
+
+  test('metadata at round', async () => {
+    // Test the state at the end of a round, and after deletion.
+    const { indexer } = createMockIndexer([
+      [
+        appCall({
+          method: 'arc89_create_metadata',
+          appArgs: [u64(ASSET_ID), u8(0), u8(0), u16(2), bytes('{}')],
+          round: 10n,
+        }),
+      ],
+    ])
+    const history = new AsaMetadataRegistryHistoryRead({ indexer, appId: APP_ID })
+    const record = await history.getAssetMetadataAtRound({ assetId: ASSET_ID, round: 10n })
+    expect(record!.json).toEqual({})
+
+    const deleted = createHistory([
+      [appCall({ method: 'arc89_delete_metadata', appArgs: [u64(ASSET_ID)], round: 11n })],
+    ])
+    expect(await deleted.history.getAssetMetadataAtRound({ assetId: ASSET_ID, round: 11n })).toBeNull()
+  })
+})
@@ -0,0 +1,446 @@
+/**
+ * Unit tests for src/testing/inMemoryRegistry module.
+ *
+ * Tests cover:
+ * - Create (MBR payment, header identification, ARC-3 / ARC-89 / am preconditions)
+ * - Replace (smaller with refund, larger with payment) and slice replace
+ * - Delete (refund receiver, immutability)
+ * - Reversible / irreversible flags, immutability and migration
+ * - Registry account MBR accounting
+ * - Integration with AsaMetadataRegistryRead (BOX and AVM sources)
+ */
+
+import { describe, expect, test } from 'vitest'
+import algosdk from 'algosdk'
+import {
+  AlgodBoxReader,
+  Arc89MetadataDeletedEvent,
+  Arc89MetadataMigratedEvent,
+  Arc89MetadataUpdatedEvent,
+  AssetMetadata,
+  IrreversibleFlags,
+  MbrDeltaSign,
+  MetadataFlags,
+  MetadataSource,
+  RegistryAssertionError,
+  ReversibleFlags,
+  bitmasks,
+  computeMetadataHash,
+  flags,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { EMULATOR_ASSET_ID, EMULATOR_MANAGER, EMULATOR_OTHER, createEmulator, emulatorMetadata } from './helpers'
+
+const expectAssertion = (fn: () => unknown, message: string) => {
+  expect(fn).toThrow(RegistryAssertionError)
+  expect(fn).toThrow(message)
+}
+
+// ================================================================
+// Writes
+// ================================================================
+
+describe('create metadata', () => {
+  // Tests for InMemoryRegistry.createMetadata.
+  test('creates box and emits updated', () => {
+    // Test that create stores the body, identifies it as short and hashes it like the SDK.
+    const registry = createEmulator()
+    const md = emulatorMetadata({ name: 'Test' })
+    const delta = registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: md })
+
+    expect(delta.sign).toBe(MbrDeltaSign.POS)
+    expect(delta.amount).toBe(registry.params.mbrForBox(md.body.size))
+    const header = registry.getMetadataHeader({ assetId: EMULATOR_ASSET_ID })
+    expect(header.isShort).toBe(true)
+    expect(header.lastModifiedRound).toBe(2n)
+    expect(header.metadataHash).toEqual(
+      computeMetadataHash({
+        assetId: EMULATOR_ASSET_ID,
+        metadataIdentifiers: bitmasks.MASK_ID_SHORT,
+        reversibleFlags: 0,
+        irreversibleFlags: 0,
+        metadata: md.body.rawBytes,
+        pageSize: registry.params.pageSize,
+      }),
+    )
+    expect(registry.round).toBe(2n)
+    expect(registry.events).toHaveLength(1)
+    expect(registry.events[0]).toBeInstanceOf(Arc89MetadataUpdatedEvent)
+  })
+
+  test('preconditions', () => {
+    // Test the contract assertions, and that failed calls leave state untouched.
+    const registry = createEmulator()
+    const md = emulatorMetadata({ name: 'Test' })
+
+    expectAssertion(() => registry.createMetadata({ sender: EMULATOR_OTHER, metadata: md }), 'Unauthorized')
+    expectAssertion(
+      () => registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: md, mbrPayment: 1 }),
+      'Invalid MBR Delta amount',
+    )
+    expectAssertion(
+      () =>
+        registry.createMetadata({
+          sender: EMULATOR_MANAGER,
+          metadata: AssetMetadata.fromJson({ assetId: 789n, jsonObj: {} }),
+        }),
+      'The specified ASA does not exist',
+    )
+    expect(registry.round).toBe(1n)
+    expect(registry.checkMetadataExists({ assetId: EMULATOR_ASSET_ID }).metadataExists).toBe(false)
+
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: md })
+    expectAssertion(() => registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: md }), 'already exists')
+  })
+
+  test('arc3 and arc89 compliance', () => {
+    // Test that ARC-3 / ARC-89 flags require compliant ASA params.
+    const registry = createEmulator()
+    const arc3 = new MetadataFlags({
+      reversible: ReversibleFlags.empty(),
+      irreversible: new IrreversibleFlags({ arc3: true }),
+    })
+    const arc89 = new MetadataFlags({
+      reversible: ReversibleFlags.empty(),
+      irreversible: new IrreversibleFlags({ arc89Native: true }),
+    })
+    expectAssertion(
+      () => registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({}, arc3) }),
+      'Invalid ARC-3 parameters',
+    )
+    expectAssertion(
+      () => registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({}, arc89) }),
+      'Invalid ARC-89 partial URI',
+    )
+
+    registry.createAsset({ assetId: 457n, manager: EMULATOR_MANAGER, name: 'x@arc3', url: `${registry.partialUri}` })
+    const both = new MetadataFlags({
+      reversible: ReversibleFlags.empty(),
+      irreversible: new IrreversibleFlags({ arc3: true, arc89Native: true }),
+    })
+    registry.createMetadata({
+      sender: EMULATOR_MANAGER,
+      metadata: AssetMetadata.fromJson({ assetId: 457n, jsonObj: {}, flags: both }),
+    })
+    expect(registry.getMetadataHeader({ assetId: 457n }).flags.irreversible.arc3).toBe(true)
+  })
+
+  test('asa metadata hash', () => {
+    // Test that a nonzero ASA am requires immutability and a matching hash.
+    const registry = createEmulator()
+    const md = emulatorMetadata({ name: 'Pinned' })
+    const immutable = new MetadataFlags({
+      reversible: ReversibleFlags.empty(),
+      irreversible: new IrreversibleFlags({ immutable: true }),
+    })
+    const am = computeMetadataHash({
+      assetId: 457n,
+      metadataIdentifiers: bitmasks.MASK_ID_SHORT,
+      reversibleFlags: 0,
+      irreversibleFlags: bitmasks.MASK_IRR_IMMUTABLE,
+      metadata: md.body.rawBytes,
+      pageSize: registry.params.pageSize,
+    })
+    registry.createAsset({ assetId: 457n, manager: EMULATOR_MANAGER, metadataHash: am })
+    const pinned = (f: MetadataFlags, obj = { name: 'Pinned' }) =>
+      AssetMetadata.fromJson({ assetId: 457n, jsonObj: obj, flags: f })
+
+    expectAssertion(
+      () => registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: pinned(MetadataFlags.empty()) }),
+      'Must be flagged as immutable',
+    )
+    expectAssertion(
+      () => registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: pinned(immutable, { name: 'Other' }) }),
+      'does not match the computed hash',
+    )
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: pinned(immutable) })
+    expect(registry.getMetadataHash({ assetId: 457n })).toEqual(am)
+  })
+})
+
+describe('replace metadata', () => {
+  // Tests for replaceMetadata, replaceMetadataLarger and replaceMetadataSlice.
+  test('smaller refunds manager', () => {
+    // Test that a smaller replace refunds the MBR difference to the ASA manager.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'A long name' }) })
+    const balance = registry.balance
+
+    const delta = registry.replaceMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'A' }) })
+    expect(delta.sign).toBe(MbrDeltaSign.NEG)
+    expect(registry.payments).toEqual([{ round: 3n, receiver: EMULATOR_MANAGER, amount: BigInt(delta.amount) }])
+    expect(registry.balance).toBe(balance - BigInt(delta.amount))
+    expect(registry.getMetadataHeader({ assetId: EMULATOR_ASSET_ID }).lastModifiedRound).toBe(3n)
+
+    const same = registry.replaceMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'B' }) })
+    expect(same.sign).toBe(MbrDeltaSign.NULL)
+    expectAssertion(
+      () =>
+        registry.replaceMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Too long now' }) }),
+      'must be smaller than or equal to the current size',
+    )
+  })
+
+  test('larger requires payment', () => {
+    // Test that a larger replace takes the MBR increase and rejects smaller bodies.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'A' }) })
+    const larger = emulatorMetadata({ name: 'A'.repeat(5000) })
+
+    expectAssertion(
+      () => registry.replaceMetadataLarger({ sender: EMULATOR_MANAGER, metadata: larger, mbrPayment: 0 }),
+      'Invalid MBR Delta amount',
+    )
+    const delta = registry.replaceMetadataLarger({ sender: EMULATOR_MANAGER, metadata: larger })
+    expect(delta.sign).toBe(MbrDeltaSign.POS)
+    expect(registry.isMetadataShort({ assetId: EMULATOR_ASSET_ID })).toEqual([false, 3n])
+    expect(registry.balance).toBe(registry.minBalance)
+    expectAssertion(
+      () => registry.replaceMetadataLarger({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'B' }) }),
+      'must be larger than the current size',
+    )
+  })
+
+  test('slice', () => {
+    // Test that slice patches the body, rehashes, and is a no-op for identical bytes.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'AAAA' }) })
+    const before = registry.getMetadataHash({ assetId: EMULATOR_ASSET_ID })
+
+    registry.replaceMetadataSlice({
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+      offset: 9,
+      payload: new Uint8Array([66, 66]),
+    })
+    expect(new TextDecoder().decode(registry.getMetadata({ assetId: EMULATOR_ASSET_ID, page: 0 }).pageContent)).toBe(
+      '{"name":"BBAA"}',
+    )
+    expect(registry.getMetadataHash({ assetId: EMULATOR_ASSET_ID })).not.toEqual(before)
+    expect(registry.round).toBe(3n)
+
+    registry.replaceMetadataSlice({
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+      offset: 9,
+      payload: new Uint8Array([66, 66]),
+    })
+    expect(registry.round).toBe(3n)
+    expect(registry.events).toHaveLength(2)
+    expectAssertion(
+      () =>
+        registry.replaceMetadataSlice({
+          sender: EMULATOR_MANAGER,
+          assetId: EMULATOR_ASSET_ID,
+          offset: 14,
+          payload: new Uint8Array(2),
+        }),
+      'Slice exceeds metadata range',
+    )
+  })
+})
+
+describe('delete metadata', () => {
+  // Tests for InMemoryRegistry.deleteMetadata.
+  test('refunds manager', () => {
+    // Test that delete refunds the full box MBR to the ASA manager.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+    const delta = registry.deleteMetadata({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID })
+
+    expect(delta.sign).toBe(MbrDeltaSign.NEG)
+    expect(registry.payments[0]?.receiver).toBe(EMULATOR_MANAGER)
+    expect(registry.balance).toBe(registry.minBalance)
+    expect(registry.getBoxValue({ assetId: EMULATOR_ASSET_ID })).toBeNull()
+    expect(registry.events[1]).toBeInstanceOf(Arc89MetadataDeletedEvent)
+  })
+
+  test('destroyed asa refunds sender', () => {
+    // Test that anyone may delete metadata of a destroyed ASA and receives the refund.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+    registry.destroyAsset({ assetId: EMULATOR_ASSET_ID })
+    registry.deleteMetadata({ sender: EMULATOR_OTHER, assetId: EMULATOR_ASSET_ID })
+    expect(registry.payments[0]?.receiver).toBe(EMULATOR_OTHER)
+  })
+
+  test('immutable cannot be deleted', () => {
+    // Test that immutable metadata cannot be deleted while the ASA exists.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+    registry.setImmutable({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID })
+    expectAssertion(
+      () => registry.deleteMetadata({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID }),
+      'Metadata is immutable',
+    )
+  })
+})
+
+describe('flags and migration', () => {
+  // Tests for flag setters, immutability and migration.
+  test('reversible flags', () => {
+    // Test set/clear of a reversible flag, no-op on unchanged value, and index bounds.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+
+    registry.setReversibleFlag({
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+      flag: flags.REV_FLG_ARC20,
+      value: true,
+    })
+    expect(registry.getMetadataHeader({ assetId: EMULATOR_ASSET_ID }).flags.reversible.arc20).toBe(true)
+    registry.setReversibleFlag({
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+      flag: flags.REV_FLG_ARC20,
+      value: true,
+    })
+    expect(registry.round).toBe(3n)
+    registry.setReversibleFlag({
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+      flag: flags.REV_FLG_ARC20,
+      value: false,
+    })
+    expect(registry.getMetadataHeader({ assetId: EMULATOR_ASSET_ID }).flags.reversibleByte).toBe(0)
+    expectAssertion(
+      () => registry.setReversibleFlag({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID, flag: 8, value: true }),
+      'Invalid flag index',
+    )
+  })
+
+  test('irreversible flags and immutability', () => {
+    // Test that creation-only irreversible flags are rejected and immutability freezes writes.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+
+    expectAssertion(
+      () =>
+        registry.setIrreversibleFlag({
+          sender: EMULATOR_MANAGER,
+          assetId: EMULATOR_ASSET_ID,
+          flag: flags.IRR_FLG_ARC3,
+        }),
+      'Invalid flag index',
+    )
+    registry.setIrreversibleFlag({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID, flag: flags.IRR_FLG_ARC54 })
+    expect(registry.getMetadataHeader({ assetId: EMULATOR_ASSET_ID }).flags.irreversible.burnable).toBe(true)
+
+    expect(registry.isMetadataImmutable({ assetId: EMULATOR_ASSET_ID })).toBe(false)
+    registry.setImmutable({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID })
+    expect(registry.isMetadataImmutable({ assetId: EMULATOR_ASSET_ID })).toBe(true)
+    expectAssertion(
+      () => registry.replaceMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'X' }) }),
+      'Metadata is immutable',
+    )
+  })
+
+  test('cleared manager reads as immutable', () => {
+    // Test that clearing the ASA manager makes the metadata immutable.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+    registry.setAssetManager({ assetId: EMULATOR_ASSET_ID, manager: algosdk.ALGORAND_ZERO_ADDRESS_STRING })
+    expect(registry.isMetadataImmutable({ assetId: EMULATOR_ASSET_ID })).toBe(true)
+  })
+
+  test('migrate', () => {
+    // Test that migration sets deprecatedBy without touching the last modified round.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'Test' }) })
+
+    expectAssertion(
+      () => registry.migrateMetadata({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID, newRegistryId: 1000n }),
+      'must be different from current',
+    )
+    registry.migrateMetadata({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID, newRegistryId: 2000n })
+    const header = registry.getMetadataHeader({ assetId: EMULATOR_ASSET_ID })
+    expect(header.deprecatedBy).toBe(2000n)
+    expect(header.lastModifiedRound).toBe(2n)
+    expect(registry.events[1]).toBeInstanceOf(Arc89MetadataMigratedEvent)
+  })
+})
+
+// ================================================================
+// Getters and MBR accounting
+// ================================================================
+
+describe('getters', () => {
+  // Tests for contract getter semantics.
+  test('mbr delta', () => {
+    // Test MBR deltas for new and existing boxes, consistent with the account balance.
+    const registry = createEmulator()
+    const md = emulatorMetadata({ name: 'Test' })
+    const create = registry.getMbrDelta({ assetId: EMULATOR_ASSET_ID, newSize: md.body.size })
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: md })
+
+    expect(registry.balance - 100_000n).toBe(BigInt(create.amount))
+    expect(registry.balance).toBe(registry.minBalance)
+    expect(registry.getMbrDelta({ assetId: EMULATOR_ASSET_ID, newSize: md.body.size }).sign).toBe(MbrDeltaSign.NULL)
+    expectAssertion(
+      () => registry.getMbrDelta({ assetId: EMULATOR_ASSET_ID, newSize: registry.params.maxMetadataSize + 1 }),
+      'exceeds maximum allowed size',
+    )
+  })
+
+  test('pages and keys', () => {
+    // Test pagination, empty metadata, and JSON key getters.
+    const registry = createEmulator()
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({}) })
+    expect(registry.getMetadata({ assetId: EMULATOR_ASSET_ID, page: 0 }).pageContent.length).toBe(2)
+
+    registry.replaceMetadataLarger({
+      sender: EMULATOR_MANAGER,
+      metadata: emulatorMetadata({ name: 'Test', decimals: 2, image: 'aGk=' }),
+    })
+    expect(registry.getMetadataStringByKey({ assetId: EMULATOR_ASSET_ID, key: 'name' })).toBe('Test')
+    expect(registry.getMetadataUint64ByKey({ assetId: EMULATOR_ASSET_ID, key: 'decimals' })).toBe(2n)
+    expect(registry.getMetadataB64BytesByKey({ assetId: EMULATOR_ASSET_ID, key: 'image', b64Encoding: 1 })).toEqual(
+      new TextEncoder().encode('hi'),
+    )
+    expectAssertion(
+      () => registry.getMetadataB64BytesByKey({ assetId: EMULATOR_ASSET_ID, key: 'image', b64Encoding: 2 }),
+      'Invalid base64 encoding',
+    )
+    expectAssertion(() => registry.getMetadata({ assetId: EMULATOR_ASSET_ID, page: 1 }), 'Invalid page index')
+  })
+})
+
+// ================================================================
+// Reader integration
+// ================================================================
+
+describe('reader integration', () => {
+  // Tests for plugging the emulator into AsaMetadataRegistryRead.
+  test('box and avm sources agree', async () => {
+    // Test that both sources read the same record from the emulator.
+    const registry = createEmulator()
+    const body = { name: 'Test', description: 'x'.repeat(3000) }
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata(body) })
+    const reader = registry.reader()
+
+    const fromBox = await reader.getAssetMetadata({ assetId: EMULATOR_ASSET_ID, source: MetadataSource.BOX })
+    const fromAvm = await reader.getAssetMetadata({ assetId: EMULATOR_ASSET_ID, source: MetadataSource.AVM })
+    expect(fromBox.json).toEqual(body)
+    expect(fromAvm.json).toEqual(body)
+    expect(fromAvm.header.serialized).toEqual(fromBox.header.serialized)
+    expect(await reader.arc89GetMetadataHash({ assetId: EMULATOR_ASSET_ID, source: MetadataSource.AVM })).toEqual(
+      fromBox.header.metadataHash,
+    )
+  })
+
+  test('box enumeration', async () => {
+    // Test registry-wide enumeration through the fake algod.
+    const registry = createEmulator()
+    registry.createAsset({ assetId: 457n, manager: EMULATOR_MANAGER })
+    registry.createMetadata({ sender: EMULATOR_MANAGER, metadata: emulatorMetadata({ name: 'A' }) })
+    registry.createMetadata({
+      sender: EMULATOR_MANAGER,
+      metadata: AssetMetadata.fromJson({ assetId: 457n, jsonObj: {} }),
+    })
+
+    const ids: bigint[] = []
+    for await (const id of new AlgodBoxReader(registry.algod).iterateAssetIds({ appId: registry.appId, pageSize: 1 }))
+      ids.push(id)
+    expect(ids).toEqual([EMULATOR_ASSET_ID, 457n])
+  })
+})
@@ -4,6 +4,7 @@
  * Tests cover:
  * - AssetMetadataBox.parse() method
  * - Box value parsing and validation
+ * - AssetMetadataBox.serialize() round-trips
  */
 
 import { describe, expect, test } from 'vitest'
@@ -16,7 +17,15 @@ import {
   BoxParseError,
 } from '@algorandfoundation/asa-metadata-registry-sdk'
 
-const { AssetMetadataBox, AssetMetadata, RegistryParameters, getDefaultRegistryParams } = models
+const {
+  AssetMetadataBox,
+  AssetMetadata,
+  MetadataBody,
+  MetadataFlags,
+  MetadataHeader,
+  RegistryParameters,
+  getDefaultRegistryParams,
+} = models
 const { decodeMetadataJson } = validation
 
 /**
@@ -587,3 +596,64 @@ describe('asset metadata box advanced', () => {
     ).toThrow(/Box value too small/)
   })
 })
+
+describe('asset metadata box serialize', () => {
+  // Tests for AssetMetadataBox.serialize() method.
+  test('round trip from box value', () => {
+    // Test that serialize(parse(value)) returns the original bytes.
+    const metadata = new TextEncoder().encode('{"name":"Test"}')
+    const boxValue = createMinimalBoxValue({
+      identifiers: bitmasks.MASK_ID_SHORT,
+      revFlags: 0x05,
+      irrFlags: bitmasks.MASK_IRR_IMMUTABLE | bitmasks.MASK_IRR_ARC3,
+      metadataHash: new Uint8Array(32).fill(0xab),
+      lastModifiedRound: 2n ** 64n - 1n,
+      deprecatedBy: 789n,
+      metadata,
+    })
+
+    const box = AssetMetadataBox.parse({ assetId: 123n, value: boxValue })
+    expect(box.serialize()).toEqual(boxValue)
+  })
+
+  test('round trip from model', () => {
+    // Test that parse(serialize(box)) rebuilds an equal header and body.
+    const box = new AssetMetadataBox({
+      assetId: 123n,
+      header: new MetadataHeader({
+        identifiers: 0x00,
+        flags: MetadataFlags.fromBytes(0x81, 0x02),
+        metadataHash: new Uint8Array(32).fill(7),
+        lastModifiedRound: 1000n,
+        deprecatedBy: 0n,
+      }),
+      body: new MetadataBody(new Uint8Array(5000).fill(0x20)),
+    })
+
+    const value = box.serialize()
+    expect(value.length).toBe(constants.HEADER_SIZE + 5000)
+    expect(value[constants.IDX_REVERSIBLE_FLAGS]).toBe(0x81)
+    expect(value[constants.IDX_IRREVERSIBLE_FLAGS]).toBe(0x02)
+
+    const parsed = AssetMetadataBox.parse({ assetId: 123n, value })
+    expect(parsed.header.serialized).toEqual(box.header.serialized)
+    expect(parsed.body.rawBytes).toEqual(box.body.rawBytes)
+  })
+
+  test('empty body', () => {
+    // Test that a header-only box serializes to exactly HEADER_SIZE bytes.
+    const box = AssetMetadataBox.parse({ assetId: 1n, value: createMinimalBoxValue() })
+    expect(box.serialize()).toEqual(createMinimalBoxValue())
+    expect(box.serialize().length).toBe(constants.HEADER_SIZE)
+  })
+
+  test('body exceeds max metadata size', () => {
+    // Test that oversize bodies are rejected like parse does.
+    const box = AssetMetadataBox.parse({
+      assetId: 1n,
+      value: createMinimalBoxValue({ metadata: new Uint8Array(10) }),
+    })
+    expect(() => box.serialize({ maxMetadataSize: 9 })).toThrow(BoxParseError)
+    expect(box.serialize({ maxMetadataSize: 10 }).length).toBe(constants.HEADER_SIZE + 10)
+  })
+})
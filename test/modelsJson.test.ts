@@ -5,6 +5,7 @@
  * - decodeMetadataJson
  * - encodeMetadataJson
  * - validateArc3Schema
+ * - validateArc3Metadata (field formats, path-qualified issues)
  * - chunkMetadataPayload internal helper and MetadataBody.chunkedPayload wrapper
  */
 
@@ -13,7 +14,7 @@ import { models, validation } from '@algorandfoundation/asa-metadata-registry-sd
 import { chunkMetadataPayload } from '@/internal/models'
 
 const { MetadataBody } = models
-const { decodeMetadataJson, encodeMetadataJson, validateArc3Schema } = validation
+const { decodeMetadataJson, encodeMetadataJson, validateArc3Metadata, validateArc3Schema } = validation
 
 describe('chunk metadata payload', () => {
   // Tests for chunkMetadataPayload helper function.
@@ -455,3 +456,99 @@ describe('validate arc3 schema', () => {
     ).not.toThrow()
   })
 })
+
+describe('validate arc3 metadata', () => {
+  // Tests for validateArc3Metadata.
+  const digest = `sha256-${Buffer.alloc(32, 7).toString('base64')}`
+  const valid = {
+    name: 'My NFT',
+    decimals: 0,
+    description: 'A token',
+    image: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+    image_integrity: digest,
+    image_mimetype: 'image/png',
+    background_color: 'FFFFFF',
+    external_url: 'https://example.com/nft?id=1#top',
+    animation_url: 'https://example.com/anim.mp4',
+    animation_url_integrity: digest,
+    animation_url_mimetype: 'video/mp4; codecs="avc1.42E01E"',
+    extra_metadata: 'iHcUslDaL/jEM/oTxqEX++4CS8o3+IZp7/V5Rgchqwc=',
+    localization: {
+      uri: 'ipfs://QmWS1VAdMD353A6SDk9wNyvkT14kyCiZrNDYAad4w1tKqT/{locale}.json',
+      default: 'en',
+      locales: ['en', 'es'],
+    },
+    properties: { traits: { color: 'red' } },
+  }
+
+  test('valid metadata', () => {
+    // Test that metadata with well-formed fields has no issues.
+    expect(validateArc3Metadata(valid)).toEqual([])
+    expect(validateArc3Metadata({})).toEqual([])
+  })
+
+  test('integrity', () => {
+    // Test that integrity fields must be sha256 SRI digests of 32 bytes.
+    for (const value of ['sha256-abc123', 'abc', `sha384-${Buffer.alloc(48).toString('base64')}`, 'sha256-AAAA']) {
+      expect(validateArc3Metadata({ image_integrity: value }).map((i) => i.path)).toEqual(['image_integrity'])
+    }
+    expect(validateArc3Metadata({ external_url_integrity: 'x' })[0]!.path).toBe('external_url_integrity')
+  })
+
+  test('mimetype', () => {
+    // Test that mimetype fields must be type/subtype MIME types.
+    for (const value of ['image', 'image/', '/png', 'image png', 'image/png;']) {
+      expect(validateArc3Metadata({ image_mimetype: value })).toHaveLength(1)
+    }
+    expect(validateArc3Metadata({ image_mimetype: 'application/vnd.api+json; charset=utf-8' })).toEqual([])
+  })
+
+  test('background color', () => {
+    // Test that background_color must be 6 hex digits without a leading #.
+    for (const value of ['#FFFFFF', 'FFF', 'GGGGGG', 'FFFFFFF']) {
+      expect(validateArc3Metadata({ background_color: value })[0]!.message).toMatch(/6-digit hex/)
+    }
+    expect(validateArc3Metadata({ background_color: 'a1B2c3' })).toEqual([])
+  })
+
+  test('uris', () => {
+    // Test that URI fields must be absolute URIs with valid percent-encoding.
+    for (const value of ['example.com/image.png', 'https://example.com/a b.png', 'https://example.com/%zz', '']) {
+      expect(validateArc3Metadata({ image: value, external_url: value, animation_url: value })).toHaveLength(3)
+    }
+    expect(validateArc3Metadata({ image: 'data:image/png;base64,iVBORw0KGgo=' })).toEqual([])
+  })
+
+  test('localization', () => {
+    // Test that localization requires its fields, a {locale} placeholder and string locales.
+    const issues = validateArc3Metadata({ localization: { uri: 'ipfs://Qm/en.json', locales: ['en', 1] } })
+    expect(issues.map((i) => i.path)).toEqual(['localization.default', 'localization.uri', 'localization.locales[1]'])
+    expect(issues[1]!.message).toMatch(/\{locale\}/)
+
+    const badUri = validateArc3Metadata({ localization: { uri: 'not a uri/{locale}', default: 'en', locales: [] } })
+    expect(badUri.map((i) => i.path)).toEqual(['localization.uri'])
+    expect(validateArc3Metadata({ localization: 'en' })[0]!.path).toBe('localization')
+  })
+
+  test('extra metadata', () => {
+    // Test that extra_metadata must be canonical padded base64.
+    for (const value of ['abc', 'YQ', 'YR==', 'YQ==\n', 'a-b_']) {
+      expect(validateArc3Metadata({ extra_metadata: value }).map((i) => i.path)).toEqual(['extra_metadata'])
+    }
+    expect(validateArc3Metadata({ extra_metadata: '' })).toEqual([])
+  })
+
+  test('collects all issues', () => {
+    // Test that every invalid field is reported instead of stopping at the first.
+    const issues = validateArc3Metadata({
+      ...valid,
+      name: 1,
+      decimals: -1,
+      image_integrity: 'sha256-abc123',
+      background_color: '#FFFFFF',
+      properties: [],
+    })
+    expect(issues.map((i) => i.path)).toEqual(['name', 'decimals', 'image_integrity', 'background_color', 'properties'])
+    expect(issues[0]!.message).toBe('must be a string, got number')
+  })
+})
@@ -7,6 +7,8 @@
  * - Registry resolution and ARC-90 URI handling
  * - High-level getAssetMetadata with various sources
  * - Deprecation following
+ * - Batched getAssetMetadataMany (dedup, concurrency, packed AVM groups)
+ * - Read cache (fresh hits, header and event revalidation, refetch)
  * - All dispatcher methods for contract getters
  * - Error handling and edge cases
  * - Integration with box and avm readers
@@ -16,12 +18,15 @@ import { describe, expect, test, vi, beforeEach } from 'vitest'
 import {
   AlgodBoxReader,
   Arc90Uri,
+  Arc89MetadataDeletedEvent,
   InvalidArc90UriError,
   IrreversibleFlags,
   MbrDelta,
   MbrDeltaSign,
   MetadataBody,
+  MetadataCache,
   MetadataDriftError,
+  MetadataNotFoundError,
   MetadataExistence,
   MetadataFlags,
   MetadataHeader,
@@ -34,8 +39,10 @@ import {
   getDefaultRegistryParams,
   AsaMetadataRegistryBoxRead,
   AsaMetadataRegistryAvmRead,
+  AsaMetadataRegistryHistoryRead,
   AlgodClientSubset,
   AssetMetadataRecord,
+  BoxNotFoundError,
   bitmasks,
   // reader
   AsaMetadataRegistryRead,
@@ -637,6 +644,399 @@ describe('get asset metadata', () => {
   })
 })
 
+// ================================================================
+// Batch Reads Tests
+// ================================================================
+
+describe('get asset metadata many', () => {
+  // Tests for getAssetMetadataMany.
+  type FakeAsset = { lastModifiedRound?: bigint; pageRound?: bigint; pages: Uint8Array[] }
+
+  /**
+   * Helper to serve AVM getters (packed or single) from a map of fake assets.
+   * Missing assets make the whole simulate group fail, as the contract would.
+   */
+  const mockAvmAssets = (
+    mockAvm: ReturnType<typeof vi.mocked<AsaMetadataRegistryAvmRead>>,
+    assets: Map<bigint, FakeAsset>,
+  ) => {
+    const groups: string[][] = []
+    const lookup = (assetId: unknown): FakeAsset => {
+      const asset = assets.get(BigInt(assetId as bigint))
+      if (!asset) throw new BoxNotFoundError('Metadata box not found')
+      return asset
+    }
+    const header = (asset: FakeAsset) => ({
+      identifiers: 0,
+      reversibleFlags: 0,
+      irreversibleFlags: 0,
+      hash: new Uint8Array(32),
+      lastModifiedRound: asset.lastModifiedRound ?? 1000n,
+      deprecatedBy: 0n,
+    })
+    const pagination = (asset: FakeAsset) => ({
+      metadataSize: asset.pages.reduce((n, p) => n + p.length, 0),
+      pageSize: 100,
+      totalPages: asset.pages.length,
+    })
+
+    mockAvm.simulateMany.mockImplementation(async (build) => {
+      const calls: { method: string; args: unknown[] }[] = []
+      const composer = new Proxy(
+        {},
+        {
+          get: (_, method) => (params: { args: unknown[] }) =>
+            calls.push({ method: String(method), args: params.args }),
+        },
+      )
+      build(composer as never)
+      groups.push(calls.map((c) => c.method))
+      return calls.map(({ method, args }) => {
+        const asset = lookup(args[0])
+        if (method === 'arc89GetMetadataHeader') return header(asset)
+        if (method === 'arc89GetMetadataPagination') return pagination(asset)
+        return {
+          hasNextPage: false,
+          lastModifiedRound: asset.pageRound ?? asset.lastModifiedRound ?? 1000n,
+          pageContent: asset.pages[args[1] as number],
+        }
+      })
+    })
+    mockAvm.arc89GetMetadataHeader.mockImplementation(async ({ assetId }) =>
+      MetadataHeader.fromTuple([0, 0, 0, new Uint8Array(32), lookup(assetId).lastModifiedRound ?? 1000n, 0n]),
+    )
+    mockAvm.arc89GetMetadataPagination.mockImplementation(async ({ assetId }) =>
+      Pagination.fromTuple(Object.values(pagination(lookup(assetId)))),
+    )
+    return groups
+  }
+
+  const text = (s: string) => new TextEncoder().encode(s)
+
+  test('box source dedups and keeps order', async () => {
+    // Test that duplicate ids are read once and results follow first-occurrence order.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader })
+    mockAssetMetadataRecord(algod, sampleMetadataRecord())
+
+    const results = await reader.getAssetMetadataMany({ assetIds: [2n, 1, 2, 3n, 1n], source: MetadataSource.BOX })
+
+    expect(results.map((r) => r.assetId)).toEqual([2n, 1n, 3n])
+    expect(results.every((r) => r.ok)).toBe(true)
+  })
+
+  test('per asset failures', async () => {
+    // Test that a failing asset yields a typed failure without failing the batch.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader })
+    mockAssetMetadataRecord(algod, sampleMetadataRecord())
+    const spy = vi.spyOn(reader, 'getAssetMetadata')
+    spy.mockImplementationOnce(async () => {
+      throw new BoxNotFoundError('Metadata box not found')
+    })
+
+    const results = await reader.getAssetMetadataMany({ assetIds: [1n, 2n], concurrency: 1 })
+
+    expect(results[0]!.ok).toBe(false)
+    expect(!results[0]!.ok && results[0]!.error).toBeInstanceOf(BoxNotFoundError)
+    expect(results[1]!.ok).toBe(true)
+  })
+
+  test('respects concurrency', async () => {
+    // Test that no more than `concurrency` reads are in flight.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader })
+    let inFlight = 0
+    let maxInFlight = 0
+    vi.spyOn(reader, 'getAssetMetadata').mockImplementation(async () => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      inFlight--
+      return sampleMetadataRecord()
+    })
+
+    const results = await reader.getAssetMetadataMany({ assetIds: [1, 2, 3, 4, 5, 6, 7], concurrency: 3 })
+
+    expect(results).toHaveLength(7)
+    expect(maxInFlight).toBe(3)
+  })
+
+  test('invalid concurrency', async () => {
+    // Test that a non-positive concurrency is rejected.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader })
+    await expect(reader.getAssetMetadataMany({ assetIds: [1], concurrency: 0 })).rejects.toThrow(RangeError)
+  })
+
+  test('avm packs assets into shared groups', async () => {
+    // Test that header, pagination and page getters of several assets share simulate groups.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, avmFactory })
+    const mockAvm = vi.mocked(avmFactory(123n))
+    const groups = mockAvmAssets(
+      mockAvm,
+      new Map([
+        [1n, { pages: [text('{"a":'), text('1}')] }],
+        [2n, { pages: [text('{"b":2}')] }],
+        [3n, { pages: [] }],
+      ]),
+    )
+
+    const results = await reader.getAssetMetadataMany({ assetIds: [1n, 2n, 3n], source: MetadataSource.AVM })
+
+    expect(groups).toHaveLength(2)
+    expect(groups[0]).toHaveLength(6)
+    expect(groups[1]).toEqual(['arc89GetMetadata', 'arc89GetMetadata', 'arc89GetMetadata'])
+    expect(results.map((r) => (r.ok ? r.record.json : null))).toEqual([{ a: 1 }, { b: 2 }, {}])
+    expect(mockAvm.arc89GetMetadataHeader).not.toHaveBeenCalled()
+  })
+
+  test('avm retries failed group per asset', async () => {
+    // Test that a failed shared group is retried per asset to attribute the failure.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, avmFactory })
+    const mockAvm = vi.mocked(avmFactory(123n))
+    mockAvmAssets(mockAvm, new Map([[1n, { pages: [text('{"a":1}')] }]]))
+
+    const results = await reader.getAssetMetadataMany({ assetIds: [1n, 2n], source: MetadataSource.AVM })
+
+    expect(results[0]!.ok && results[0]!.record.json).toEqual({ a: 1 })
+    expect(!results[1]!.ok && results[1]!.error).toBeInstanceOf(BoxNotFoundError)
+  })
+
+  test('avm uses cache', async () => {
+    // Test that fresh entries skip simulate and stale but current entries skip page reads.
+    let now = 0
+    const cache = new MetadataCache({ ttlMs: 1000, now: () => now })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, avmFactory, cache })
+    const mockAvm = vi.mocked(avmFactory(123n))
+    const groups = mockAvmAssets(
+      mockAvm,
+      new Map([
+        [1n, { pages: [text('{"a":1}')] }],
+        [2n, { pages: [text('{"b":2}')] }],
+      ]),
+    )
+
+    await reader.getAssetMetadataMany({ assetIds: [1n, 2n], source: MetadataSource.AVM })
+    expect(groups).toHaveLength(2)
+
+    const cached = await reader.getAssetMetadataMany({ assetIds: [1n, 2n], source: MetadataSource.AVM })
+    expect(groups).toHaveLength(2)
+    expect(cached.every((r) => r.ok)).toBe(true)
+
+    now = 5000
+    const revalidated = await reader.getAssetMetadataMany({ assetIds: [1n, 2n], source: MetadataSource.AVM })
+    expect(groups).toHaveLength(3)
+    expect(groups[2]).toHaveLength(4)
+    expect(revalidated.map((r) => (r.ok ? r.record.json : null))).toEqual([{ a: 1 }, { b: 2 }])
+  })
+
+  test('avm detects drift against header', async () => {
+    // Test that pages modified after the header read are reported as drift.
+    const reader = new AsaMetadataRegistryRead({ appId: 123, avmFactory })
+    const mockAvm = vi.mocked(avmFactory(123n))
+    mockAvmAssets(mockAvm, new Map([[1n, { pageRound: 1001n, pages: [text('{}')] }]]))
+
+    const [result] = await reader.getAssetMetadataMany({ assetIds: [1n], source: MetadataSource.AVM })
+
+    expect(!result!.ok && result!.error).toBeInstanceOf(MetadataDriftError)
+  })
+})
+
+// ================================================================
+// Read Cache Tests
+// ================================================================
+
+describe('read cache', () => {
+  // Tests for getAssetMetadata with a MetadataCache.
+  const mockBoxes = (records: AssetMetadataRecord[], round?: bigint) => {
+    mockAssetMetadataRecord(algod, records[0]!)
+    const boxFetch = vi.fn()
+    for (const r of records) {
+      boxFetch.mockReturnValueOnce({
+        do: vi.fn().mockResolvedValue({
+          name: new Uint8Array(),
+          value: concatBytes([r.header.serialized, r.body.rawBytes]),
+          round,
+        }),
+      })
+    }
+    algod.getApplicationBoxByName = boxFetch
+    return boxFetch
+  }
+
+  test('fresh entry served from cache', async () => {
+    // Test that a fresh entry avoids a second box read.
+    const cache = new MetadataCache({ ttlMs: 60_000 })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader, cache })
+    const fetch = mockBoxes([sampleMetadataRecord()])
+
+    await reader.getAssetMetadata({ assetId: 456 })
+    const result = await reader.getAssetMetadata({ assetId: 456 })
+
+    expect(result.json).toEqual({ name: 'test' })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  test('stale entry revalidated by header', async () => {
+    // Test that an unchanged lastModifiedRound reuses the cached body with the fresh header.
+    let now = 0
+    const cache = new MetadataCache({ ttlMs: 1000, now: () => now })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader, avmFactory, cache })
+    const fetch = mockBoxes([sampleMetadataRecord()])
+    const migratedHeader = new MetadataHeader({ ...sampleMetadataHeaderDefault, deprecatedBy: 123n })
+    vi.mocked(avmFactory(123n)).arc89GetMetadataHeader.mockResolvedValue(migratedHeader)
+
+    await reader.getAssetMetadata({ assetId: 456 })
+    now = 5000
+    const result = await reader.getAssetMetadata({ assetId: 456 })
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(result.header.deprecatedBy).toBe(123n)
+    expect(result.json).toEqual({ name: 'test' })
+    expect((await cache.lookup({ appId: 123, assetId: 456 }))?.fresh).toBe(true)
+  })
+
+  test('stale entry refetched when round changed', async () => {
+    // Test that a newer lastModifiedRound triggers a full refetch.
+    let now = 0
+    const cache = new MetadataCache({ ttlMs: 1000, now: () => now })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader, avmFactory, cache })
+    const updatedHeader = new MetadataHeader({ ...sampleMetadataHeaderDefault, lastModifiedRound: 2000n })
+    const fetch = mockBoxes([sampleMetadataRecord(), sampleMetadataRecord(updatedHeader)])
+    vi.mocked(avmFactory(123n)).arc89GetMetadataHeader.mockResolvedValue(updatedHeader)
+
+    await reader.getAssetMetadata({ assetId: 456 })
+    now = 5000
+    const result = await reader.getAssetMetadata({ assetId: 456 })
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(result.header.lastModifiedRound).toBe(2000n)
+  })
+
+  test('stale entry refetched without avm', async () => {
+    // Test that without AVM access a stale entry is simply refetched.
+    const cache = new MetadataCache({ ttlMs: 0 })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader, cache })
+    const fetch = mockBoxes([sampleMetadataRecord(), sampleMetadataRecord()])
+
+    await reader.getAssetMetadata({ assetId: 456 })
+    await reader.getAssetMetadata({ assetId: 456 })
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  test('stale entry revalidated from events', async () => {
+    // Test that a stale box read is reused without network reads once events cover its round.
+    const cache = new MetadataCache({ ttlMs: 0 })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader, cache })
+    const fetch = mockBoxes([sampleMetadataRecord(), sampleMetadataRecord()], 1000n)
+
+    await reader.getAssetMetadata({ assetId: 456 })
+    await cache.invalidateFromEvents({ appId: 123n, events: [], throughRound: 1000n })
+    const result = await reader.getAssetMetadata({ assetId: 456 })
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(result.json).toEqual({ name: 'test' })
+  })
+
+  test('stale entry refetched after event invalidation', async () => {
+    // Test that an asset touched by a synced event is read again from its box.
+    const cache = new MetadataCache({ ttlMs: 0 })
+    const reader = new AsaMetadataRegistryRead({ appId: 123, algod: boxReader, cache })
+    const fetch = mockBoxes([sampleMetadataRecord(), sampleMetadataRecord()], 1000n)
+
+    await reader.getAssetMetadata({ assetId: 456 })
+    await cache.invalidateFromEvents({
+      appId: 123n,
+      events: [new Arc89MetadataDeletedEvent({ assetId: 456n, round: 1001n, timestamp: 0n })],
+      throughRound: 1001n,
+    })
+    await reader.getAssetMetadata({ assetId: 456 })
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+// ================================================================
+// Historical Reads Tests
+// ================================================================
+
+describe('get asset metadata at round', () => {
+  // Tests for getAssetMetadata with atRound (Indexer history).
+  const createMockHistoryFactory = (records: Map<bigint, AssetMetadataRecord | null>) => {
+    const calls: { appId: bigint; assetId: bigint | number; round: bigint | number }[] = []
+    const factory = (appId: bigint) =>
+      ({
+        getAssetMetadataAtRound: vi.fn(async (args: { assetId: bigint | number; round: bigint | number }) => {
+          calls.push({ appId, ...args })
+          return records.get(appId) ?? null
+        }),
+      }) as unknown as AsaMetadataRegistryHistoryRead
+    return { factory, calls }
+  }
+
+  test('reads from history', async () => {
+    // Test that atRound reads are served by the history reader.
+    const { factory, calls } = createMockHistoryFactory(new Map([[123n, sampleMetadataRecord()]]))
+    const reader = new AsaMetadataRegistryRead({ appId: 123, historyFactory: factory })
+
+    const result = await reader.getAssetMetadata({ assetId: 456, atRound: 900n })
+
+    expect(result.json).toEqual({ name: 'test' })
+    expect(calls).toEqual([{ appId: 123n, assetId: 456n, round: 900n }])
+  })
+
+  test('follows deprecation at round', async () => {
+    // Test that deprecation is followed as it stood at the requested round.
+    const deprecatedHeader = new MetadataHeader({ ...sampleMetadataHeaderDefault, deprecatedBy: 789n })
+    const migrated = new AssetMetadataRecord({
+      appId: 789n,
+      assetId: 456n,
+      header: sampleMetadataHeaderDefault,
+      body: sampleMetadataBodyDefault,
+    })
+    const { factory, calls } = createMockHistoryFactory(
+      new Map([
+        [123n, sampleMetadataRecord(deprecatedHeader)],
+        [789n, migrated],
+      ]),
+    )
+    const reader = new AsaMetadataRegistryRead({ appId: 123, historyFactory: factory })
+
+    const result = await reader.getAssetMetadata({ assetId: 456, atRound: 900 })
+
+    expect(result.appId).toBe(789n)
+    expect(calls.map((c) => c.appId)).toEqual([123n, 789n])
+  })
+
+  test('history reader kept per app', async () => {
+    // Test that later atRound reads reuse one history reader per app id, so its call cache is shared.
+    const { factory } = createMockHistoryFactory(new Map([[123n, sampleMetadataRecord()]]))
+    const spy = vi.fn((appId: bigint, params: RegistryParameters) => Object.assign(factory(appId), { params }))
+    const reader = new AsaMetadataRegistryRead({ appId: 123, historyFactory: spy })
+
+    await reader.getAssetMetadata({ assetId: 456, atRound: 900n })
+    await reader.getAssetMetadata({ assetId: 456, atRound: 901n })
+
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(spy).toHaveBeenCalledWith(123n, getDefaultRegistryParams())
+  })
+
+  test('not found at round', async () => {
+    // Test that missing metadata at the round raises MetadataNotFoundError.
+    const { factory } = createMockHistoryFactory(new Map())
+    const reader = new AsaMetadataRegistryRead({ appId: 123, historyFactory: factory })
+
+    await expect(reader.getAssetMetadata({ assetId: 456, atRound: 1n })).rejects.toThrow(MetadataNotFoundError)
+  })
+
+  test('history not configured', async () => {
+    // Test that atRound requires a history reader.
+    const reader = new AsaMetadataRegistryRead({ appId: 123 })
+
+    await expect(reader.getAssetMetadata({ assetId: 456, atRound: 1n })).rejects.toThrow(
+      /History reader requires an indexer client/,
+    )
+  })
+})
+
 // ================================================================
 // Dispatcher Methods Tests
 // ================================================================
@@ -391,7 +391,7 @@ describe('reader full', () => {
   test('auto source prefers box', async () => {
     // AUTO should use BOX (faster) when both are available.
     // Spy on the algod box reader to verify metadata is fetched via BOX.
-    const boxReadSpy = vi.spyOn(readerFull.algod!, 'getAssetMetadataRecord')
+    const boxReadSpy = vi.spyOn(readerFull.algod!, 'getAssetMetadataRecordWithRound')
 
     const result = await readerFull.getAssetMetadata({
       assetId: mutableShortMetadata.assetId,
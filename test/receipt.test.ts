@@ -0,0 +1,72 @@
+/**
+ * Unit tests for src/write/receipt module.
+ *
+ * Tests cover:
+ * - WriteReceipt.fromResults (tx ids, group id, round, fees, events)
+ * - Receipts without confirmations or MBR delta
+ */
+
+import { describe, expect, test } from 'vitest'
+import algosdk from 'algosdk'
+import type { SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import {
+  events,
+  Arc89MetadataUpdatedEvent,
+  MbrDelta,
+  MbrDeltaSign,
+  WriteReceipt,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { concatBytes } from '@/internal/bytes'
+
+const updatedLog = (): Uint8Array =>
+  concatBytes([
+    events.ARC89_METADATA_UPDATED_SELECTOR,
+    algosdk.ABIType.from('(uint64,uint64,uint64,byte,byte,bool,byte[32])').encode([
+      42n,
+      7n,
+      1_700_000_000n,
+      0,
+      0,
+      true,
+      new Uint8Array(32),
+    ]),
+  ])
+
+const createMockResults = (
+  overrides: Partial<SendAtomicTransactionComposerResults> = {},
+): SendAtomicTransactionComposerResults =>
+  ({
+    groupId: 'Z3JvdXA=',
+    txIds: ['TX1', 'TX2'],
+    transactions: [{ fee: 2000n }, { fee: 0n }],
+    confirmations: [
+      { confirmedRound: 7n, logs: [updatedLog(), new Uint8Array([0x15, 0x1f, 0x7c, 0x75])] },
+      { confirmedRound: 7n },
+    ],
+    ...overrides,
+  }) as unknown as SendAtomicTransactionComposerResults
+
+describe('write receipt', () => {
+  // Tests for WriteReceipt.
+  test('from results', () => {
+    // Test building a receipt from composer send results.
+    const mbrDelta = new MbrDelta({ sign: MbrDeltaSign.POS, amount: 1000 })
+    const receipt = WriteReceipt.fromResults(createMockResults(), mbrDelta)
+    expect(receipt.txIds).toEqual(['TX1', 'TX2'])
+    expect(receipt.groupId).toBe('Z3JvdXA=')
+    expect(receipt.confirmedRound).toBe(7n)
+    expect(receipt.feesPaid).toBe(2000n)
+    expect(receipt.mbrDelta).toBe(mbrDelta)
+    expect(receipt.events).toHaveLength(1)
+    expect(receipt.events[0]).toBeInstanceOf(Arc89MetadataUpdatedEvent)
+    expect(receipt.events[0]!.assetId).toBe(42n)
+  })
+
+  test('without confirmations', () => {
+    // Test that missing confirmations yield no round and no events.
+    const receipt = WriteReceipt.fromResults(createMockResults({ confirmations: [] }), null)
+    expect(receipt.confirmedRound).toBeNull()
+    expect(receipt.events).toEqual([])
+    expect(receipt.mbrDelta).toBeNull()
+  })
+})
@@ -17,12 +17,15 @@ import {
   AlgodBoxReader,
   AlgodClientSubset,
   Arc90Uri,
+  AsaMetadataRegistryHistoryRead,
   AsaMetadataRegistryRead,
   AsaMetadataRegistryWrite,
   MissingAppClientError,
   RegistryConfig,
   RegistryResolutionError,
   AsaMetadataRegistry,
+  IndexerClientSubset,
+  getDefaultRegistryParams,
 } from '@algorandfoundation/asa-metadata-registry-sdk'
 
 import { AsaMetadataRegistryClient } from '@/generated'
@@ -138,6 +141,26 @@ describe('asa metadata registry (unit)', () => {
       expect((registry as any).algodReader.algod).toBe(algod)
     })
 
+    test('from algod with indexer', () => {
+      // Test that fromAlgod wires the Indexer into the history reader.
+      const indexer = { searchForTransactions: vi.fn() } as unknown as IndexerClientSubset
+      const registry = AsaMetadataRegistry.fromAlgod({ algod, appId: 12345, indexer })
+
+      const history = registry.read.history()
+      expect(history).toBeInstanceOf(AsaMetadataRegistryHistoryRead)
+      expect(history.appId).toBe(12345n)
+      expect(history.indexer).toBe(indexer)
+      expect(history.params).toEqual(getDefaultRegistryParams())
+      expect(registry.read.history()).toBe(history)
+    })
+
+    test('from algod without indexer', () => {
+      // Test that the history reader is unavailable without an Indexer.
+      const registry = AsaMetadataRegistry.fromAlgod({ algod, appId: 12345 })
+
+      expect(registry.read.historyFactory).toBeNull()
+    })
+
     test('init with app client', () => {
       // Test initialization with appClient.
       const config = new RegistryConfig({ appId: 12345 })
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for src/snapshot module.
+ *
+ * Tests cover:
+ * - RegistrySnapshot.export (all boxes, chosen asset ids, ASA params)
+ * - JSONL round-trip and file save/load
+ * - Format validation (header, version, malformed lines)
+ * - SnapshotAlgodClient with AsaMetadataRegistry.fromAlgod and the snapshot params
+ */
+
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  AsaMetadataRegistry,
+  MetadataSource,
+  RegistryParameters,
+  RegistrySnapshot,
+  SNAPSHOT_VERSION,
+  SnapshotAlgodClient,
+  SnapshotFormatError,
+  SnapshotSourceAlgod,
+  getDefaultRegistryParams,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { createEmulator } from './helpers'
+
+const GENESIS_HASH = new Uint8Array(32).fill(9)
+
+const setup = () => {
+  const registry = createEmulator({ assetIds: [1n, 2n, 3n], withPartialUri: true, withMetadata: true })
+  const algod = {
+    ...registry.algod,
+    status: vi.fn(() => ({ do: async () => ({ lastRound: registry.round }) })),
+    getTransactionParams: vi.fn(() => ({ do: async () => ({ genesisHash: GENESIS_HASH }) })),
+  } as unknown as SnapshotSourceAlgod
+  return { registry, algod }
+}
+
+// ================================================================
+// Export and serialization
+// ================================================================
+
+describe('registry snapshot export', () => {
+  // Tests for RegistrySnapshot.export.
+  test('exports all boxes', async () => {
+    // Test that all boxes, ASA params, round and genesis hash are captured.
+    const { registry, algod } = setup()
+    const snapshot = await RegistrySnapshot.export({ algod, appId: registry.appId })
+
+    expect(snapshot.appId).toBe(1000n)
+    expect(snapshot.round).toBe(registry.round)
+    expect(snapshot.genesisHash).toEqual(GENESIS_HASH)
+    expect([...snapshot.boxes.keys()]).toEqual([1n, 2n, 3n])
+    expect(snapshot.boxes.get(2n)?.value).toEqual(registry.getBoxValue({ assetId: 2n }))
+    expect([...snapshot.assets.keys()]).toEqual([1n, 2n, 3n])
+  })
+
+  test('exports chosen asset ids', async () => {
+    // Test that only requested assets are exported and missing boxes are skipped.
+    const { registry, algod } = setup()
+    registry.destroyAsset({ assetId: 3n })
+    const snapshot = await RegistrySnapshot.export({ algod, appId: registry.appId, assetIds: [3n, 3n, 99n] })
+
+    expect([...snapshot.boxes.keys()]).toEqual([3n])
+    expect(snapshot.assets.size).toBe(0)
+  })
+
+  test('jsonl round trip', async () => {
+    // Test that toJsonl / fromJsonl preserve the snapshot.
+    const { registry, algod } = setup()
+    const snapshot = await RegistrySnapshot.export({ algod, appId: registry.appId })
+    const text = snapshot.toJsonl()
+    const lines = text.trim().split('\n')
+
+    expect(JSON.parse(lines[0]!)).toMatchObject({ type: 'header', version: SNAPSHOT_VERSION, appId: '1000' })
+    expect(lines).toHaveLength(7)
+
+    const loaded = RegistrySnapshot.fromJsonl(text)
+    expect(loaded.round).toBe(snapshot.round)
+    expect(loaded.genesisHashB64).toBe(snapshot.genesisHashB64)
+    expect(loaded.params).toEqual(snapshot.params)
+    expect(loaded.boxes).toEqual(snapshot.boxes)
+    expect(loaded.assets.get(1n)?.params.url).toBe(registry.partialUri)
+    expect(loaded.toJsonl()).toBe(text)
+  })
+
+  test('export requires a genesis hash', async () => {
+    // Test that an algod without a genesis hash fails with a typed error.
+    const { registry, algod } = setup()
+    vi.mocked(algod.getTransactionParams).mockReturnValue({ do: async () => ({}) } as never)
+
+    await expect(RegistrySnapshot.export({ algod, appId: registry.appId })).rejects.toThrow(SnapshotFormatError)
+  })
+})
+
+describe('registry snapshot files', () => {
+  // Tests for saveToFile / loadFromFile.
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'arc89-snapshot-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test('save and load', async () => {
+    // Test that a snapshot survives a file round-trip.
+    const { registry, algod } = setup()
+    const snapshot = await RegistrySnapshot.export({ algod, appId: registry.appId })
+    const path = join(directory, 'registry.jsonl')
+    await snapshot.saveToFile(path)
+
+    const loaded = await RegistrySnapshot.loadFromFile(path)
+    expect(loaded.boxes).toEqual(snapshot.boxes)
+  })
+})
+
+describe('registry snapshot format', () => {
+  // Tests for RegistrySnapshot.fromJsonl validation.
+  const header = (overrides: Record<string, unknown> = {}) =>
+    JSON.stringify({
+      type: 'header',
+      format: 'arc89-registry-snapshot',
+      version: 1,
+      appId: '1000',
+      genesisHash: 'AA==',
+      round: '10',
+      params: { ...getDefaultRegistryParams() },
+      ...overrides,
+    })
+
+  test('valid empty snapshot', () => {
+    // Test that a header-only snapshot parses.
+    const snapshot = RegistrySnapshot.fromJsonl(`${header()}\n`)
+    expect(snapshot.appId).toBe(1000n)
+    expect(snapshot.boxes.size).toBe(0)
+  })
+
+  test('rejects invalid input', () => {
+    // Test that malformed snapshots raise SnapshotFormatError.
+    expect(() => RegistrySnapshot.fromJsonl('')).toThrow(SnapshotFormatError)
+    expect(() => RegistrySnapshot.fromJsonl(header({ format: 'other' }))).toThrow(/Not an/)
+    expect(() => RegistrySnapshot.fromJsonl(header({ version: 2 }))).toThrow(/Unsupported snapshot version/)
+    expect(() => RegistrySnapshot.fromJsonl(header({ appId: 1000 }))).toThrow(/Invalid appId/)
+    expect(() => RegistrySnapshot.fromJsonl(`${header()}\n{oops`)).toThrow(/Line 2: invalid JSON/)
+    expect(() => RegistrySnapshot.fromJsonl(`${header()}\n{"type":"box","assetId":"1","round":"1"}`)).toThrow(
+      /Line 2: invalid box value/,
+    )
+    expect(() => RegistrySnapshot.fromJsonl(`${header()}\n{"type":"other"}`)).toThrow(/unknown line type/)
+  })
+})
+
+// ================================================================
+// Offline algod
+// ================================================================
+
+describe('snapshot algod client', () => {
+  // Tests for SnapshotAlgodClient.
+  test('registry reads from snapshot', async () => {
+    // Test that AsaMetadataRegistry.fromAlgod reads metadata offline, resolving the ASA url.
+    const { registry, algod } = setup()
+    const snapshot = RegistrySnapshot.fromJsonl(
+      (await RegistrySnapshot.export({ algod, appId: registry.appId })).toJsonl(),
+    )
+    const offline = AsaMetadataRegistry.fromAlgod({ algod: new SnapshotAlgodClient(snapshot).asAlgod(), appId: null })
+
+    const record = await offline.read.getAssetMetadata({ assetId: 2n, source: MetadataSource.BOX })
+    expect(record.appId).toBe(1000n)
+    expect(record.json).toEqual({ name: 'Test' })
+    expect(record.header.serialized).toEqual(registry.getMetadataHeader({ assetId: 2n }).serialized)
+  })
+
+  test('registry uses snapshot params', async () => {
+    // Test that the facade built from the snapshot reads with the snapshot's app id and parameters.
+    const params = new RegistryParameters({ ...getDefaultRegistryParams(), pageSize: 64 })
+    const snapshot = new RegistrySnapshot({ appId: 1000n, genesisHash: GENESIS_HASH, round: 1n, params })
+    const offline = new SnapshotAlgodClient(snapshot).registry()
+
+    expect(offline.config.appId).toBe(1000n)
+    expect(offline.read.box.params).toBe(params)
+  })
+
+  test('missing items read as not found', async () => {
+    // Test that unknown boxes and assets surface as the SDK's not-found errors.
+    const snapshot = new RegistrySnapshot({ appId: 1000n, genesisHash: GENESIS_HASH, round: 1n })
+    const offline = AsaMetadataRegistry.fromAlgod({ algod: new SnapshotAlgodClient(snapshot).asAlgod(), appId: 1000n })
+
+    await expect(offline.read.box.arc89CheckMetadataExists({ assetId: 5n })).resolves.toEqual([false, false])
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for src/write/unsigned module.
+ *
+ * Tests cover:
+ * - externalSigner
+ * - Exporting write groups as unsigned msgpack with a role manifest
+ * - Submitting externally signed groups (receipt, MBR delta decoding, manifest checks)
+ */
+
+import { describe, expect, test, vi } from 'vitest'
+import algosdk from 'algosdk'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import {
+  ARC4_RETURN_PREFIX,
+  ExternalSignerError,
+  MbrDeltaSign,
+  ReturnValueDecodeError,
+  SignedGroupMismatchError,
+  UnsignedWriteGroup,
+  externalSigner,
+  submitSignedGroup,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { createOfflineWriter, exportOfflineDelete, offlineWriteOptions } from './helpers'
+
+const manager = algosdk.generateAccount()
+const signer = externalSigner(manager.addr)
+
+// ================================================================
+// Export
+// ================================================================
+
+describe('external signer', () => {
+  // Tests for externalSigner.
+  test('refuses to sign', async () => {
+    // Test that the placeholder signer keeps the address and throws when used.
+    const account = externalSigner(manager.addr.toString())
+    expect(account.addr.toString()).toBe(manager.addr.toString())
+    await expect(account.signer([], [])).rejects.toThrow(ExternalSignerError)
+  })
+})
+
+describe('export unsigned group', () => {
+  // Tests for AsaMetadataRegistryWrite.exportUnsignedGroup.
+  test('manifest', async () => {
+    // Test that each transaction gets its role, method, sender and fee.
+    const { group } = await exportOfflineDelete(signer)
+
+    expect(group).toBeInstanceOf(UnsignedWriteGroup)
+    expect(group.manifest.map((e) => [e.index, e.type, e.role])).toEqual([
+      [0, 'appl', 'registryCall'],
+      [1, 'appl', 'extraResources'],
+    ])
+    expect(group.manifest[0]!.method).toBe('arc89_delete_metadata(uint64)(uint8,uint64)')
+    expect(group.manifest[0]!.sender).toBe(manager.addr.toString())
+    expect(group.manifest[0]!.fee).toBe(3000n)
+    expect(group.manifest[1]!.fee).toBe(0n)
+    expect(group.manifest.map((e) => e.txId)).toEqual(group.transactions.map((t) => t.txID()))
+  })
+
+  test('encodings', async () => {
+    // Test that raw and base64 msgpack decode back to the grouped transactions.
+    const { group } = await exportOfflineDelete(signer)
+    const raw = group.toBytes()
+    const b64 = group.toBase64()
+
+    expect(group.groupId).not.toBe('')
+    expect(b64).toEqual(raw.map((b) => Buffer.from(b).toString('base64')))
+    const decoded = raw.map((b) => algosdk.decodeUnsignedTransaction(b))
+    expect(decoded.map((t) => t.txID())).toEqual(group.manifest.map((e) => e.txId))
+    expect(Buffer.from(decoded[1]!.group!).toString('base64')).toBe(group.groupId)
+  })
+
+  test('payment role', async () => {
+    // Test that payments added to the group are reported as MBR payments.
+    const writer = createOfflineWriter()
+    const composer = await writer.buildReplaceMetadataSliceGroup({
+      assetManager: externalSigner(manager.addr),
+      assetId: 42n,
+      offset: 0,
+      payload: new Uint8Array([1]),
+      options: offlineWriteOptions,
+    })
+    const payment = await writer.client.algorand.createTransaction.payment({
+      sender: manager.addr,
+      receiver: writer.client.appAddress,
+      amount: microAlgo(0),
+    })
+    composer.addTransaction(payment, externalSigner(manager.addr).signer)
+    const group = await writer.exportUnsignedGroup({ composer, options: offlineWriteOptions })
+    expect(group.manifest.map((e) => e.role)).toEqual(['registryCall', 'mbrPayment'])
+    expect(group.manifest[1]!.method).toBeNull()
+  })
+})
+
+// ================================================================
+// Submit
+// ================================================================
+
+describe('submit signed group', () => {
+  // Tests for submitSignedGroup.
+  const mockAlgod = (logs: Uint8Array[]) => {
+    const sendRawTransaction = vi.fn(() => ({ do: async () => ({ txid: 'TX' }) }))
+    const algod = {
+      sendRawTransaction,
+      status: () => ({ do: async () => ({ lastRound: 9n }) }),
+      statusAfterBlock: () => ({ do: async () => ({ lastRound: 10n }) }),
+      pendingTransactionInformation: (txId: string) => ({
+        do: async () =>
+          new algosdk.modelsv2.PendingTransactionResponse({
+            txn: new algosdk.SignedTransaction({
+              txn: new algosdk.Transaction({
+                type: algosdk.TransactionType.pay,
+                sender: manager.addr,
+                suggestedParams: {
+                  minFee: 1000n,
+                  fee: 0n,
+                  firstValid: 1n,
+                  lastValid: 2n,
+                  genesisHash: new Uint8Array(32),
+                },
+                paymentParams: { receiver: manager.addr, amount: 0n },
+                note: new TextEncoder().encode(txId),
+              }),
+            }),
+            poolError: '',
+            confirmedRound: 10n,
+            logs,
+          }),
+      }),
+    } as unknown as algosdk.Algodv2
+    return { algod, sendRawTransaction }
+  }
+
+  test('receipt with mbr delta', async () => {
+    // Test that signed base64 blobs are sent and the registry call return is decoded.
+    const { group } = await exportOfflineDelete(signer)
+    const signed = group.transactions.map((t) => Buffer.from(t.signTxn(manager.sk)).toString('base64'))
+    const returned = new algosdk.ABITupleType([new algosdk.ABIUintType(8), new algosdk.ABIUintType(64)]).encode([
+      MbrDeltaSign.NEG,
+      24_100n,
+    ])
+    const { algod, sendRawTransaction } = mockAlgod([new Uint8Array([...ARC4_RETURN_PREFIX, ...returned])])
+
+    const receipt = await submitSignedGroup({ algod, signed, manifest: group.manifest })
+
+    expect(sendRawTransaction).toHaveBeenCalledWith(signed.map((s) => new Uint8Array(Buffer.from(s, 'base64'))))
+    expect(receipt.txIds).toEqual(group.manifest.map((e) => e.txId))
+    expect(receipt.groupId).toBe(group.groupId)
+    expect(receipt.confirmedRound).toBe(10n)
+    expect(receipt.feesPaid).toBe(3000n)
+    expect(receipt.mbrDelta?.isNegative).toBe(true)
+    expect(receipt.mbrDelta?.amount).toBe(24_100)
+  })
+
+  test('without manifest', async () => {
+    // Test that the MBR delta is null when no manifest is given.
+    const { group } = await exportOfflineDelete(signer)
+    const { algod } = mockAlgod([])
+    const receipt = await submitSignedGroup({ algod, signed: group.transactions.map((t) => t.signTxn(manager.sk)) })
+    expect(receipt.mbrDelta).toBeNull()
+  })
+
+  test('undecodable return', async () => {
+    // Test that a registry call return that cannot be decoded fails instead of yielding no MBR delta.
+    const { group } = await exportOfflineDelete(signer)
+    const signed = group.transactions.map((t) => t.signTxn(manager.sk))
+
+    for (const logs of [[], [new Uint8Array([...ARC4_RETURN_PREFIX, 1])]]) {
+      const { algod } = mockAlgod(logs)
+      await expect(submitSignedGroup({ algod, signed, manifest: group.manifest })).rejects.toThrow(
+        ReturnValueDecodeError,
+      )
+    }
+  })
+
+  test('rejects blobs not matching the manifest', async () => {
+    // Test that missing, reordered or foreign transactions are rejected before sending.
+    const { group } = await exportOfflineDelete(signer)
+    const signed = group.transactions.map((t) => t.signTxn(manager.sk))
+    const { group: other } = await exportOfflineDelete(signer, 43n)
+    const foreign = other.transactions.map((t) => t.signTxn(manager.sk))
+    const { algod, sendRawTransaction } = mockAlgod([])
+
+    for (const blobs of [signed.slice(1), [...signed].reverse(), [foreign[0]!, ...signed.slice(1)]]) {
+      await expect(submitSignedGroup({ algod, signed: blobs, manifest: group.manifest })).rejects.toThrow(
+        SignedGroupMismatchError,
+      )
+    }
+    await expect(submitSignedGroup({ algod, signed: [foreign[0]!, ...signed.slice(1)] })).rejects.toThrow(
+      /not in group/,
+    )
+    expect(sendRawTransaction).not.toHaveBeenCalled()
+  })
+})
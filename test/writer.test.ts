@@ -35,6 +35,8 @@ import {
   IrreversibleFlags,
   // writer
   AsaMetadataRegistryWrite,
+  Arc89MetadataDeletedEvent,
+  Arc89MetadataUpdatedEvent,
   WriteOptions,
   writeOptionsDefault,
 } from '@algorandfoundation/asa-metadata-registry-sdk'
@@ -507,7 +509,7 @@ describe('high-level send methods', () => {
     test('create metadata returns mbr delta', async () => {
       // Test creating metadata returns MbrDelta.
       const metadata = AssetMetadata.fromJson({ assetId, jsonObj: { name: 'Test', description: 'Test metadata' } })
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
     })
@@ -515,7 +517,7 @@ describe('high-level send methods', () => {
     test('create empty metadata returns mbr delta', async () => {
       // Test creating empty metadata returns MbrDelta.
       const metadata = buildEmptyMetadata(assetId)
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
     })
@@ -523,7 +525,7 @@ describe('high-level send methods', () => {
     test('create short metadata', async () => {
       // Test creating short metadata.
       const metadata = buildShortMetadata(assetId)
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
       const boxValue = await reader.box.getAssetMetadataRecord({ assetId })
@@ -533,7 +535,7 @@ describe('high-level send methods', () => {
     test('create large metadata', async () => {
       // Test creating large metadata.
       const metadata = buildMaxedMetadata(assetId)
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
       const boxValue = await reader.box.getAssetMetadataRecord({ assetId })
@@ -543,7 +545,7 @@ describe('high-level send methods', () => {
     test('create with custom send params', async () => {
       // Test creating metadata with custom SendParams.
       const metadata = buildShortMetadata(assetId)
-      const mbrDelta = await writer.createMetadata({
+      const { mbrDelta } = await writer.createMetadata({
         assetManager,
         metadata,
         sendParams: { coverAppCallInnerTransactionFees: false },
@@ -590,7 +592,7 @@ describe('high-level send methods', () => {
         }),
       })
 
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
     })
@@ -608,7 +610,7 @@ describe('high-level send methods', () => {
           }),
         })
 
-        const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+        const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
         expect(mbrDelta).toBeInstanceOf(MbrDelta)
         expect(mbrDelta.isPositive).toBe(true)
       },
@@ -648,7 +650,7 @@ describe('high-level send methods', () => {
         }),
       })
 
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
     })
@@ -667,7 +669,7 @@ describe('high-level send methods', () => {
         }),
       })
 
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isPositive).toBe(true)
     })
@@ -681,7 +683,7 @@ describe('high-level send methods', () => {
       const metadata = buildShortMetadata(assetId)
       await uploadMetadata({ writer, assetManager, appClient: client, metadata })
 
-      const mbrDelta = await writer.deleteMetadata({ assetManager, assetId: metadata.assetId })
+      const { mbrDelta } = await writer.deleteMetadata({ assetManager, assetId: metadata.assetId })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       expect(mbrDelta.isNegative).toBe(true)
       // TODO: replace with reader when refactored
@@ -893,7 +895,7 @@ describe('high-level send methods', () => {
       const assetId = await createArc89Asa({ assetManager, appClient: client })
       const options: WriteOptions = { ...writeOptionsDefault, feePaddingTxns: 10 }
       const metadata = AssetMetadata.fromJson({ assetId, jsonObj: { name: 'Large Fee Pad' } })
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata, options })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata, options })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
     })
 
@@ -902,7 +904,7 @@ describe('high-level send methods', () => {
       const assetId = await createArc89Asa({ assetManager, appClient: client })
       const options: WriteOptions = { ...writeOptionsDefault, extraResources: 3 }
       const metadata = AssetMetadata.fromJson({ assetId, jsonObj: { name: 'Extra Resources' } })
-      const mbrDelta = await writer.createMetadata({ assetManager, metadata, options })
+      const { mbrDelta } = await writer.createMetadata({ assetManager, metadata, options })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
     })
   })
@@ -915,12 +917,19 @@ describe('high-level send methods', () => {
       const metadata = AssetMetadata.fromJson({ assetId, jsonObj: { name: 'Will be deleted' } })
 
       // Create
-      const createDelta = await writer.createMetadata({ assetManager, metadata })
-      expect(createDelta.isPositive).toBe(true)
+      const createReceipt = await writer.createMetadata({ assetManager, metadata })
+      expect(createReceipt.mbrDelta.isPositive).toBe(true)
+      expect(createReceipt.confirmedRound).not.toBeNull()
+      expect(createReceipt.feesPaid).toBeGreaterThan(0n)
+      expect(createReceipt.events).toHaveLength(1)
+      expect(createReceipt.events[0]).toBeInstanceOf(Arc89MetadataUpdatedEvent)
+      expect(createReceipt.events[0]!.assetId).toBe(assetId)
 
       // Delete
-      const deleteDelta = await writer.deleteMetadata({ assetManager, assetId })
-      expect(deleteDelta.isNegative).toBe(true)
+      const deleteReceipt = await writer.deleteMetadata({ assetManager, assetId })
+      expect(deleteReceipt.mbrDelta.isNegative).toBe(true)
+      expect(deleteReceipt.events).toHaveLength(1)
+      expect(deleteReceipt.events[0]).toBeInstanceOf(Arc89MetadataDeletedEvent)
     })
 
     test('create set flags workflow', async () => {
@@ -1267,7 +1276,7 @@ describe('high-level replace methods', () => {
         metadataBytes: new TextEncoder().encode('small'),
         validateJsonObject: false,
       })
-      const mbrDelta = await writer.replaceMetadata({
+      const { mbrDelta } = await writer.replaceMetadata({
         assetManager,
         metadata: newMetadata,
         assumeCurrentSize: metadata.size,
@@ -1291,7 +1300,7 @@ describe('high-level replace methods', () => {
         metadataBytes: new Uint8Array(1000).fill(120),
         validateJsonObject: false,
       })
-      const mbrDelta = await writer.replaceMetadata({
+      const { mbrDelta } = await writer.replaceMetadata({
         assetManager,
         metadata: newMetadata,
         assumeCurrentSize: 0,
@@ -1314,7 +1323,7 @@ describe('high-level replace methods', () => {
         metadataBytes: new TextEncoder().encode('replacement'),
         validateJsonObject: false,
       })
-      const mbrDelta = await writer.replaceMetadata({ assetManager, metadata: newMetadata })
+      const { mbrDelta } = await writer.replaceMetadata({ assetManager, metadata: newMetadata })
       expect(mbrDelta).toBeInstanceOf(MbrDelta)
       const record = await reader.box.getAssetMetadataRecord({ assetId })
       expect(record).not.toBeNull()
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for AsaMetadataRegistryWrite pre-flight authorization checks.
+ *
+ * Tests cover:
+ * - ASA existence and manager checks (cleared manager, rekeyed manager)
+ * - Metadata existence for create vs. replace/delete
+ * - Immutable metadata and creation-only irreversible flags
+ * - Deleting metadata of a destroyed ASA
+ * - Group builders running the checks before building
+ */
+
+import { describe, expect, test } from 'vitest'
+import algosdk from 'algosdk'
+import {
+  AsaMetadataRegistryWrite,
+  AsaNotFoundError,
+  CreationOnlyFlagError,
+  InvalidFlagIndexError,
+  MetadataAlreadyExistsError,
+  MetadataImmutableError,
+  MetadataNotFoundError,
+  NotAssetManagerError,
+  externalSigner,
+  flags,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { EMULATOR_ASSET_ID, EMULATOR_MANAGER, EMULATOR_OTHER, createEmulator, emulatorMetadata } from './helpers'
+import { AsaMetadataRegistryClient } from '@/generated'
+
+/** Writer whose algod reads are served by an in-memory registry (auth addresses set with `rekey`). */
+const setup = (args?: { withMetadata?: boolean }) => {
+  const registry = createEmulator({ withMetadata: args?.withMetadata ?? true })
+
+  const authAddrs = new Map<string, string>()
+  const algod = {
+    ...registry.algod,
+    accountInformation: (address: string) => ({
+      exclude: () => ({ do: async () => ({ authAddr: authAddrs.get(address) }) }),
+    }),
+  }
+  const client = { appId: registry.appId, algorand: { client: { algod } } } as unknown as AsaMetadataRegistryClient
+  const writer = new AsaMetadataRegistryWrite({ client, params: registry.params, preflight: true })
+  const rekey = (from: string, to: string) => authAddrs.set(from, to)
+  return { registry, writer, rekey }
+}
+
+// ================================================================
+// Sender
+// ================================================================
+
+describe('asset manager', () => {
+  // Tests for the ASA and manager checks of checkWriteAuthorization.
+  test('manager is authorized', async () => {
+    // Test that the manager passes and the ASA params and metadata box are returned.
+    const { writer } = setup()
+    const auth = await writer.checkWriteAuthorization({
+      operation: 'replace',
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+    })
+    expect(auth.asset?.params.manager).toBe(EMULATOR_MANAGER)
+    expect(auth.box?.assetId).toBe(EMULATOR_ASSET_ID)
+  })
+
+  test('missing asa', async () => {
+    // Test that writes to a non-existent ASA raise AsaNotFoundError.
+    const { writer } = setup()
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'create', sender: EMULATOR_MANAGER, assetId: 999n }),
+    ).rejects.toThrow(AsaNotFoundError)
+  })
+
+  test('other sender', async () => {
+    // Test that a sender other than the manager raises NotAssetManagerError.
+    const { writer } = setup()
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'setImmutable', sender: EMULATOR_OTHER, assetId: EMULATOR_ASSET_ID }),
+    ).rejects.toThrow(NotAssetManagerError)
+  })
+
+  test('rekeyed manager', async () => {
+    // Test that sending from the manager's auth address explains how to send as the manager.
+    const { writer, rekey } = setup()
+    rekey(EMULATOR_MANAGER, EMULATOR_OTHER)
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'replace', sender: EMULATOR_OTHER, assetId: EMULATOR_ASSET_ID }),
+    ).rejects.toThrow(`send from ${EMULATOR_MANAGER} and sign with the key of ${EMULATOR_OTHER}`)
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'replace', sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID }),
+    ).resolves.toBeDefined()
+  })
+
+  test('cleared manager', async () => {
+    // Test that an ASA without a manager rejects every write.
+    const { registry, writer } = setup()
+    registry.setAssetManager({ assetId: EMULATOR_ASSET_ID, manager: algosdk.ALGORAND_ZERO_ADDRESS_STRING })
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'delete', sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID }),
+    ).rejects.toThrow(/has no manager/)
+  })
+})
+
+// ================================================================
+// Metadata state
+// ================================================================
+
+describe('metadata state', () => {
+  // Tests for the metadata checks of checkWriteAuthorization.
+  test('create requires no metadata', async () => {
+    // Test that create fails on existing metadata and passes without it.
+    await expect(
+      setup().writer.checkWriteAuthorization({
+        operation: 'create',
+        sender: EMULATOR_MANAGER,
+        assetId: EMULATOR_ASSET_ID,
+      }),
+    ).rejects.toThrow(MetadataAlreadyExistsError)
+
+    const auth = await setup({ withMetadata: false }).writer.checkWriteAuthorization({
+      operation: 'create',
+      sender: EMULATOR_MANAGER,
+      assetId: EMULATOR_ASSET_ID,
+    })
+    expect(auth.box).toBeNull()
+  })
+
+  test.each(['replace', 'slice', 'delete', 'setReversibleFlag'] as const)(
+    'requires metadata for %s',
+    async (operation) => {
+      // Test that writes other than create fail without metadata.
+      const { writer } = setup({ withMetadata: false })
+      await expect(
+        writer.checkWriteAuthorization({ operation, sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID }),
+      ).rejects.toThrow(MetadataNotFoundError)
+    },
+  )
+
+  test('immutable metadata', async () => {
+    // Test that immutable metadata cannot be modified.
+    const { registry, writer } = setup()
+    registry.setImmutable({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID })
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'delete', sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID }),
+    ).rejects.toThrow(MetadataImmutableError)
+  })
+
+  test('destroyed asa delete', async () => {
+    // Test that anyone may delete the metadata of a destroyed ASA, even if immutable.
+    const { registry, writer } = setup()
+    registry.setImmutable({ sender: EMULATOR_MANAGER, assetId: EMULATOR_ASSET_ID })
+    registry.destroyAsset({ assetId: EMULATOR_ASSET_ID })
+
+    const auth = await writer.checkWriteAuthorization({
+      operation: 'delete',
+      sender: EMULATOR_OTHER,
+      assetId: EMULATOR_ASSET_ID,
+    })
+    expect(auth.asset).toBeNull()
+    await expect(
+      writer.checkWriteAuthorization({ operation: 'replace', sender: EMULATOR_OTHER, assetId: EMULATOR_ASSET_ID }),
+    ).rejects.toThrow(AsaNotFoundError)
+  })
+
+  test('creation-only flags', async () => {
+    // Test that irreversible flags ARC-3 and ARC-89 native cannot be set after creation.
+    const { writer } = setup()
+    for (const flagIndex of [flags.IRR_FLG_ARC3, flags.IRR_FLG_ARC89]) {
+      const check = writer.checkWriteAuthorization({
+        operation: 'setIrreversibleFlag',
+        sender: EMULATOR_MANAGER,
+        assetId: EMULATOR_ASSET_ID,
+        flagIndex,
+      })
+      await expect(check).rejects.toThrow(CreationOnlyFlagError)
+      await expect(check).rejects.toThrow(InvalidFlagIndexError)
+    }
+    await expect(
+      writer.checkWriteAuthorization({
+        operation: 'setIrreversibleFlag',
+        sender: EMULATOR_MANAGER,
+        assetId: EMULATOR_ASSET_ID,
+        flagIndex: flags.IRR_FLG_ARC54,
+      }),
+    ).resolves.toBeDefined()
+  })
+})
+
+// ================================================================
+// Builders
+// ================================================================
+
+describe('builder pre-flight', () => {
+  // Tests for pre-flight checks run by group builders.
+  test('builders check before building', async () => {
+    // Test that unauthorized writes fail with typed errors before any group is built.
+    const { writer } = setup()
+    const sender = externalSigner(EMULATOR_OTHER)
+
+    expect(writer.preflight).toBe(true)
+    await expect(writer.buildDeleteMetadataGroup({ assetManager: sender, assetId: EMULATOR_ASSET_ID })).rejects.toThrow(
+      NotAssetManagerError,
+    )
+    await expect(
+      writer.buildCreateMetadataGroup({ assetManager: externalSigner(EMULATOR_MANAGER), metadata: emulatorMetadata() }),
+    ).rejects.toThrow(MetadataAlreadyExistsError)
+    await expect(
+      writer.setReversibleFlag({
+        assetManager: sender,
+        assetId: EMULATOR_ASSET_ID,
+        flagIndex: flags.REV_FLG_ARC20,
+        value: true,
+      }),
+    ).rejects.toThrow(NotAssetManagerError)
+  })
+})
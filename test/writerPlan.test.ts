@@ -0,0 +1,900 @@
+/**
+ * Offline (mock) tests for src/write/writer planning helpers.
+ *
+ * Tests cover:
+ * - Byte diff and slice write planning (internal helpers)
+ * - Hash op-up estimation
+ * - Replace strategy selection and fee savings
+ * - Slice-optimized replace group building
+ * - Offline write cost estimates
+ * - Group size validation and multi-group slice writes
+ * - Simulate-first auto-tuning of write options
+ * - Upsert (create vs. replace, flag calls, unchanged metadata)
+ * - ASA creation with the registry partial URI (sequential, precomputed `am`)
+ */
+
+import { afterEach, describe, expect, test, vi } from 'vitest'
+import algosdk from 'algosdk'
+import type { TransactionSignerAccount } from '@algorandfoundation/algokit-utils/types/account'
+import {
+  AmOverrideNotImmutableError,
+  AsaMetadataCreationError,
+  AsaMetadataRegistryAvmRead,
+  AsaMetadataRegistryWrite,
+  AssetMetadata,
+  AssetMetadataBox,
+  AutoTuneError,
+  CreationOnlyFlagError,
+  GroupTooLargeError,
+  InvalidFlagIndexError,
+  IrreversibleFlags,
+  MAX_GROUP_SIZE,
+  MbrDelta,
+  MbrDeltaSign,
+  MetadataFlags,
+  MetadataHeader,
+  MetadataNotFoundError,
+  ReversibleFlags,
+  WriteReceipt,
+  getDefaultRegistryParams,
+  writeOptionsDefault,
+} from '@algorandfoundation/asa-metadata-registry-sdk'
+import { HEADER_SIZE } from '@/constants'
+import type { AsaMetadataRegistryClient, AsaMetadataRegistryComposer } from '@/generated'
+import { changedRanges, classifySimulateFailure, estimateHashOpUps, planSliceWrites } from '@/internal/writer'
+
+const MIN_FEE = 1000
+const params = getDefaultRegistryParams()
+
+const body = (size: number, fill = 0x61) => new Uint8Array(size).fill(fill)
+
+const metadata = (bytes: Uint8Array) =>
+  AssetMetadata.fromBytes({ assetId: 42n, metadataBytes: bytes, validateJsonObject: false })
+
+const sendResult = {
+  txIds: ['TX'],
+  groupId: 'GROUP',
+  transactions: [],
+  confirmations: [],
+  returns: [{ returnValue: [MbrDeltaSign.NULL, 0n] }],
+}
+
+const mockWriter = (boxValue?: Uint8Array, asaAm?: Uint8Array) => {
+  const calls: { method: string; args: Record<string, unknown> }[] = []
+  const send = vi.fn(async () => sendResult)
+  const composer = new Proxy(
+    {},
+    {
+      get: (_target, method: string) =>
+        method === 'then'
+          ? undefined
+          : (args: Record<string, unknown>) => {
+              calls.push({ method, args })
+              if (method === 'send') return send()
+            },
+    },
+  )
+  const client = {
+    appId: 1000n,
+    appAddress: algosdk.generateAccount().addr,
+    algorand: {
+      getSuggestedParams: vi.fn(async () => ({ minFee: BigInt(MIN_FEE) })),
+      client: {
+        algod: { getAssetByID: () => ({ do: async () => ({ index: 42n, params: { metadataHash: asaAm } }) }) },
+      },
+    },
+    newGroup: vi.fn(() => composer),
+    state: { box: { assetMetadata: { value: vi.fn(async () => boxValue) } } },
+  } as unknown as AsaMetadataRegistryClient
+  return { writer: new AsaMetadataRegistryWrite({ client, params }), client, calls, send }
+}
+
+const manager = (): TransactionSignerAccount => ({
+  addr: algosdk.generateAccount().addr,
+  signer: vi.fn() as unknown as algosdk.TransactionSigner,
+})
+
+// ================================================================
+// Internal helpers
+// ================================================================
+
+describe('changed ranges', () => {
+  // Tests for changedRanges.
+  test('finds differing runs', () => {
+    // Test that contiguous differing bytes are reported as half-open ranges.
+    const before = new Uint8Array([1, 2, 3, 4, 5, 6])
+    const after = new Uint8Array([1, 9, 9, 4, 5, 9])
+    expect(changedRanges(before, after)).toEqual([
+      [1, 3],
+      [5, 6],
+    ])
+    expect(changedRanges(before, before)).toEqual([])
+  })
+
+  test('rejects different lengths', () => {
+    // Test that inputs of different length raise RangeError.
+    expect(() => changedRanges(new Uint8Array(2), new Uint8Array(3))).toThrow(RangeError)
+  })
+})
+
+describe('plan slice writes', () => {
+  // Tests for planSliceWrites.
+  test('merges ranges that fit in one call', () => {
+    // Test that nearby changes are written with a single slice covering the gap.
+    const before = body(100)
+    const after = body(100)
+    after[10] = 0x62
+    after[20] = 0x62
+    expect(planSliceWrites(before, after, 50)).toEqual([{ offset: 10, payload: after.slice(10, 21) }])
+  })
+
+  test('keeps distant ranges apart', () => {
+    // Test that merging is skipped when it would add slice calls.
+    const before = body(100)
+    const after = body(100)
+    after[0] = 0x62
+    after[99] = 0x62
+    expect(planSliceWrites(before, after, 10).map((s) => s.offset)).toEqual([0, 99])
+  })
+
+  test('splits long ranges', () => {
+    // Test that a range longer than maxSize is chunked with consecutive offsets.
+    const before = body(30)
+    const after = body(30, 0x62)
+    const slices = planSliceWrites(before, after, 12)
+    expect(slices.map((s) => [s.offset, s.payload.length])).toEqual([
+      [0, 12],
+      [12, 12],
+      [24, 6],
+    ])
+  })
+})
+
+describe('estimate hash op ups', () => {
+  // Tests for estimateHashOpUps.
+  test('pooled budget', () => {
+    // Test that op-ups cover only the budget the app calls do not provide.
+    expect(estimateHashOpUps({ appCalls: 1, hashes: 1, metadataSize: 100, pageSize: 100 })).toBe(0)
+    // 110 + 150 * 10 = 1610 opcodes vs 700 pooled.
+    expect(estimateHashOpUps({ appCalls: 1, hashes: 1, metadataSize: 1000, pageSize: 100 })).toBe(2)
+    expect(estimateHashOpUps({ appCalls: 3, hashes: 1, metadataSize: 1000, pageSize: 100 })).toBe(0)
+  })
+})
+
+// ================================================================
+// Replace planning
+// ================================================================
+
+describe('plan replace metadata', () => {
+  // Tests for AsaMetadataRegistryWrite.planReplaceMetadata.
+  const size = params.extraPayloadMaxSize * 3
+
+  test('slice for a small change', async () => {
+    // Test that a single changed byte in a multi-chunk body is written with one slice.
+    const { writer } = mockWriter()
+    const current = body(size)
+    const next = body(size)
+    next[size - 5] = 0x62
+
+    const plan = await writer.planReplaceMetadata({ metadata: metadata(next), currentBody: current, minFee: MIN_FEE })
+    expect(plan.strategy).toBe('slice')
+    expect(plan.slices).toEqual([{ offset: size - 5, payload: new Uint8Array([0x62]) }])
+    expect(plan.txnCount).toBe(1)
+    expect(plan.feeSaved).toBe(plan.fullReplaceFee - plan.fee)
+    expect(plan.feeSaved).toBeGreaterThan(0)
+  })
+
+  test('full replace when slices cost more', async () => {
+    // Test that scattered changes needing as many calls as a full rewrite keep the full replace.
+    const { writer } = mockWriter()
+    const current = body(size)
+    const next = body(size)
+    for (let i = 0; i < size; i += params.replacePayloadMaxSize) next[i] = 0x62
+
+    const plan = await writer.planReplaceMetadata({ metadata: metadata(next), currentBody: current, minFee: MIN_FEE })
+    expect(plan.strategy).toBe('replace')
+    expect(plan.slices).toEqual([])
+    expect(plan.fee).toBe(plan.fullReplaceFee)
+    expect(plan.feeSaved).toBe(0)
+  })
+
+  test('size changes', async () => {
+    // Test that bodies of a different size are rewritten in full, with the refund / payment counted.
+    const { writer } = mockWriter()
+    const larger = await writer.planReplaceMetadata({
+      metadata: metadata(body(200)),
+      currentBody: body(100),
+      minFee: MIN_FEE,
+    })
+    expect(larger.strategy).toBe('replaceLarger')
+    expect(larger.txnCount).toBe(2)
+    expect(larger.fee).toBe(2 * MIN_FEE)
+
+    const smaller = await writer.planReplaceMetadata({
+      metadata: metadata(body(100)),
+      currentBody: body(200),
+      minFee: MIN_FEE,
+    })
+    expect(smaller.strategy).toBe('replace')
+    expect(smaller.txnCount).toBe(1)
+    expect(smaller.fee).toBe(2 * MIN_FEE)
+  })
+
+  test('identical body', async () => {
+    // Test that an unchanged body is rewritten in full (slice writes of equal bytes are no-ops).
+    const { writer } = mockWriter()
+    const plan = await writer.planReplaceMetadata({
+      metadata: metadata(body(100)),
+      currentBody: body(100),
+      minFee: MIN_FEE,
+    })
+    expect(plan.strategy).toBe('replace')
+  })
+
+  test('reads on-chain body and min fee', async () => {
+    // Test that the current body comes from the box and minFee from suggested params.
+    const current = metadata(body(size))
+    const boxValue = new Uint8Array([...new Uint8Array(HEADER_SIZE), ...current.body.rawBytes])
+    const { writer, client } = mockWriter(boxValue)
+    const next = body(size)
+    next[0] = 0x62
+
+    const plan = await writer.planReplaceMetadata({ metadata: metadata(next) })
+    expect(client.state.box.assetMetadata.value).toHaveBeenCalledWith(42n)
+    expect(client.algorand.getSuggestedParams).toHaveBeenCalled()
+    expect(plan.currentSize).toBe(size)
+    expect(plan.strategy).toBe('slice')
+  })
+
+  test('missing metadata', async () => {
+    // Test that planning against a missing box raises MetadataNotFoundError.
+    const { writer } = mockWriter()
+    await expect(writer.planReplaceMetadata({ metadata: metadata(body(10)), minFee: MIN_FEE })).rejects.toThrow(
+      MetadataNotFoundError,
+    )
+  })
+})
+
+describe('build optimized replace metadata group', () => {
+  // Tests for AsaMetadataRegistryWrite.buildOptimizedReplaceMetadataGroup.
+  test('slice group', async () => {
+    // Test that slice calls pool the planned fee on the first call and append extra resources.
+    const { writer, calls } = mockWriter()
+    const size = params.extraPayloadMaxSize * 4
+    const current = body(size)
+    const next = body(size)
+    next[0] = 0x62
+    next[size - 1] = 0x62
+
+    const { plan } = await writer.buildOptimizedReplaceMetadataGroup({
+      assetManager: manager(),
+      metadata: metadata(next),
+      currentBody: current,
+      options: {
+        extraResources: 1,
+        feePaddingTxns: 0,
+        coverAppCallInnerTransactionFees: true,
+        populateAppCallResources: true,
+      },
+    })
+
+    expect(plan.strategy).toBe('slice')
+    expect(calls.map((c) => c.method)).toEqual([
+      'arc89ReplaceMetadataSlice',
+      'arc89ReplaceMetadataSlice',
+      'extraResources',
+    ])
+    expect(calls[0]!.args.args).toEqual({ assetId: 42n, offset: 0, payload: new Uint8Array([0x62]) })
+    expect(calls[0]!.args.staticFee).toEqual(expect.objectContaining({ microAlgo: BigInt(plan.fee) }))
+    expect(calls[1]!.args.staticFee).toEqual(expect.objectContaining({ microAlgo: 0n }))
+  })
+})
+
+// ================================================================
+// Cost estimates
+// ================================================================
+
+describe('write cost estimates', () => {
+  // Tests for the AsaMetadataRegistryWrite.estimate* methods (offline).
+  const size = params.extraPayloadMaxSize * 3
+  const options = { ...writeOptionsDefault, extraResources: 1, feePaddingTxns: 2 }
+
+  test('create', async () => {
+    // Test that create counts chunks, MBR payment, extra resources and padding.
+    const { writer, client } = mockWriter()
+    const md = metadata(body(size))
+    const chunks = md.body.chunkedPayload(params).length
+    const estimate = await writer.estimateCreate({ metadata: md, options, minFee: MIN_FEE })
+
+    expect(client.algorand.getSuggestedParams).not.toHaveBeenCalled()
+    expect(estimate.groupSize).toBe(chunks + 2)
+    expect(estimate.txnCount).toBe(chunks + 3)
+    expect(estimate.fee).toBe((chunks + 5) * MIN_FEE)
+    expect(estimate.mbrDelta.sign).toBe(MbrDeltaSign.POS)
+    expect(estimate.mbrDelta.amount).toBe(params.mbrForBox(size))
+    expect(estimate.opBudget.available).toBe((chunks + 1) * 700)
+    expect(estimate.opBudget.headroom).toBe(estimate.opBudget.available - estimate.opBudget.required)
+  })
+
+  test('replace', async () => {
+    // Test that growing pays the MBR delta and shrinking counts the refund inner payment.
+    const { writer } = mockWriter()
+    const larger = await writer.estimateReplace({ metadata: metadata(body(200)), currentSize: 100, minFee: MIN_FEE })
+    expect([larger.groupSize, larger.txnCount, larger.fee]).toEqual([2, 2, 2 * MIN_FEE])
+    expect(larger.mbrDelta.amount).toBe(100 * params.byteMbr)
+    expect(larger.mbrDelta.isPositive).toBe(true)
+
+    const smaller = await writer.estimateReplace({ metadata: metadata(body(100)), currentSize: 200, minFee: MIN_FEE })
+    expect([smaller.groupSize, smaller.txnCount, smaller.fee]).toEqual([1, 2, 2 * MIN_FEE])
+    expect(smaller.mbrDelta.isNegative).toBe(true)
+
+    const equal = await writer.estimateReplace({ metadata: metadata(body(100)), currentSize: 100, minFee: MIN_FEE })
+    expect([equal.groupSize, equal.txnCount]).toEqual([1, 1])
+    expect(equal.mbrDelta.isZero).toBe(true)
+  })
+
+  test('slice hashes per call', async () => {
+    // Test that slice budget counts one hash per slice call.
+    const { writer } = mockWriter()
+    const payload = body(params.replacePayloadMaxSize + 1)
+    const estimate = await writer.estimateSlice({ assetId: 42n, payload, metadataSize: size, minFee: MIN_FEE })
+    const oneHash = (await writer.estimateFlag({ assetId: 42n, metadataSize: size, minFee: MIN_FEE })).opBudget.required
+
+    expect(estimate.groupSize).toBe(2)
+    expect(estimate.fee).toBe(2 * MIN_FEE)
+    expect(estimate.opBudget.required).toBe(2 * oneHash)
+  })
+
+  test('delete and flag', async () => {
+    // Test that delete refunds the box MBR and flags are a single call.
+    const { writer } = mockWriter()
+    const del = await writer.estimateDelete({ assetId: 42n, currentSize: size, options, minFee: MIN_FEE })
+    expect([del.groupSize, del.txnCount, del.fee]).toEqual([2, 3, 5 * MIN_FEE])
+    expect(del.mbrDelta.isNegative).toBe(true)
+    expect(del.mbrDelta.amount).toBe(params.mbrForBox(size))
+    expect(del.opBudget.required).toBe(0)
+
+    const flag = await writer.estimateFlag({ assetId: 42n, metadataSize: size, minFee: MIN_FEE })
+    expect([flag.groupSize, flag.txnCount, flag.fee]).toEqual([1, 1, MIN_FEE])
+  })
+
+  test('op ups', async () => {
+    // Test that a large body hashed by few app calls reports negative headroom and op-ups.
+    const { writer } = mockWriter()
+    const estimate = await writer.estimateFlag({ assetId: 42n, metadataSize: params.maxMetadataSize, minFee: MIN_FEE })
+    expect(estimate.opBudget.headroom).toBeLessThan(0)
+    expect(estimate.opBudget.opUps).toBe(Math.ceil(-estimate.opBudget.headroom / 700))
+  })
+
+  test('reads min fee when missing', async () => {
+    // Test that minFee falls back to suggested params.
+    const { writer, client } = mockWriter()
+    const estimate = await writer.estimateFlag({ assetId: 42n, metadataSize: 10 })
+    expect(client.algorand.getSuggestedParams).toHaveBeenCalled()
+    expect(estimate.minFee).toBe(MIN_FEE)
+  })
+})
+
+// ================================================================
+// Group size
+// ================================================================
+
+describe('group size validation', () => {
+  // Tests for GroupTooLargeError raised by group builders.
+  test('create', async () => {
+    // Test that a max-size create with extra resources reports the group breakdown.
+    const { writer } = mockWriter()
+    const md = metadata(body(params.maxMetadataSize))
+    const error = await writer
+      .buildCreateMetadataGroup({
+        assetManager: manager(),
+        metadata: md,
+        options: { ...writeOptionsDefault, extraResources: 1 },
+      })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(GroupTooLargeError)
+    const { breakdown, limit } = error as GroupTooLargeError
+    expect(limit).toBe(MAX_GROUP_SIZE)
+    expect(breakdown).toEqual({
+      operation: 'arc89CreateMetadata',
+      calls: 1,
+      extraPayload: md.body.chunkedPayload(params).length - 1,
+      mbrPayment: 1,
+      extraResources: 1,
+      total: MAX_GROUP_SIZE + 1,
+    })
+    expect((error as Error).message).toMatch(/needs 17 transactions .* exceeding the limit of 16/)
+  })
+
+  test('slice and flags', async () => {
+    // Test that slice and flag groups are checked before any network call.
+    const { writer, client } = mockWriter()
+    await expect(
+      writer.buildReplaceMetadataSliceGroup({
+        assetManager: manager(),
+        assetId: 42n,
+        offset: 0,
+        payload: body(params.replacePayloadMaxSize * 16),
+        options: { ...writeOptionsDefault, extraResources: 1 },
+      }),
+    ).rejects.toThrow(GroupTooLargeError)
+    await expect(
+      writer.setReversibleFlag({
+        assetManager: manager(),
+        assetId: 42n,
+        flagIndex: 2,
+        value: true,
+        options: { ...writeOptionsDefault, extraResources: MAX_GROUP_SIZE },
+      }),
+    ).rejects.toThrow(GroupTooLargeError)
+    expect(client.algorand.getSuggestedParams).not.toHaveBeenCalled()
+  })
+})
+
+describe('build replace metadata slice groups', () => {
+  // Tests for AsaMetadataRegistryWrite.buildReplaceMetadataSliceGroups.
+  test('splits over groups', async () => {
+    // Test that slice calls are split so that each group stays within the limit.
+    const { writer, client, calls } = mockWriter()
+    const max = params.replacePayloadMaxSize
+    const composers = await writer.buildReplaceMetadataSliceGroups({
+      assetManager: manager(),
+      assetId: 42n,
+      offset: 10,
+      payload: body(max * 17),
+      options: { ...writeOptionsDefault, extraResources: 1 },
+    })
+
+    expect(composers).toHaveLength(2)
+    expect(client.newGroup).toHaveBeenCalledTimes(2)
+    const slices = calls.filter((c) => c.method === 'arc89ReplaceMetadataSlice')
+    expect(slices.map((c) => (c.args.args as { offset: number }).offset)).toEqual(
+      Array.from({ length: 17 }, (_, i) => 10 + i * max),
+    )
+    expect(calls.filter((c) => c.method === 'extraResources')).toHaveLength(2)
+    expect(calls[15]!.method).toBe('extraResources')
+  })
+
+  test('single group and no room', async () => {
+    // Test that small payloads use one group and extra resources filling the group are rejected.
+    const { writer } = mockWriter()
+    const composers = await writer.buildReplaceMetadataSliceGroups({
+      assetManager: manager(),
+      assetId: 42n,
+      offset: 0,
+      payload: body(10),
+    })
+    expect(composers).toHaveLength(1)
+
+    await expect(
+      writer.buildReplaceMetadataSliceGroups({
+        assetManager: manager(),
+        assetId: 42n,
+        offset: 0,
+        payload: body(10),
+        options: { ...writeOptionsDefault, extraResources: MAX_GROUP_SIZE },
+      }),
+    ).rejects.toThrow(GroupTooLargeError)
+  })
+})
+
+// ================================================================
+// Auto-tuning
+// ================================================================
+
+describe('classify simulate failure', () => {
+  // Tests for classifySimulateFailure.
+  test('failure kinds', () => {
+    // Test that algod failure messages map to the option that fixes them.
+    expect(classifySimulateFailure('logic eval error: unavailable Account ABC')).toBe('resources')
+    expect(classifySimulateFailure('invalid Box reference 0x00')).toBe('resources')
+    expect(classifySimulateFailure('box read budget (1024) exceeded')).toBe('resources')
+    expect(classifySimulateFailure('fee too small')).toBe('fee')
+    expect(classifySimulateFailure('pc=12 dynamic cost budget exceeded, executing sha512_256')).toBe('budget')
+    expect(classifySimulateFailure('assert failed pc=100')).toBeNull()
+  })
+})
+
+describe('auto tune', () => {
+  // Tests for AsaMetadataRegistryWrite.autoTune.
+  const appCall = { accounts: [], foreignApps: [], foreignAssets: [], boxes: [] }
+  const group = (args: { appCalls?: number; consumed?: number; boxes?: number } = {}) => ({
+    txnResults: Array.from({ length: args.appCalls ?? 1 }, () => ({
+      txnResult: { txn: { txn: { applicationCall: appCall } } },
+    })),
+    appBudgetConsumed: args.consumed ?? 1500,
+    appBudgetAdded: 700,
+    unnamedResourcesAccessed: args.boxes ? { boxes: Array.from({ length: args.boxes }, () => ({})) } : undefined,
+  })
+
+  const simulated = (attempts: (string | ReturnType<typeof group>)[], measured = group()) => {
+    const simulate = vi.fn(async (options: { extraOpcodeBudget?: number }) => {
+      if (options.extraOpcodeBudget) return { simulateResponse: { txnGroups: [measured] } }
+      const next = attempts.shift() ?? group()
+      if (typeof next === 'string') throw new Error(`Transaction failed at transaction(s) 0 in the group. ${next}`)
+      return { simulateResponse: { txnGroups: [next] } }
+    })
+    const build = vi.fn(async () => ({ simulate }) as unknown as AsaMetadataRegistryComposer<unknown[]>)
+    return { simulate, build }
+  }
+
+  test('adjusts options until simulation passes', async () => {
+    // Test that a missing resource adds an extra resources call and a budget failure sizes the fee padding.
+    const { writer } = mockWriter()
+    const { simulate, build } = simulated(
+      ['unavailable App 5', 'dynamic cost budget exceeded'],
+      group({ appCalls: 2, consumed: 3400 }),
+    )
+    const tuned = await writer.autoTune({ build, options: { ...writeOptionsDefault, populateAppCallResources: false } })
+
+    expect(tuned.attempts).toBe(3)
+    expect(tuned.options).toMatchObject({ extraResources: 1, feePaddingTxns: 3 })
+    expect(build).toHaveBeenLastCalledWith(tuned.options)
+    expect(simulate).toHaveBeenCalledWith(expect.objectContaining({ skipSignatures: true }))
+    expect(simulate).toHaveBeenCalledWith(expect.objectContaining({ allowUnnamedResources: false }))
+    expect([tuned.appBudgetConsumed, tuned.appBudgetAdded]).toEqual([1500, 700])
+  })
+
+  test('measures op-ups once', async () => {
+    // Test that the fee padding converges with one extra-budget simulation.
+    const { writer } = mockWriter()
+    const { simulate, build } = simulated(['fee too small'], group({ appCalls: 1, consumed: 4000 }))
+    const tuned = await writer.autoTune({ build })
+
+    expect(tuned.attempts).toBe(2)
+    expect(tuned.options.feePaddingTxns).toBe(5)
+    expect(simulate.mock.calls.filter(([o]) => o.extraOpcodeBudget).length).toBe(1)
+  })
+
+  test('sizes extra resources from unnamed resources', async () => {
+    // Test that populated resources beyond the group's free reference slots add extra resources calls.
+    const { writer } = mockWriter()
+    const { simulate, build } = simulated([group({ appCalls: 1, boxes: 20 })])
+    const tuned = await writer.autoTune({ build })
+
+    expect(simulate).toHaveBeenCalledWith(expect.objectContaining({ allowUnnamedResources: true }))
+    expect(tuned.attempts).toBe(2)
+    expect(tuned.options.extraResources).toBe(2)
+  })
+
+  test('rethrows other failures', async () => {
+    // Test that failures unrelated to write options are not retried.
+    const { writer } = mockWriter()
+    const { build } = simulated(['assert failed pc=100'])
+    await expect(writer.autoTune({ build })).rejects.toThrow(/assert failed/)
+    expect(build).toHaveBeenCalledTimes(1)
+  })
+
+  test('gives up after max attempts', async () => {
+    // Test that AutoTuneError is raised with the last failure as cause.
+    const { writer } = mockWriter()
+    const { build } = simulated(['unavailable App 5', 'unavailable App 5', 'unavailable App 5'])
+    const error = await writer.autoTune({ build, maxAttempts: 2 }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(AutoTuneError)
+    expect(((error as AutoTuneError).cause as Error).message).toMatch(/unavailable App/)
+  })
+
+  test('send helpers send the tuned group', async () => {
+    // Test that autoTune on a send helper sends the tuned group and returns the tuned options.
+    const { writer, send } = mockWriter()
+    const simulate = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('unavailable App 5'))
+      .mockResolvedValue({ simulateResponse: { txnGroups: [group()] } })
+    vi.spyOn(writer, 'buildDeleteMetadataGroup').mockImplementation(
+      async () => ({ simulate, send }) as unknown as AsaMetadataRegistryComposer,
+    )
+
+    const receipt = await writer.deleteMetadata({ assetManager: manager(), assetId: 42n, autoTune: true })
+
+    expect(receipt.tunedOptions).toEqual({ ...writeOptionsDefault, extraResources: 1 })
+    expect(vi.mocked(writer.buildDeleteMetadataGroup)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ options: receipt.tunedOptions }),
+    )
+    expect(send).toHaveBeenCalledTimes(1)
+    expect((await writer.deleteMetadata({ assetManager: manager(), assetId: 42n })).tunedOptions).toBeNull()
+  })
+})
+
+// ================================================================
+// Upsert
+// ================================================================
+
+describe('upsert metadata', () => {
+  // Tests for AsaMetadataRegistryWrite.upsertMetadata.
+  const flagged = (bytes: Uint8Array, flags: MetadataFlags) =>
+    AssetMetadata.fromBytes({ assetId: 42n, metadataBytes: bytes, flags, validateJsonObject: false })
+
+  const onChain = (md: AssetMetadata) =>
+    new AssetMetadataBox({
+      assetId: md.assetId,
+      header: new MetadataHeader({
+        identifiers: md.identifiersByte,
+        flags: md.flags,
+        metadataHash: md.computeArc89MetadataHash(),
+        lastModifiedRound: 1n,
+        deprecatedBy: 0n,
+      }),
+      body: md.body,
+    }).serialize()
+
+  test('unchanged', async () => {
+    // Test that nothing is built or sent when the on-chain hash matches.
+    const md = flagged(
+      body(100),
+      new MetadataFlags({ reversible: new ReversibleFlags({ arc62: true }), irreversible: IrreversibleFlags.empty() }),
+    )
+    const { writer, calls } = mockWriter(onChain(md))
+
+    const result = await writer.upsertMetadata({ assetManager: manager(), metadata: md })
+    expect(result).toEqual({ action: 'unchanged', receipt: null, flagUpdates: [] })
+    expect(calls).toEqual([])
+  })
+
+  test('unchanged with am override', async () => {
+    // Test that nothing is sent when the on-chain hash is the ASA `am` override.
+    const md = flagged(
+      body(100),
+      new MetadataFlags({
+        reversible: ReversibleFlags.empty(),
+        irreversible: new IrreversibleFlags({ immutable: true }),
+      }),
+    )
+    const am = new Uint8Array(32).fill(7)
+    const box = new AssetMetadataBox({
+      assetId: md.assetId,
+      header: new MetadataHeader({
+        identifiers: md.identifiersByte,
+        flags: md.flags,
+        metadataHash: am,
+        lastModifiedRound: 1n,
+        deprecatedBy: 0n,
+      }),
+      body: md.body,
+    })
+    const { writer, calls } = mockWriter(box.serialize(), am)
+
+    const result = await writer.upsertMetadata({ assetManager: manager(), metadata: md })
+    expect(result.action).toBe('unchanged')
+    expect(calls).toEqual([])
+  })
+
+  test('replace with flag calls', async () => {
+    // Test that differing flags are appended to the replace group and paid by its fee pool.
+    const { writer, calls } = mockWriter(onChain(metadata(body(100))))
+    const md = flagged(
+      body(100, 0x62),
+      new MetadataFlags({
+        reversible: new ReversibleFlags({ arc62: true }),
+        irreversible: new IrreversibleFlags({ burnable: true, immutable: true }),
+      }),
+    )
+
+    const result = await writer.upsertMetadata({ assetManager: manager(), metadata: md })
+    expect(result.action).toBe('replace')
+    expect(result.receipt).toBeInstanceOf(WriteReceipt)
+    expect(result.flagUpdates).toEqual([
+      { kind: 'reversible', flagIndex: 1, value: true },
+      { kind: 'irreversible', flagIndex: 2, value: true },
+      { kind: 'immutable', flagIndex: 7, value: true },
+    ])
+    expect(calls.map((c) => c.method)).toEqual([
+      'arc89ReplaceMetadata',
+      'arc89SetReversibleFlag',
+      'arc89SetIrreversibleFlag',
+      'arc89SetImmutable',
+      'send',
+    ])
+    expect(calls[0]!.args.staticFee).toEqual(expect.objectContaining({ microAlgo: BigInt(4 * MIN_FEE) }))
+    expect(calls[1]!.args.args).toEqual({ assetId: 42n, flag: 1, value: true })
+    expect(calls[1]!.args.staticFee).toEqual(expect.objectContaining({ microAlgo: 0n }))
+  })
+
+  test('create when missing', async () => {
+    // Test that missing metadata is created with its flags.
+    const { writer } = mockWriter()
+    const receipt = WriteReceipt.fromResults(sendResult as never, metadata(body(1)).getMbrDelta())
+    const create = vi.spyOn(writer, 'createMetadata').mockResolvedValue(receipt)
+    const md = metadata(body(100))
+
+    const result = await writer.upsertMetadata({ assetManager: manager(), metadata: md })
+    expect(result).toEqual({ action: 'create', receipt, flagUpdates: [] })
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ metadata: md }))
+  })
+
+  test('impossible flag changes', async () => {
+    // Test that creation-only flags and clearing irreversible flags are rejected before building.
+    const current = flagged(
+      body(100),
+      new MetadataFlags({
+        reversible: ReversibleFlags.empty(),
+        irreversible: new IrreversibleFlags({ burnable: true }),
+      }),
+    )
+    const { writer, calls } = mockWriter(onChain(current))
+
+    await expect(
+      writer.upsertMetadata({ assetManager: manager(), metadata: metadata(body(100, 0x62)) }),
+    ).rejects.toThrow(InvalidFlagIndexError)
+    await expect(
+      writer.upsertMetadata({
+        assetManager: manager(),
+        metadata: flagged(
+          body(100),
+          new MetadataFlags({
+            reversible: ReversibleFlags.empty(),
+            irreversible: new IrreversibleFlags({ arc3: true, burnable: true }),
+          }),
+        ),
+      }),
+    ).rejects.toThrow(CreationOnlyFlagError)
+    expect(calls).toEqual([])
+  })
+})
+
+// ================================================================
+// ASA creation
+// ================================================================
+
+describe('create asa with metadata', () => {
+  // Tests for AsaMetadataRegistryWrite.createAsaWithMetadata.
+  const PARTIAL_URI = 'algorand://app/1000?box='
+  const immutable = new MetadataFlags({
+    reversible: ReversibleFlags.empty(),
+    irreversible: new IrreversibleFlags({ immutable: true }),
+  })
+
+  /** Mock writer whose ledger reports the given transaction counters, one per read (the last one repeats). */
+  const asaWriter = (txnCounters: bigint[] = [99n]) => {
+    const mock = mockWriter()
+    const counters = [...txnCounters]
+    Object.assign(mock.client.algorand, {
+      client: {
+        algod: {
+          status: () => ({ do: async () => ({ lastRound: 10n }) }),
+          block: () => ({
+            headerOnly: () => ({
+              do: async () => ({
+                block: { header: { txnCounter: counters.length > 1 ? counters.shift()! : counters[0]! } },
+              }),
+            }),
+          }),
+        },
+      },
+      send: { assetCreate: vi.fn(async () => ({ assetId: 77n })) },
+      createTransaction: {
+        assetCreate: vi.fn(async (p: Record<string, unknown>) => p),
+        payment: vi.fn(async (p: Record<string, unknown>) => p),
+      },
+    })
+    vi.spyOn(AsaMetadataRegistryAvmRead.prototype, 'arc89GetMetadataPartialUri').mockResolvedValue(PARTIAL_URI)
+    vi.spyOn(AsaMetadataRegistryAvmRead.prototype, 'arc89GetMetadataMbrDelta').mockResolvedValue(
+      new MbrDelta({ sign: MbrDeltaSign.POS, amount: 100 }),
+    )
+    return mock
+  }
+
+  /** Arguments of a precomputed-`am` creation. */
+  const precomputedArgs = () => ({
+    assetManager: manager(),
+    asset: { total: 1n },
+    metadata: AssetMetadata.fromBytes({
+      assetId: 0n,
+      metadataBytes: body(10),
+      flags: immutable,
+      validateJsonObject: false,
+    }),
+    partialUri: PARTIAL_URI,
+    precomputeAm: true,
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('creates asa then metadata', async () => {
+    // Test that the ASA gets the partial URI and the metadata is bound to the new id, flagged ARC-89 native.
+    const { writer, client } = asaWriter()
+    const receipt = WriteReceipt.fromResults(sendResult as never, new MbrDelta({ sign: MbrDeltaSign.POS, amount: 100 }))
+    const create = vi.spyOn(writer, 'createMetadata').mockResolvedValue(receipt)
+    const assetManager = manager()
+
+    const result = await writer.createAsaWithMetadata({
+      assetManager,
+      asset: { total: 1n, assetName: 'Test' },
+      metadata: metadata(body(10)),
+    })
+
+    expect(result).toEqual({ assetId: 77n, receipt })
+    expect(client.algorand.send.assetCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 1n, url: PARTIAL_URI, manager: assetManager.addr, sender: assetManager.addr }),
+    )
+    const created = create.mock.calls[0]![0].metadata
+    expect(created.assetId).toBe(77n)
+    expect(created.isArc89Native).toBe(true)
+    expect(created.body.rawBytes).toEqual(body(10))
+  })
+
+  test('metadata failure keeps the asset id', async () => {
+    // Test that a failed metadata creation after the ASA creation reports the created asset id.
+    const { writer } = asaWriter()
+    const cause = new Error('logic eval error')
+    vi.spyOn(writer, 'createMetadata').mockRejectedValue(cause)
+
+    const error = await writer
+      .createAsaWithMetadata({ assetManager: manager(), asset: { total: 1n }, metadata: metadata(body(10)) })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(AsaMetadataCreationError)
+    expect((error as AsaMetadataCreationError).assetId).toBe(77n)
+    expect((error as AsaMetadataCreationError).cause).toBe(cause)
+  })
+
+  test('precomputed am in one group', async () => {
+    // Test that the ASA is created in the metadata group with `am` hashed for the predicted id.
+    const { writer, client, calls } = asaWriter([99n])
+    const result = await writer.createAsaWithMetadata({
+      assetManager: manager(),
+      asset: { total: 1n },
+      metadata: AssetMetadata.fromBytes({
+        assetId: 0n,
+        metadataBytes: body(10),
+        flags: immutable,
+        validateJsonObject: false,
+      }),
+      partialUri: PARTIAL_URI,
+      precomputeAm: true,
+    })
+
+    expect(result.assetId).toBe(100n)
+    expect(result.receipt.mbrDelta.sign).toBe(MbrDeltaSign.NULL)
+    expect(calls.map((c) => c.method)).toEqual(['addTransaction', 'arc89CreateMetadata', 'send'])
+    const expected = new AssetMetadata({
+      assetId: 100n,
+      body: metadata(body(10)).body,
+      flags: new MetadataFlags({
+        reversible: ReversibleFlags.empty(),
+        irreversible: new IrreversibleFlags({ arc89Native: true, immutable: true }),
+      }),
+    })
+    expect(client.algorand.createTransaction.assetCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ url: PARTIAL_URI, metadataHash: expected.computeArc89MetadataHash() }),
+    )
+    expect(calls[1]!.args.args).toEqual(expect.objectContaining({ assetId: 100n }))
+    expect(AsaMetadataRegistryAvmRead.prototype.arc89GetMetadataPartialUri).not.toHaveBeenCalled()
+  })
+
+  test('retries when the predicted id is taken', async () => {
+    // Test that the group is rebuilt for a new id when the counter moved, though no asset exists at the old one.
+    const { writer, send } = asaWriter([99n, 104n])
+    send.mockRejectedValueOnce(new Error('asset 100 does not exist'))
+
+    expect((await writer.createAsaWithMetadata(precomputedArgs())).assetId).toBe(105n)
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  test('does not retry while the counter has not moved', async () => {
+    // Test that a group failing while the predicted id is still free is not retried.
+    const { writer, send } = asaWriter([99n])
+    send.mockRejectedValueOnce(new Error('logic eval error'))
+
+    await expect(writer.createAsaWithMetadata(precomputedArgs())).rejects.toThrow('logic eval error')
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  test('precomputed am requires immutable metadata', async () => {
+    // Test that `am` is only set for metadata flagged immutable.
+    const { writer, calls } = asaWriter()
+    await expect(
+      writer.createAsaWithMetadata({
+        assetManager: manager(),
+        asset: { total: 1n },
+        metadata: metadata(body(10)),
+        partialUri: PARTIAL_URI,
+        precomputeAm: true,
+      }),
+    ).rejects.toThrow(AmOverrideNotImmutableError)
+    expect(calls).toEqual([])
+  })
+})
@@ -5,6 +5,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src'),
+      // Before the package root alias, which would otherwise also match the subpath.
+      '@algorandfoundation/asa-metadata-registry-sdk/testing': resolve(__dirname, 'src/testing/index.ts'),
       '@algorandfoundation/asa-metadata-registry-sdk': resolve(__dirname, 'src/index.ts'),
     },
   },